@@ -124,6 +124,48 @@ export async function PUT(
   }
 }
 
+/**
+ * Load the transcription JSON currently stored for the project, to compare
+ * its revision with the one the client started editing from
+ * @returns null when nothing has been stored yet
+ * @throws When the project or its JSON cannot be loaded
+ */
+async function loadStoredTranscription(
+  id: string,
+  cookie: string
+): Promise<{ revision?: number } | null> {
+  const response = await fetch(`${BACKEND_URL}/projects/${id}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      Cookie: cookie,
+    },
+    credentials: 'include',
+  });
+  if (!response.ok) {
+    throw new Error(`Backend responded with status: ${response.status}`);
+  }
+  const project = await response.json();
+  const url = (project?.data ?? project)?.transcriptionJsonUrl;
+  if (!url) return null;
+  const json = await fetch(url, { cache: 'no-store' });
+  if (!json.ok) {
+    throw new Error(`Transcription responded with status: ${json.status}`);
+  }
+  return json.json();
+}
+
+// 409 carrying the stored version, so the client can merge against it
+const conflictResponse = (stored: { revision?: number } | null) =>
+  NextResponse.json(
+    {
+      error: 'The transcription was changed elsewhere since you opened it',
+      revision: stored?.revision ?? 0,
+      remote: stored,
+    },
+    { status: 409 }
+  );
+
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -133,7 +175,31 @@ export async function POST(
   const { id } = await params;
 
   try {
-    const body = await request.json();
+    const { baseRevision, ...body } = await request.json();
+
+    // Optimistic concurrency. The backend enforces If-Match atomically with
+    // the write; this early check only catches stale saves for backends that
+    // ignore the header, and refuses to save when the stored version cannot
+    // be read rather than writing blind.
+    if (typeof baseRevision === 'number') {
+      let stored: { revision?: number } | null;
+      try {
+        stored = await loadStoredTranscription(id, cookie);
+      } catch (error) {
+        console.error('Error checking transcription revision:', error);
+        return NextResponse.json(
+          {
+            error:
+              'Could not check for changes made elsewhere; nothing was saved',
+          },
+          { status: 503 }
+        );
+      }
+      if ((stored?.revision ?? 0) !== baseRevision) {
+        return conflictResponse(stored);
+      }
+    }
+
     const response = await fetch(
       `${BACKEND_URL}/projects/${id}/transcription`,
       {
@@ -141,12 +207,22 @@ export async function POST(
         headers: {
           'Content-Type': 'application/json',
           Cookie: cookie,
+          ...(typeof baseRevision === 'number'
+            ? { 'If-Match': `"${baseRevision}"` }
+            : {}),
         },
         credentials: 'include',
         body: JSON.stringify(body),
       }
     );
 
+    // The backend rejected the If-Match: a save landed in between
+    if (response.status === 409 || response.status === 412) {
+      return conflictResponse(
+        await loadStoredTranscription(id, cookie).catch(() => null)
+      );
+    }
+
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
       throw new Error(
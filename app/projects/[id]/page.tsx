@@ -26,11 +26,16 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
-import { findLanguage, findLanguageByAnyCode } from '@/lib/languages';
+import {
+  findLanguage,
+  findLanguageByAnyCode,
+  Language,
+} from '@/lib/languages';
 import { Switch } from '@/components/ui';
 import { useVideoSettingsStore } from '@/lib/store/video-settings';
 import { useVideoPlayer } from '@/hooks/use-video-player';
 import { useTranscriptionEditor } from '@/hooks/use-transcription-editor';
+import { TimingPlayer, useTimingMode } from '@/hooks/use-timing-mode';
 import {
   FileVideo,
   FileAudio,
@@ -43,8 +48,13 @@ import {
   FileText,
   FileCode,
   File,
+  Palette,
+  Music,
+  Clapperboard,
+  ShieldCheck,
   Trash2,
   Target,
+  FileUp,
 } from 'lucide-react';
 import { EditableTitle } from '@/components/editable-title';
 import EditableDescription from '@/components/editable-description';
@@ -52,6 +62,10 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui';
 import {
@@ -73,12 +87,30 @@ import {
 } from '@/components/ui/tooltip';
 import { useToast } from '@/hooks/use-toast';
 import InlineTranscriptionEditor from '@/components/inline-transcription-editor';
+import SaveConflictDialog from '@/components/save-conflict-dialog';
+import TimingModeBar from '@/components/timing-mode-bar';
+import WaveformTimeline, {
+  TimelineEdit,
+} from '@/components/waveform-timeline';
 import {
+  getFileFromHandle,
   getFileUrlFromHandle,
   hasFileInIndexedDB,
   saveFileToIndexedDB,
 } from '@/lib/file-system-access';
 import AudioPlayer from '@/components/audio-player';
+import ImportSubtitlesDialog from '@/components/import-subtitles-dialog';
+import ExportTimecodeDialog from '@/components/export-timecode-dialog';
+import ExportBilingualDialog from '@/components/export-bilingual-dialog';
+import ExportTranscriptDialog from '@/components/export-transcript-dialog';
+import { getVideoFrameRate } from '@/lib/utils/video-utils';
+import { DELIVERY_PROFILES } from '@/lib/subtitles/profiles';
+import { describeLineDiff } from '@/lib/line-diff';
+import { formatShift, linePosition } from '@/lib/line-history';
+import { estimateWordTimings, retimeWords } from '@/lib/subtitles/segments';
+import { glossaryForLanguage, mergeGlossaries } from '@/lib/subtitles/glossary';
+import { useAccountGlossary } from '@/lib/store/glossary';
+import type { GlossaryEntry } from '@/types/transcription';
 import { AlertTriangle, Video } from 'lucide-react';
 
 type TranscriptionData = {
@@ -90,16 +122,30 @@ type TranscriptionData = {
     words: Array<{ word: string; start: number; end: number }>;
     translations?: Record<string, string>;
     pending?: Record<string, boolean>;
+    review?: Record<string, boolean>;
+    speaker?: string;
   }>;
   language?: string;
+  speakers?: Record<string, { name: string; color: string }>;
+  glossary?: GlossaryEntry[];
 };
 
+// EBU STL only defines 25 and 30 fps (STL25.01 / STL30.01)
+const STL_FRAME_RATES = ['25', '30'];
+
 export default function GeneratePage() {
   const params = useParams();
   const router = useRouter();
   const queryClient = useQueryClient();
   const [data, setData] = useState<TranscriptionData | null>(null);
   const [pickerOpen, setPickerOpen] = useState(false);
+  const [importPickerOpen, setImportPickerOpen] = useState(false);
+  const [importLanguage, setImportLanguage] = useState<Language | null>(null);
+  const [bilingualDialogOpen, setBilingualDialogOpen] = useState(false);
+  const [transcriptDialogOpen, setTranscriptDialogOpen] = useState(false);
+  const [timecodeExport, setTimecodeExport] = useState<
+    'ttml' | 'stl' | null
+  >(null);
   const [activeJobId, setActiveJobId] = useState<string | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [visibleCodes, setVisibleCodes] = useState<Record<string, boolean>>({});
@@ -110,6 +156,7 @@ export default function GeneratePage() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [translationError, setTranslationError] = useState<string | null>(null);
   const [isEditingMode, setIsEditingMode] = useState(false);
+  const [isTimingMode, setIsTimingMode] = useState(false);
   const [editingTime, setEditingTime] = useState(0);
   const [isRefreshingAudioUrl, setIsRefreshingAudioUrl] = useState(false);
   const videoPlayerRef = useRef<any>(null);
@@ -164,6 +211,7 @@ export default function GeneratePage() {
     boolean | null
   >(null);
   const [isUploadingVideo, setIsUploadingVideo] = useState(false);
+  const [videoFrameRate, setVideoFrameRate] = useState<number | undefined>();
 
   // Check if video exists in IndexedDB (only for video projects)
   useEffect(() => {
@@ -250,6 +298,28 @@ export default function GeneratePage() {
     };
   }, [project?._id, project?.isAudioFile]);
 
+  // Probe the frame rate of the local video for frame-accurate NLE exports.
+  // Reads the stored File, which is sliced lazily, rather than fetching the
+  // whole video through its object URL.
+  useEffect(() => {
+    if (!localVideoUrl || !project?._id) {
+      setVideoFrameRate(undefined);
+      return;
+    }
+    let cancelled = false;
+    getFileFromHandle(project._id)
+      .then((file) => (file ? getVideoFrameRate(file) : undefined))
+      .then((fps) => {
+        if (!cancelled) setVideoFrameRate(fps);
+      })
+      .catch(() => {
+        if (!cancelled) setVideoFrameRate(undefined);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [localVideoUrl, project?._id]);
+
   // Video player hook - prioritize local storage (IndexedDB/File System Access API), then S3 URL
   // For audio files, use empty src since we'll use AudioPlayer instead
   const videoPlayer = useVideoPlayer({
@@ -276,13 +346,53 @@ export default function GeneratePage() {
     projectId: project?._id,
     sourceLanguageCode: originalLanguageCode,
     onDirtyChange: handleDirtyChange,
+    keyboardShortcutsEnabled: !isTimingMode,
   });
+  const [accountGlossary] = useAccountGlossary();
 
   // Connect video player time to transcription editor
   useEffect(() => {
     transcriptionEditor.setCurrentTime(videoPlayer.currentTime);
   }, [videoPlayer.currentTime]);
 
+  // Seek requests from the editor (line clicks, QC issues) move the player too
+  const seekEditorAndPlayer = useCallback(
+    (time: number) => {
+      videoPlayer.setCurrentTime(time);
+      transcriptionEditor.setCurrentTime(time);
+    },
+    [videoPlayer.setCurrentTime, transcriptionEditor.setCurrentTime]
+  );
+
+  // Keyboard timing drives the rendered player through its ref and seeks
+  // through the player hook
+  const timingPlayer = useMemo<TimingPlayer>(
+    () => ({
+      play: () => videoPlayerRef.current?.play(),
+      pause: () => videoPlayerRef.current?.pause(),
+      setPlaybackRate: (rate) => videoPlayerRef.current?.setPlaybackRate(rate),
+      getCurrentTime: () =>
+        videoPlayerRef.current?.getCurrentTime() ??
+        videoPlayer.getCurrentTime(),
+      seek: videoPlayer.seek,
+      skipBackward: videoPlayer.skipBackward,
+    }),
+    [videoPlayer.seek, videoPlayer.skipBackward, videoPlayer.getCurrentTime]
+  );
+  const exitTimingMode = useCallback(() => setIsTimingMode(false), []);
+  const timingMode = useTimingMode({
+    enabled: isTimingMode,
+    lines: transcriptionEditor.lines,
+    currentTime: videoPlayer.currentTime,
+    player: timingPlayer,
+    commitLinesUpdate: transcriptionEditor.commitLinesUpdate,
+    onExit: exitTimingMode,
+  });
+  const timingLineIndex = transcriptionEditor.lines.findIndex(
+    (l) => l.id === timingMode.lineId
+  );
+  const timingLine = transcriptionEditor.lines[timingLineIndex];
+
   // Mutation for updating project
   const updateProjectMutation = useMutation({
     mutationFn: async (updates: { title?: string; description?: string }) => {
@@ -330,25 +440,43 @@ export default function GeneratePage() {
     return findLanguage(originalLanguageCode);
   }, [originalLanguageCode]);
 
-  // Build translation language names once (from the first segment having translations)
+  // Build translation language names from the editor lines, so languages
+  // imported locally (not yet saved) are listed alongside server translations
   const translationLanguageNames = useMemo<Record<string, string>>(() => {
     const names: Record<string, string> = {};
-    const sample = data?.segments?.find(
-      (s) => s.translations && Object.keys(s.translations).length > 0
-    );
-    if (!sample || !sample.translations) return names;
-    for (const code of Object.keys(sample.translations)) {
-      const lang = findLanguageByAnyCode(code);
-      names[code] = lang?.name || code;
+    for (const line of transcriptionEditor.lines) {
+      for (const code of Object.keys(line.translations || {})) {
+        if (names[code]) continue;
+        const lang = findLanguageByAnyCode(code);
+        names[code] = lang?.name || code;
+      }
     }
     return names;
-  }, [data?.segments]);
+  }, [transcriptionEditor.lines]);
 
   const combinedLanguageNames = useMemo<Record<string, string>>(
     () => ({ ...translationLanguageNames, ...extraLangNames }),
     [translationLanguageNames, extraLangNames]
   );
 
+  // Source language first, then every translation, for export pickers
+  const exportLanguages = useMemo(
+    () => [
+      ...(originalLanguageCode
+        ? [
+            {
+              code: originalLanguageCode,
+              name: originalLanguage?.name || originalLanguageCode,
+            },
+          ]
+        : []),
+      ...Object.entries(combinedLanguageNames)
+        .filter(([code]) => code !== originalLanguageCode)
+        .map(([code, name]) => ({ code, name })),
+    ],
+    [originalLanguageCode, originalLanguage, combinedLanguageNames]
+  );
+
   // Validation function to ensure at least one language is always enabled
   const canToggleLanguage = (
     languageCode: string,
@@ -406,24 +534,76 @@ export default function GeneratePage() {
           start,
           end,
           text,
-          words: text
-            .split(/\s+/)
-            .filter(Boolean)
-            .map((word, i) => ({
-              word,
-              start: start + ((end - start) * i) / text.split(/\s+/).length,
-              end: start + ((end - start) * (i + 1)) / text.split(/\s+/).length,
-            })),
+          words: estimateWordTimings(text, start, end),
         };
 
         return [...prevLines, newLine].sort((a, b) => a.start - b.start);
-      }
+      },
+      'Add line'
     );
     setIsEditingMode(false);
     // Resume the video using the ref
     videoPlayerRef.current?.play();
   };
 
+  // Retime a line dragged on the timeline, carrying its word timings along
+  const handleTimelineRetime = (
+    id: number,
+    start: number,
+    end: number,
+    edit: TimelineEdit
+  ) => {
+    transcriptionEditor.commitLinesUpdate(
+      (prevLines) =>
+        prevLines
+          .map((l) =>
+            l.id === id
+              ? {
+                  ...l,
+                  start,
+                  end,
+                  words: retimeWords(l.words, l, { start, end }),
+                }
+              : l
+          )
+          .sort((a, b) => a.start - b.start),
+      (prevLines) => {
+        const n = linePosition(prevLines, id);
+        const line = prevLines[n - 1];
+        if (edit === 'move') {
+          return `Move line ${n} ${formatShift(start - line.start)}`;
+        }
+        return edit === 'start'
+          ? `Shift start of line ${n} ${formatShift(start - line.start)}`
+          : `Shift end of line ${n} ${formatShift(end - line.end)}`;
+      }
+    );
+  };
+
+  // Write imported subtitle text into translations[code] as one undoable step
+  const handleImportSubtitles = (textByLineId: Record<number, string>) => {
+    if (!importLanguage) return;
+    const code = importLanguage.translateCode || importLanguage.code!;
+    transcriptionEditor.commitLinesUpdate(
+      (prevLines) =>
+        prevLines.map((l) => ({
+          ...l,
+          translations: {
+            ...(l.translations || {}),
+            [code]: textByLineId[l.id] ?? '',
+          },
+        })),
+      `Import ${importLanguage.name} subtitles`
+    );
+    setExtraLangNames((prev) => ({ ...prev, [code]: importLanguage.name }));
+    setVisibleCodes((prev) => ({ ...prev, [code]: true }));
+    setImportLanguage(null);
+    toast({
+      title: 'Subtitles Imported',
+      description: `${importLanguage.name} was added. Save changes to keep it.`,
+    });
+  };
+
   // Handle exiting editing mode
   const handleExitEditingMode = () => {
     setIsEditingMode(false);
@@ -582,6 +762,13 @@ export default function GeneratePage() {
                   <FileText className="h-4 w-4 mr-2" />
                   Text
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() => setTranscriptDialogOpen(true)}
+                >
+                  <FileText className="h-4 w-4 mr-2" />
+                  Transcript…
+                </DropdownMenuItem>
                 <DropdownMenuItem
                   className="cursor-pointer"
                   onClick={() =>
@@ -600,6 +787,149 @@ export default function GeneratePage() {
                   <File className="h-4 w-4 mr-2" />
                   VTT
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() =>
+                    document.dispatchEvent(new CustomEvent('cc:export:ass'))
+                  }
+                >
+                  <Palette className="h-4 w-4 mr-2" />
+                  ASS (styled)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() => setBilingualDialogOpen(true)}
+                >
+                  <Languages className="h-4 w-4 mr-2" />
+                  Bilingual…
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() =>
+                    document.dispatchEvent(
+                      new CustomEvent('cc:export:vtt-words')
+                    )
+                  }
+                >
+                  <Music className="h-4 w-4 mr-2" />
+                  VTT (word-by-word)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() =>
+                    document.dispatchEvent(
+                      new CustomEvent('cc:export:ass-karaoke')
+                    )
+                  }
+                >
+                  <Music className="h-4 w-4 mr-2" />
+                  ASS (karaoke)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() =>
+                    document.dispatchEvent(new CustomEvent('cc:export:sbv'))
+                  }
+                >
+                  <File className="h-4 w-4 mr-2" />
+                  SBV (YouTube)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() =>
+                    document.dispatchEvent(new CustomEvent('cc:export:smi'))
+                  }
+                >
+                  <File className="h-4 w-4 mr-2" />
+                  SAMI
+                </DropdownMenuItem>
+                {project?.isAudioFile && (
+                  <DropdownMenuItem
+                    className="cursor-pointer"
+                    onClick={() =>
+                      document.dispatchEvent(new CustomEvent('cc:export:lrc'))
+                    }
+                  >
+                    <Music className="h-4 w-4 mr-2" />
+                    LRC (lyrics)
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() => setTimecodeExport('ttml')}
+                >
+                  <FileCode className="h-4 w-4 mr-2" />
+                  TTML (IMSC1)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() => setTimecodeExport('stl')}
+                >
+                  <File className="h-4 w-4 mr-2" />
+                  EBU STL
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() =>
+                    document.dispatchEvent(new CustomEvent('cc:export:scc'))
+                  }
+                >
+                  <File className="h-4 w-4 mr-2" />
+                  SCC (CEA-608)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() =>
+                    document.dispatchEvent(
+                      new CustomEvent('cc:export:fcpxml', {
+                        detail: { frameRate: videoFrameRate },
+                      })
+                    )
+                  }
+                >
+                  <Clapperboard className="h-4 w-4 mr-2" />
+                  FCPXML (Final Cut)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() =>
+                    document.dispatchEvent(
+                      new CustomEvent('cc:export:premiere', {
+                        detail: { frameRate: videoFrameRate },
+                      })
+                    )
+                  }
+                >
+                  <Clapperboard className="h-4 w-4 mr-2" />
+                  Premiere XML
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger className="cursor-pointer">
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                    Delivery profile
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="w-72">
+                    {DELIVERY_PROFILES.map((profile) => (
+                      <DropdownMenuItem
+                        key={profile.id}
+                        className="cursor-pointer flex-col items-start gap-0.5"
+                        onClick={() =>
+                          document.dispatchEvent(
+                            new CustomEvent('cc:export:profile', {
+                              detail: { profile: profile.id },
+                            })
+                          )
+                        }
+                      >
+                        <span className="font-medium">{profile.name}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {profile.description}
+                        </span>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
               </DropdownMenuContent>
             </DropdownMenu>
 
@@ -665,7 +995,9 @@ export default function GeneratePage() {
             transcription={data!}
             initialFontFamily={defaultFont}
             projectId={project?._id}
+            projectTitle={project?.title}
             projectStatus={project?.status}
+            frameRate={videoFrameRate}
             sourceLanguageName={originalLanguage?.name || originalLanguageCode}
             sourceLanguageCode={originalLanguageCode}
             onDirtyChange={setHasUnsavedChanges}
@@ -674,7 +1006,7 @@ export default function GeneratePage() {
             layout="lines-only"
             showDesktopSettings={false}
             currentTime={transcriptionEditor.currentTime}
-            setCurrentTime={transcriptionEditor.setCurrentTime}
+            setCurrentTime={seekEditorAndPlayer}
             activeLine={transcriptionEditor.activeLine}
             activeLineText={transcriptionEditor.activeLineText}
             activeSubtitles={transcriptionEditor.activeSubtitles}
@@ -686,8 +1018,15 @@ export default function GeneratePage() {
             canRedo={transcriptionEditor.canRedo}
             undo={transcriptionEditor.undo}
             redo={transcriptionEditor.redo}
+            history={transcriptionEditor.history}
+            historyIndex={transcriptionEditor.historyIndex}
+            jumpToHistory={transcriptionEditor.jumpToHistory}
             handleSave={transcriptionEditor.handleSave}
             commitLinesUpdate={transcriptionEditor.commitLinesUpdate}
+            speakers={transcriptionEditor.speakers}
+            updateSpeaker={transcriptionEditor.updateSpeaker}
+            glossary={transcriptionEditor.glossary}
+            setGlossary={transcriptionEditor.setGlossary}
           />
         </div>
 
@@ -841,6 +1180,30 @@ export default function GeneratePage() {
                 )}
               </CardContent>
             </Card>
+            {!project?.isAudioFile && (
+              <TimingModeBar
+                enabled={isTimingMode}
+                onEnabledChange={setIsTimingMode}
+                shuttle={timingMode.shuttle}
+                line={
+                  timingLine && {
+                    position: timingLineIndex + 1,
+                    start: timingLine.start,
+                    end: timingLine.end,
+                    text: timingLine.text,
+                  }
+                }
+              />
+            )}
+            {/* The extracted audio is far smaller to decode than the video */}
+            <WaveformTimeline
+              mediaUrl={project?.audioS3Url || localVideoUrl || undefined}
+              lines={transcriptionEditor.lines}
+              currentTime={videoPlayer.currentTime}
+              activeId={transcriptionEditor.activeLine?.id}
+              onSeek={seekEditorAndPlayer}
+              onRetime={handleTimelineRetime}
+            />
             <div className="flex flex-wrap items-center gap-4 mb-4 p-4 rounded-lg border bg-card text-card-foreground shadow-sm">
               <div className="flex flex-wrap items-center gap-4 text-sm">
                 <div className="flex items-center gap-2">
@@ -1024,6 +1387,15 @@ export default function GeneratePage() {
                       <span className="text-xl">🌐</span>
                       Add translation
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setImportPickerOpen(true)}
+                      disabled={transcriptionEditor.lines.length === 0}
+                    >
+                      <FileUp className="h-4 w-4" />
+                      Import subtitles
+                    </Button>
                   </div>
                 </CardFooter>
               </Card>
@@ -1034,6 +1406,113 @@ export default function GeneratePage() {
           </div>
         </div>
       </div>
+      <ModalLanguagePicker
+        open={importPickerOpen}
+        onClose={() => setImportPickerOpen(false)}
+        purpose="translation"
+        disabledCodes={originalLanguageCode ? [originalLanguageCode] : []}
+        onSelect={(language) => setImportLanguage(language)}
+      />
+      <ImportSubtitlesDialog
+        open={!!importLanguage}
+        onOpenChange={(open) => {
+          if (!open) setImportLanguage(null);
+        }}
+        languageName={importLanguage?.name}
+        lines={transcriptionEditor.lines}
+        onApply={handleImportSubtitles}
+      />
+      <AlertDialog open={!!transcriptionEditor.recoverableDraft}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Restore unsaved draft from{' '}
+              {transcriptionEditor.recoverableDraft &&
+                new Date(
+                  transcriptionEditor.recoverableDraft.savedAt
+                ).toLocaleString()}
+              ?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Changes from a previous session were never saved. Compared with
+              the saved transcription:{' '}
+              {transcriptionEditor.recoverableDraft &&
+                describeLineDiff(transcriptionEditor.recoverableDraft.summary)}
+              .
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={transcriptionEditor.discardDraft}>
+              Discard draft
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={transcriptionEditor.restoreDraft}>
+              Restore draft
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <SaveConflictDialog
+        open={!!transcriptionEditor.saveConflict}
+        conflicts={transcriptionEditor.saveConflict?.conflicts ?? []}
+        speakers={transcriptionEditor.speakers}
+        onResolve={transcriptionEditor.resolveSaveConflict}
+        onCancel={transcriptionEditor.cancelSaveConflict}
+      />
+      <ExportBilingualDialog
+        open={bilingualDialogOpen}
+        onOpenChange={setBilingualDialogOpen}
+        languages={exportLanguages}
+        onExport={(options) => {
+          setBilingualDialogOpen(false);
+          document.dispatchEvent(
+            new CustomEvent('cc:export:bilingual', { detail: options })
+          );
+        }}
+      />
+      <ExportTranscriptDialog
+        open={transcriptDialogOpen}
+        onOpenChange={setTranscriptDialogOpen}
+        languages={exportLanguages}
+        onExport={(options) => {
+          setTranscriptDialogOpen(false);
+          document.dispatchEvent(
+            new CustomEvent('cc:export:transcript', {
+              detail: {
+                ...options,
+                title: project?.title,
+                description: project?.description,
+                languageName: exportLanguages.find(
+                  (l) => l.code === options.language
+                )?.name,
+              },
+            })
+          );
+        }}
+      />
+      <ExportTimecodeDialog
+        open={!!timecodeExport}
+        onOpenChange={(open) => {
+          if (!open) setTimecodeExport(null);
+        }}
+        title={
+          timecodeExport === 'stl' ? 'Export EBU STL' : 'Export TTML (IMSC1)'
+        }
+        description={
+          timecodeExport === 'stl'
+            ? 'One file per language, wrapped to 40-character Teletext rows.'
+            : 'One document per language, styled from the subtitle settings.'
+        }
+        frameRates={timecodeExport === 'stl' ? STL_FRAME_RATES : undefined}
+        onExport={(startOffset, frameRate) => {
+          const format = timecodeExport;
+          setTimecodeExport(null);
+          document.dispatchEvent(
+            new CustomEvent(`cc:export:${format}`, {
+              detail: { startOffset, frameRate },
+            })
+          );
+        }}
+      />
       <ModalLanguagePicker
         open={pickerOpen}
         onClose={() => setPickerOpen(false)}
@@ -1059,6 +1538,10 @@ export default function GeneratePage() {
               projectId: project?._id,
               src: originalLanguageCode,
               tgt,
+              glossary: glossaryForLanguage(
+                mergeGlossaries(transcriptionEditor.glossary, accountGlossary),
+                tgt
+              ),
               // forceFresh: true,
             });
             const { jobId } = res.data;
@@ -21,13 +21,15 @@ import {
   ArrowLeft,
   Bot,
   FileAudio,
+  FileText,
   FileVideo,
   Languages,
   X,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useProjectStore } from '@/lib/store/project';
-import { CreateProjectData } from '@/types/project';
+import { CreateProjectData, ProjectStatus } from '@/types/project';
+import { TranscriptionJson } from '@/types/transcription';
 import ModalLanguagePicker from '@/components/modal-language-picker';
 import VideoPlayer from '@/components/video-player';
 import AudioPlayer from '@/components/audio-player';
@@ -53,12 +55,15 @@ import {
 import ProjectProcessingOverlay from '@/components/project-processing-overlay';
 import { getVideoScaleFormat } from '@/lib/utils/video-utils';
 import Image from 'next/image';
+import { parseSubtitleFile, ParsedCue } from '@/lib/subtitles/parse';
+import { buildSegmentsFromCues } from '@/lib/subtitles/segments';
 
 const createProjectSchema = z.object({
   title: z.string().min(1, 'Project title is required'),
   description: z.string().optional(),
   language: z.string().min(1, 'Language is required'),
   translateToEnglish: z.boolean(),
+  diarize: z.boolean(),
 });
 
 type CreateProjectFormData = z.infer<typeof createProjectSchema>;
@@ -73,6 +78,8 @@ interface ProcessingStep {
 
 export default function NewProjectV2Page() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [subtitleFile, setSubtitleFile] = useState<File | null>(null);
+  const [subtitleCues, setSubtitleCues] = useState<ParsedCue[] | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [openModal, setOpenModal] = useState<boolean>(false);
@@ -91,6 +98,7 @@ export default function NewProjectV2Page() {
       description: '',
       language: '',
       translateToEnglish: false,
+      diarize: false,
     },
   });
 
@@ -133,6 +141,34 @@ export default function NewProjectV2Page() {
     }
   };
 
+  const handleSubtitleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const { cues } = parseSubtitleFile(file.name, await file.text());
+      if (cues.length === 0) {
+        throw new Error('No subtitle cues were found in this file.');
+      }
+      setSubtitleFile(file);
+      setSubtitleCues(cues);
+    } catch (error) {
+      toast({
+        title: 'Invalid Subtitle File',
+        description:
+          error instanceof Error ? error.message : 'Could not read the file.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const clearSubtitleFile = () => {
+    setSubtitleFile(null);
+    setSubtitleCues(null);
+  };
+
   const processVideoFile = async (file: File, projectId: string) => {
     let progressInterval: NodeJS.Timeout | undefined;
 
@@ -270,33 +306,7 @@ export default function NewProjectV2Page() {
       );
 
       // Step 3: Save video using File System Access API (if supported)
-      setCurrentStepId('save');
-      setProcessingSteps((prev) =>
-        prev.map((step) =>
-          step.id === 'save' ? { ...step, status: 'in-progress' } : step
-        )
-      );
-
-      // Save video file to IndexedDB (works in all browsers)
-      // The file is stored with projectId as the key, so it can be retrieved later
-      // This function saves to IndexedDB first, then optionally uses File System Access API
-      try {
-        await saveFileWithFileSystemAccess(file, projectId, file.name);
-        // Note: We don't need to update the project in the database with fileSystemHandleId
-        // because the file is stored in IndexedDB with projectId as the key.
-        // The project detail page will automatically check IndexedDB for the file.
-      } catch (fsError: any) {
-        // User cancellation is OK - file might still be in IndexedDB
-        if (!fsError.message?.includes('cancelled')) {
-          console.error('Failed to save file to IndexedDB:', fsError);
-        }
-      }
-
-      setProcessingSteps((prev) =>
-        prev.map((step) =>
-          step.id === 'save' ? { ...step, status: 'completed' } : step
-        )
-      );
+      await saveVideoLocally(file, projectId);
     } catch (error: any) {
       if (progressInterval) {
         clearInterval(progressInterval);
@@ -305,6 +315,145 @@ export default function NewProjectV2Page() {
     }
   };
 
+  const saveVideoLocally = async (file: File, projectId: string) => {
+    setCurrentStepId('save');
+    setProcessingSteps((prev) =>
+      prev.map((step) =>
+        step.id === 'save' ? { ...step, status: 'in-progress' } : step
+      )
+    );
+
+    // Save video file to IndexedDB (works in all browsers)
+    // The file is stored with projectId as the key, so it can be retrieved later
+    // This function saves to IndexedDB first, then optionally uses File System Access API
+    try {
+      await saveFileWithFileSystemAccess(file, projectId, file.name);
+      // Note: We don't need to update the project in the database with fileSystemHandleId
+      // because the file is stored in IndexedDB with projectId as the key.
+      // The project detail page will automatically check IndexedDB for the file.
+    } catch (fsError: any) {
+      // User cancellation is OK - file might still be in IndexedDB
+      if (!fsError.message?.includes('cancelled')) {
+        console.error('Failed to save file to IndexedDB:', fsError);
+      }
+    }
+
+    setProcessingSteps((prev) =>
+      prev.map((step) =>
+        step.id === 'save' ? { ...step, status: 'completed' } : step
+      )
+    );
+  };
+
+  // Completing an audio upload is what starts transcription on the backend,
+  // unless the request sets `transcribe: false` (projects with imported
+  // subtitles, which must not be overwritten)
+  const uploadAudioFile = async (
+    file: File,
+    projectId: string,
+    { transcribe = true }: { transcribe?: boolean } = {}
+  ) => {
+    setCurrentStepId('upload');
+    setProcessingSteps((prev) =>
+      prev.map((step) =>
+        step.id === 'upload'
+          ? {
+              ...step,
+              status: 'in-progress',
+              progress: 0,
+              uploadProgress: undefined,
+            }
+          : step
+      )
+    );
+
+    const audioUploader = new S3UploadService({
+      apiBaseUrl: '/api/upload-audio',
+    });
+    const init = await audioUploader.initiateMultipartUpload(
+      file,
+      projectId,
+      ''
+    );
+
+    await audioUploader.uploadChunks(
+      file,
+      init.uploadId,
+      init.presignedUrls,
+      (uploadProgress) => {
+        console.log('Audio upload progress:', uploadProgress);
+        setProcessingSteps((prev) =>
+          prev.map((step) =>
+            step.id === 'upload'
+              ? {
+                  ...step,
+                  uploadProgress,
+                  progress: uploadProgress.progress,
+                }
+              : step
+          )
+        );
+      }
+    );
+
+    await fetch('/api/upload-audio/complete', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({
+        key: init.s3Key,
+        uploadId: init.uploadId,
+        parts: (audioUploader.getUploadSession(init.uploadId)?.parts || []).map(
+          (p: any) => ({
+            partNumber: p.partNumber,
+            etag: p.etag,
+            size: p.size,
+          })
+        ),
+        lengthSeconds: await getMediaDurationSeconds(file),
+        transcribe,
+      }),
+    });
+
+    setProcessingSteps((prev) =>
+      prev.map((step) =>
+        step.id === 'upload'
+          ? { ...step, status: 'completed', progress: 100 }
+          : step
+      )
+    );
+  };
+
+  // Store client-built segments as the project's transcription (same route the editor saves through)
+  const saveImportedTranscription = async (
+    transcription: TranscriptionJson,
+    projectId: string
+  ) => {
+    setCurrentStepId('subtitles');
+    setProcessingSteps((prev) =>
+      prev.map((step) =>
+        step.id === 'subtitles' ? { ...step, status: 'in-progress' } : step
+      )
+    );
+
+    const resp = await fetch(`/api/projects/${projectId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ json: transcription }),
+    });
+    if (!resp.ok) {
+      const err = await resp.json().catch(() => ({}));
+      throw new Error(err.error || err.message || 'Failed to save subtitles');
+    }
+
+    setProcessingSteps((prev) =>
+      prev.map((step) =>
+        step.id === 'subtitles' ? { ...step, status: 'completed' } : step
+      )
+    );
+  };
+
   const handleLanguageSelect = (selectedLang: Language) => {
     form.setValue('language', selectedLang.code!);
     setLastUsedLanguage(selectedLang.code!);
@@ -367,11 +516,22 @@ export default function NewProjectV2Page() {
       return;
     }
 
+    // Imported subtitles carry their own language, so auto-detect is not possible
+    if (subtitleCues && data.language === 'auto') {
+      toast({
+        title: 'Select a Language',
+        description: 'Choose the language of the subtitle file.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setIsCreating(true);
     setIsProcessing(true);
 
     const isVideo = selectedFile.type.startsWith('video/');
     const isAudioFile = selectedFile.type.startsWith('audio/');
+    const hasSubtitles = !!subtitleCues;
 
     // Initialize processing steps
     const steps: ProcessingStep[] = [
@@ -382,7 +542,28 @@ export default function NewProjectV2Page() {
       },
     ];
 
-    if (isVideo) {
+    if (hasSubtitles) {
+      // Subtitles are supplied: no audio extraction/upload or transcription for video
+      steps.push({
+        id: 'subtitles',
+        label: 'Importing subtitles',
+        status: 'pending',
+      });
+      if (isVideo) {
+        steps.push({
+          id: 'save',
+          label: 'Saving video locally',
+          status: 'pending',
+        });
+      } else if (isAudioFile) {
+        steps.push({
+          id: 'upload',
+          label: 'Uploading audio',
+          status: 'pending',
+          progress: 0,
+        });
+      }
+    } else if (isVideo) {
       steps.push(
         {
           id: 'extract',
@@ -452,6 +633,13 @@ export default function NewProjectV2Page() {
         durationSeconds: await getMediaDurationSeconds(selectedFile),
         isAudioFile,
         scaleFormat,
+        ...(hasSubtitles
+          ? {
+              status: ProjectStatus.READY,
+              translateToEnglish: false,
+              diarize: false,
+            }
+          : {}),
       };
 
       const response = await client.post('/projects', projectData);
@@ -470,80 +658,40 @@ export default function NewProjectV2Page() {
         )
       );
 
+      if (subtitleCues) {
+        await saveImportedTranscription(
+          {
+            segments: buildSegmentsFromCues(subtitleCues),
+            language: data.language,
+          },
+          project._id
+        );
+        // Video stays local only; audio projects still need the S3 copy for
+        // playback, uploaded without starting a transcription
+        if (isVideo) {
+          await saveVideoLocally(selectedFile, project._id);
+        } else if (isAudioFile) {
+          await uploadAudioFile(selectedFile, project._id, {
+            transcribe: false,
+          });
+        }
+
+        toast({
+          title: 'Project Created Successfully!',
+          description: 'Your subtitles were imported and are ready to edit.',
+        });
+
+        router.push(`/projects/${project._id}`);
+        return;
+      }
+
       // Process video: extract audio, upload audio, save video locally
       if (isVideo) {
         await processVideoFile(selectedFile, project._id);
       }
       // Process audio: just upload to S3
       else if (isAudioFile) {
-        setCurrentStepId('upload');
-        setProcessingSteps((prev) =>
-          prev.map((step) =>
-            step.id === 'upload'
-              ? {
-                  ...step,
-                  status: 'in-progress',
-                  progress: 0,
-                  uploadProgress: undefined,
-                }
-              : step
-          )
-        );
-
-        const audioUploader = new S3UploadService({
-          apiBaseUrl: '/api/upload-audio',
-        });
-        const init = await audioUploader.initiateMultipartUpload(
-          selectedFile,
-          project._id,
-          ''
-        );
-
-        await audioUploader.uploadChunks(
-          selectedFile,
-          init.uploadId,
-          init.presignedUrls,
-          (uploadProgress) => {
-            console.log('Audio upload progress:', uploadProgress);
-            setProcessingSteps((prev) =>
-              prev.map((step) =>
-                step.id === 'upload'
-                  ? {
-                      ...step,
-                      uploadProgress,
-                      progress: uploadProgress.progress,
-                    }
-                  : step
-              )
-            );
-          }
-        );
-
-        await fetch('/api/upload-audio/complete', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          credentials: 'include',
-          body: JSON.stringify({
-            key: init.s3Key,
-            uploadId: init.uploadId,
-            parts: (
-              audioUploader.getUploadSession(init.uploadId)?.parts || []
-            ).map((p: any) => ({
-              partNumber: p.partNumber,
-              etag: p.etag,
-              size: p.size,
-            })),
-            lengthSeconds: await getMediaDurationSeconds(selectedFile),
-          }),
-        });
-
-        setProcessingSteps((prev) =>
-          prev.map((step) =>
-            step.id === 'upload'
-              ? { ...step, status: 'completed', progress: 100 }
-              : step
-          )
-        );
+        await uploadAudioFile(selectedFile, project._id);
       }
 
       toast({
@@ -664,6 +812,43 @@ export default function NewProjectV2Page() {
                 )}
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="subtitle-file">Subtitles (optional)</Label>
+                {subtitleFile ? (
+                  <div className="flex items-center justify-between gap-2 p-3 rounded-lg border">
+                    <div className="flex items-center gap-2 text-sm min-w-0">
+                      <FileText className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium truncate">
+                        {subtitleFile.name}
+                      </span>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        ({subtitleCues?.length || 0} lines)
+                      </span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      type="button"
+                      onClick={clearSubtitleFile}
+                      className="h-8 w-8"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <Input
+                    id="subtitle-file"
+                    type="file"
+                    accept=".srt,.vtt,.ass,.ssa"
+                    onChange={handleSubtitleFileSelect}
+                  />
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Already have an SRT or VTT file? Attach it to skip
+                  transcription and go straight to the editor.
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="title">Project Title</Label>
                 <Input
@@ -730,21 +915,41 @@ export default function NewProjectV2Page() {
                 )}
               </div>
 
-              <div className="flex items-center justify-between space-x-2 p-4 border rounded-md">
-                <Label
-                  htmlFor="translate-to-english"
-                  className="cursor-pointer"
-                >
-                  Translate to English
-                </Label>
-                <Switch
-                  id="translate-to-english"
-                  checked={form.watch('translateToEnglish')}
-                  onCheckedChange={(checked) =>
-                    form.setValue('translateToEnglish', checked)
-                  }
-                />
-              </div>
+              {!subtitleFile && (
+                <div className="flex items-center justify-between space-x-2 p-4 border rounded-md">
+                  <Label
+                    htmlFor="translate-to-english"
+                    className="cursor-pointer"
+                  >
+                    Translate to English
+                  </Label>
+                  <Switch
+                    id="translate-to-english"
+                    checked={form.watch('translateToEnglish')}
+                    onCheckedChange={(checked) =>
+                      form.setValue('translateToEnglish', checked)
+                    }
+                  />
+                </div>
+              )}
+
+              {!subtitleFile && (
+                <div className="flex items-center justify-between space-x-2 p-4 border rounded-md">
+                  <Label htmlFor="diarize" className="cursor-pointer">
+                    <span className="block">Identify speakers</span>
+                    <span className="block text-xs font-normal text-muted-foreground">
+                      Label each line with who is talking
+                    </span>
+                  </Label>
+                  <Switch
+                    id="diarize"
+                    checked={form.watch('diarize')}
+                    onCheckedChange={(checked) =>
+                      form.setValue('diarize', checked)
+                    }
+                  />
+                </div>
+              )}
 
               <Button
                 type="submit"
@@ -753,7 +958,7 @@ export default function NewProjectV2Page() {
                 }
                 className="w-full"
               >
-                Generate Subtitles
+                {subtitleFile ? 'Create Project' : 'Generate Subtitles'}
               </Button>
             </form>
           </CardContent>
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import type { BilingualFormat } from '@/lib/subtitles/bilingual';
+
+export interface BilingualExportOptions {
+  primary: string;
+  secondary: string;
+  format: BilingualFormat;
+}
+
+interface ExportBilingualDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  languages: Array<{ code: string; name: string }>;
+  onExport: (options: BilingualExportOptions) => void;
+}
+
+const FORMATS: Array<{ value: BilingualFormat; label: string }> = [
+  { value: 'srt', label: 'SRT' },
+  { value: 'vtt', label: 'VTT' },
+  { value: 'ass', label: 'ASS (styled)' },
+];
+
+const ExportBilingualDialog: React.FC<ExportBilingualDialogProps> = ({
+  open,
+  onOpenChange,
+  languages,
+  onExport,
+}) => {
+  const [primary, setPrimary] = useState('');
+  const [secondary, setSecondary] = useState('');
+  const [format, setFormat] = useState<BilingualFormat>('srt');
+
+  // Default to the first two languages (source first) each time it opens
+  useEffect(() => {
+    if (!open) return;
+    setPrimary(languages[0]?.code || '');
+    setSecondary(languages[1]?.code || '');
+  }, [open]);
+
+  const renderLanguageSelect = (
+    id: string,
+    value: string,
+    onChange: (code: string) => void
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select language" />
+      </SelectTrigger>
+      <SelectContent>
+        {languages.map((lang) => (
+          <SelectItem key={lang.code} value={lang.code}>
+            {lang.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Bilingual export</DialogTitle>
+          <DialogDescription>
+            Each cue shows the primary language above the secondary one.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="bilingual-primary">Primary</Label>
+              {renderLanguageSelect('bilingual-primary', primary, setPrimary)}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bilingual-secondary">Secondary</Label>
+              {renderLanguageSelect(
+                'bilingual-secondary',
+                secondary,
+                setSecondary
+              )}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bilingual-format">Format</Label>
+            <Select
+              value={format}
+              onValueChange={(v) => setFormat(v as BilingualFormat)}
+            >
+              <SelectTrigger id="bilingual-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMATS.map((f) => (
+                  <SelectItem key={f.value} value={f.value}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {primary && primary === secondary && (
+            <p className="text-sm text-destructive">
+              Pick two different languages.
+            </p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => onExport({ primary, secondary, format })}
+              disabled={!primary || !secondary || primary === secondary}
+            >
+              Export
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportBilingualDialog;
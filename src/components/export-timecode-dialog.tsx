@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { parseTimecode } from '@/lib/subtitles/time';
+
+const DEFAULT_FRAME_RATES = ['23.976', '24', '25', '29.97', '30'];
+
+interface ExportTimecodeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  frameRates?: string[];
+  // Called with the start timecode in seconds (0 when left empty)
+  onExport: (startOffset: number, frameRate: number) => void;
+}
+
+const ExportTimecodeDialog: React.FC<ExportTimecodeDialogProps> = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  frameRates = DEFAULT_FRAME_RATES,
+  onExport,
+}) => {
+  const [timecode, setTimecode] = useState('');
+  const [frameRate, setFrameRate] = useState('25');
+
+  useEffect(() => {
+    if (open) setTimecode('');
+  }, [open]);
+
+  useEffect(() => {
+    if (!frameRates.includes(frameRate)) setFrameRate(frameRates[0]);
+  }, [frameRates, frameRate]);
+
+  const trimmed = timecode.trim();
+  const startOffset = trimmed ? parseTimecode(trimmed, Number(frameRate)) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && (
+            <DialogDescription>{description}</DialogDescription>
+          )}
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="export-start-timecode">
+                Start timecode (optional)
+              </Label>
+              <Input
+                id="export-start-timecode"
+                placeholder="10:00:00:00"
+                value={timecode}
+                onChange={(e) => setTimecode(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Frame rate</Label>
+              <Select value={frameRate} onValueChange={setFrameRate}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {frameRates.map((fps) => (
+                    <SelectItem key={fps} value={fps}>
+                      {fps}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {startOffset === null && (
+            <p className="text-sm text-destructive">
+              Use HH:MM:SS:FF or HH:MM:SS.mmm
+            </p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                startOffset !== null &&
+                onExport(startOffset, Number(frameRate))
+              }
+              disabled={startOffset === null}
+            >
+              Export
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportTimecodeDialog;
@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import {
+  DEFAULT_PARAGRAPH_GAP,
+  TranscriptFormat,
+} from '@/lib/subtitles/transcript';
+
+export interface TranscriptExportOptions {
+  language: string;
+  format: TranscriptFormat;
+  paragraphGap: number;
+  timestampInterval: number;
+}
+
+interface ExportTranscriptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  languages: Array<{ code: string; name: string }>;
+  onExport: (options: TranscriptExportOptions) => void;
+}
+
+const FORMATS: Array<{ value: TranscriptFormat; label: string }> = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'html', label: 'HTML' },
+  { value: 'docx', label: 'Word (DOCX)' },
+];
+
+const ExportTranscriptDialog: React.FC<ExportTranscriptDialogProps> = ({
+  open,
+  onOpenChange,
+  languages,
+  onExport,
+}) => {
+  const [language, setLanguage] = useState('');
+  const [format, setFormat] = useState<TranscriptFormat>('pdf');
+  const [paragraphGap, setParagraphGap] = useState(
+    String(DEFAULT_PARAGRAPH_GAP)
+  );
+  const [withTimestamps, setWithTimestamps] = useState(true);
+  const [timestampInterval, setTimestampInterval] = useState('60');
+
+  useEffect(() => {
+    if (open) setLanguage(languages[0]?.code || '');
+  }, [open]);
+
+  const gap = Number(paragraphGap);
+  const interval = Number(timestampInterval);
+  const isValid =
+    !!language &&
+    Number.isFinite(gap) &&
+    gap >= 0 &&
+    (!withTimestamps || (Number.isFinite(interval) && interval > 0));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export transcript</DialogTitle>
+          <DialogDescription>
+            A formatted document with the project title and description, split
+            into paragraphs at longer pauses.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="transcript-language">Language</Label>
+              <Select value={language} onValueChange={setLanguage}>
+                <SelectTrigger id="transcript-language">
+                  <SelectValue placeholder="Select language" />
+                </SelectTrigger>
+                <SelectContent>
+                  {languages.map((lang) => (
+                    <SelectItem key={lang.code} value={lang.code}>
+                      {lang.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transcript-format">Format</Label>
+              <Select
+                value={format}
+                onValueChange={(v) => setFormat(v as TranscriptFormat)}
+              >
+                <SelectTrigger id="transcript-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORMATS.map((f) => (
+                    <SelectItem key={f.value} value={f.value}>
+                      {f.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transcript-gap">
+              New paragraph after a pause of (seconds)
+            </Label>
+            <Input
+              id="transcript-gap"
+              type="number"
+              min={0}
+              step={0.5}
+              value={paragraphGap}
+              onChange={(e) => setParagraphGap(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="transcript-timestamps">Timestamps</Label>
+            <Switch
+              id="transcript-timestamps"
+              checked={withTimestamps}
+              onCheckedChange={setWithTimestamps}
+            />
+          </div>
+          {withTimestamps && (
+            <div className="space-y-2">
+              <Label htmlFor="transcript-interval">Every (seconds)</Label>
+              <Input
+                id="transcript-interval"
+                type="number"
+                min={1}
+                value={timestampInterval}
+                onChange={(e) => setTimestampInterval(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!isValid}
+              onClick={() =>
+                onExport({
+                  language,
+                  format,
+                  paragraphGap: gap,
+                  timestampInterval: withTimestamps ? interval : 0,
+                })
+              }
+            >
+              Export
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportTranscriptDialog;
@@ -0,0 +1,304 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  CaseSensitive,
+  ChevronDown,
+  ChevronUp,
+  Regex,
+  WholeWord,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  buildSearchPattern,
+  findMatches,
+  SearchLine,
+  SearchMatch,
+} from '@/lib/subtitles/search';
+
+interface FindReplaceBarProps {
+  lines: SearchLine[];
+  languages: Array<{ code: string; name: string }>;
+  sourceLanguageCode: string;
+  showReplace: boolean;
+  onShowReplaceChange: (show: boolean) => void;
+  onSelectMatch: (match: SearchMatch) => void;
+  onReplace: (
+    match: SearchMatch,
+    pattern: RegExp,
+    replacement: string,
+    regex: boolean
+  ) => void;
+  onReplaceAll: (
+    languages: string[],
+    pattern: RegExp,
+    replacement: string,
+    regex: boolean
+  ) => void;
+  onClose: () => void;
+}
+
+const ALL = '__all__';
+const CONTEXT = 30;
+
+const formatTime = (seconds: number) => {
+  const total = Math.max(0, seconds);
+  const m = Math.floor(total / 60);
+  const s = (total % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+const FindReplaceBar: React.FC<FindReplaceBarProps> = ({
+  lines,
+  languages,
+  sourceLanguageCode,
+  showReplace,
+  onShowReplaceChange,
+  onSelectMatch,
+  onReplace,
+  onReplaceAll,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [scope, setScope] = useState(ALL);
+  const [current, setCurrent] = useState(0);
+  const queryRef = useRef<HTMLInputElement>(null);
+
+  // Focus the search field whenever the bar opens or switches mode
+  useEffect(() => {
+    queryRef.current?.focus();
+    queryRef.current?.select();
+  }, [showReplace]);
+
+  const pattern = useMemo(
+    () => buildSearchPattern({ query, regex, wholeWord, caseSensitive }),
+    [query, regex, wholeWord, caseSensitive]
+  );
+  const scopeCodes = useMemo(
+    () => (scope === ALL ? languages.map((l) => l.code) : [scope]),
+    [scope, languages]
+  );
+  const matches = useMemo(
+    () =>
+      pattern instanceof RegExp
+        ? findMatches(lines, scopeCodes, sourceLanguageCode, pattern)
+        : [],
+    [lines, scopeCodes, sourceLanguageCode, pattern]
+  );
+
+  useEffect(() => {
+    setCurrent((c) => Math.min(c, Math.max(0, matches.length - 1)));
+  }, [matches.length]);
+
+  const select = (index: number) => {
+    if (matches.length === 0) return;
+    const next = (index + matches.length) % matches.length;
+    setCurrent(next);
+    onSelectMatch(matches[next]);
+  };
+
+  const nameOf = (code: string) =>
+    languages.find((l) => l.code === code)?.name || code;
+
+  const toggle = (
+    active: boolean,
+    onClick: () => void,
+    title: string,
+    icon: React.ReactNode
+  ) => (
+    <Button
+      type="button"
+      size="sm"
+      variant={active ? 'secondary' : 'ghost'}
+      className="h-8 w-8 p-0"
+      onClick={onClick}
+      title={title}
+      aria-pressed={active}
+    >
+      {icon}
+    </Button>
+  );
+
+  return (
+    <div className="border-b border-border bg-muted/20 px-4 py-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          ref={queryRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              select(e.shiftKey ? current - 1 : current + 1);
+            }
+            if (e.key === 'Escape') onClose();
+          }}
+          placeholder="Find"
+          className="h-8 flex-1 min-w-[10rem]"
+        />
+        {toggle(
+          caseSensitive,
+          () => setCaseSensitive((v) => !v),
+          'Match case',
+          <CaseSensitive className="h-4 w-4" />
+        )}
+        {toggle(
+          wholeWord,
+          () => setWholeWord((v) => !v),
+          'Whole word',
+          <WholeWord className="h-4 w-4" />
+        )}
+        {toggle(
+          regex,
+          () => setRegex((v) => !v),
+          'Regular expression',
+          <Regex className="h-4 w-4" />
+        )}
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All languages</SelectItem>
+            {languages.map((l) => (
+              <SelectItem key={l.code} value={l.code}>
+                {l.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground w-16 text-center">
+          {matches.length > 0
+            ? `${current + 1} of ${matches.length}`
+            : 'No results'}
+        </span>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 w-8 p-0"
+          disabled={matches.length === 0}
+          onClick={() => select(current - 1)}
+          title="Previous match (Shift+Enter)"
+        >
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 w-8 p-0"
+          disabled={matches.length === 0}
+          onClick={() => select(current + 1)}
+          title="Next match (Enter)"
+        >
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 w-8 p-0"
+          onClick={onClose}
+          title="Close (Esc)"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {pattern instanceof Error && (
+        <p className="text-xs text-destructive">{pattern.message}</p>
+      )}
+      {showReplace ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') onClose();
+            }}
+            placeholder={regex ? 'Replace ($1 for groups)' : 'Replace'}
+            className="h-8 flex-1 min-w-[10rem]"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            disabled={matches.length === 0 || !(pattern instanceof RegExp)}
+            onClick={() =>
+              pattern instanceof RegExp &&
+              onReplace(matches[current], pattern, replacement, regex)
+            }
+          >
+            Replace
+          </Button>
+          <Button
+            size="sm"
+            className="h-8"
+            disabled={matches.length === 0 || !(pattern instanceof RegExp)}
+            onClick={() =>
+              pattern instanceof RegExp &&
+              onReplaceAll(scopeCodes, pattern, replacement, regex)
+            }
+          >
+            Replace all
+          </Button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          className="text-xs text-muted-foreground hover:text-foreground"
+          onClick={() => onShowReplaceChange(true)}
+        >
+          Replace… (Ctrl+H)
+        </button>
+      )}
+      {matches.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto text-sm">
+          {matches.map((m, i) => {
+            const from = Math.max(0, m.index - CONTEXT);
+            const to = Math.min(m.text.length, m.index + m.length + CONTEXT);
+            return (
+              <li
+                key={`${m.lineId}:${m.language}:${m.index}`}
+                className={cn(
+                  'flex items-center gap-2 rounded-md px-2 py-1 cursor-pointer hover:bg-muted/60',
+                  i === current && 'bg-muted'
+                )}
+                onClick={() => select(i)}
+              >
+                <span className="font-mono text-xs text-muted-foreground w-14 shrink-0">
+                  {formatTime(m.time)}
+                </span>
+                <span className="text-[11px] rounded bg-muted px-1.5 py-0.5 shrink-0">
+                  {nameOf(m.language)}
+                </span>
+                <span className="flex-1 truncate">
+                  {from > 0 && '…'}
+                  {m.text.slice(from, m.index)}
+                  <mark className="rounded-sm bg-amber-300/70 text-foreground px-0.5">
+                    {m.text.slice(m.index, m.index + m.length)}
+                  </mark>
+                  {m.text.slice(m.index + m.length, to)}
+                  {to < m.text.length && '…'}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FindReplaceBar;
@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { FileDown, FileUp, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  buildGlossaryCsv,
+  mergeGlossaries,
+  parseGlossaryCsv,
+} from '@/lib/subtitles/glossary';
+import type { GlossaryEntry } from '@/types/transcription';
+
+type GlossaryScope = 'project' | 'account';
+
+interface GlossaryPanelProps {
+  projectEntries: GlossaryEntry[];
+  accountEntries: GlossaryEntry[];
+  // Target languages of the project, shown as columns
+  languages: Array<{ code: string; name: string }>;
+  onProjectChange: (entries: GlossaryEntry[]) => void;
+  onAccountChange: (entries: GlossaryEntry[]) => void;
+  onDownload: (filename: string, content: string, mime?: string) => void;
+  projectFileName: string;
+  onClose: () => void;
+}
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({
+  projectEntries,
+  accountEntries,
+  languages,
+  onProjectChange,
+  onAccountChange,
+  onDownload,
+  projectFileName,
+  onClose,
+}) => {
+  const { toast } = useToast();
+  const [scope, setScope] = useState<GlossaryScope>('project');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const entries = scope === 'project' ? projectEntries : accountEntries;
+  const onChange = scope === 'project' ? onProjectChange : onAccountChange;
+
+  // Languages from imported files show up even before they are translated
+  const columns = useMemo(() => {
+    const codes = new Set(languages.map((l) => l.code));
+    const extra = Array.from(
+      new Set(entries.flatMap((e) => Object.keys(e.targets)))
+    )
+      .filter((code) => !codes.has(code))
+      .map((code) => ({ code, name: code }));
+    return [...languages, ...extra];
+  }, [languages, entries]);
+
+  const updateEntry = (index: number, entry: GlossaryEntry) =>
+    onChange(entries.map((e, i) => (i === index ? entry : e)));
+
+  const importCsv = async (file: File) => {
+    const imported = parseGlossaryCsv(await file.text());
+    if (!imported) {
+      toast({
+        title: 'Import Failed',
+        description:
+          'Expected a "source" column followed by one column per language code.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    // Imported rows win over existing ones with the same source
+    onChange(mergeGlossaries(imported, entries));
+    toast({
+      title: 'Glossary Imported',
+      description: `${imported.length} term(s) added to the ${scope} glossary.`,
+    });
+  };
+
+  return (
+    <div className="border-b border-border bg-muted/20">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3">
+        <div className="text-sm font-medium">Glossary</div>
+        <div className="flex rounded-md border border-border p-0.5 text-xs">
+          {(['project', 'account'] as const).map((s) => (
+            <button
+              key={s}
+              type="button"
+              className={cn(
+                'rounded px-2 py-0.5 capitalize',
+                scope === s && 'bg-muted font-medium'
+              )}
+              onClick={() => setScope(s)}
+            >
+              {s === 'project' ? 'This project' : 'Account'}
+            </button>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <FileUp className="h-3.5 w-3.5 mr-1" />
+          Import CSV
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8"
+          disabled={entries.length === 0}
+          onClick={() =>
+            onDownload(
+              scope === 'project'
+                ? `${projectFileName}-glossary.csv`
+                : 'account-glossary.csv',
+              buildGlossaryCsv(entries),
+              'text/csv;charset=utf-8'
+            )
+          }
+        >
+          <FileDown className="h-3.5 w-3.5 mr-1" />
+          Export CSV
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importCsv(file);
+            e.target.value = '';
+          }}
+        />
+        <Button
+          size="sm"
+          variant="ghost"
+          className="ml-auto h-8 w-8 p-0"
+          onClick={onClose}
+          title="Close glossary"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="max-h-64 overflow-auto px-4 pb-2">
+        {entries.length === 0 ? (
+          <div className="py-2 text-xs text-muted-foreground">
+            {scope === 'project'
+              ? 'Terms here apply to this project only.'
+              : 'Terms here apply to every project; project terms take precedence.'}
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground">
+                <th className="pb-1 pr-2 font-normal">Source term</th>
+                {columns.map((l) => (
+                  <th key={l.code} className="pb-1 pr-2 font-normal">
+                    {l.name}
+                  </th>
+                ))}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry, index) => (
+                <tr key={index}>
+                  <td className="py-0.5 pr-2">
+                    <Input
+                      value={entry.source}
+                      onChange={(e) =>
+                        updateEntry(index, { ...entry, source: e.target.value })
+                      }
+                      className="h-8 min-w-[8rem] text-sm"
+                      aria-label="Source term"
+                    />
+                  </td>
+                  {columns.map((l) => (
+                    <td key={l.code} className="py-0.5 pr-2">
+                      <Input
+                        value={entry.targets[l.code] || ''}
+                        onChange={(e) =>
+                          updateEntry(index, {
+                            ...entry,
+                            targets: {
+                              ...entry.targets,
+                              [l.code]: e.target.value,
+                            },
+                          })
+                        }
+                        className="h-8 min-w-[8rem] text-sm"
+                        aria-label={`${l.name} term`}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-0.5">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() =>
+                        onChange(entries.filter((_, i) => i !== index))
+                      }
+                      title="Remove term"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      <div className="px-4 pb-3">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onChange([...entries, { source: '', targets: {} }])}
+        >
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Add term
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryPanel;
@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Circle, CircleDot, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  HISTORY_LIMIT,
+  HistoryEntry,
+  HistoryLine,
+} from '@/lib/line-history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<HistoryLine>[];
+  // Number of entries applied; 0 is the state before the oldest entry
+  index: number;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  index,
+  onJump,
+  onClose,
+}) => {
+  const currentRef = useRef<HTMLLIElement>(null);
+
+  // Keep the current step in view as it moves
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [index, entries.length]);
+
+  // Once the limit is reached, the oldest steps may have been dropped and
+  // the first row is no longer the state the editor opened with
+  const rows = [
+    {
+      label: entries.length >= HISTORY_LIMIT ? 'Oldest kept step' : 'Opened',
+      timestamp: null as number | null,
+    },
+    ...entries.map((e) => ({ label: e.label, timestamp: e.timestamp })),
+  ];
+
+  return (
+    <div className="border-b border-border bg-muted/20">
+      <div className="flex items-center gap-2 px-4 py-3">
+        <div className="text-sm font-medium">History</div>
+        <div className="text-xs text-muted-foreground">
+          {entries.length === 0
+            ? 'No changes yet'
+            : `${index} of ${entries.length} step(s) applied`}
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="ml-auto h-8 w-8 p-0"
+          onClick={onClose}
+          title="Close history"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <ul className="max-h-56 overflow-y-auto px-2 pb-2 text-sm">
+        {rows.map((row, i) => {
+          const isCurrent = i === index;
+          return (
+            <li
+              key={i}
+              ref={isCurrent ? currentRef : undefined}
+              className={cn(
+                'flex items-center gap-2 rounded-md px-2 py-1.5 cursor-pointer hover:bg-muted/60',
+                isCurrent && 'bg-muted font-medium',
+                // Steps past the current one can still be redone
+                i > index && 'text-muted-foreground'
+              )}
+              onClick={() => onJump(i)}
+              title={isCurrent ? 'Current state' : 'Jump to this point'}
+            >
+              {isCurrent ? (
+                <CircleDot className="h-4 w-4 shrink-0 text-amber-500" />
+              ) : (
+                <Circle className="h-4 w-4 shrink-0 text-muted-foreground" />
+              )}
+              <span className={cn('flex-1 truncate', i > index && 'italic')}>
+                {row.label}
+              </span>
+              {row.timestamp !== null && (
+                <span className="font-mono text-xs text-muted-foreground shrink-0">
+                  {formatClock(row.timestamp)}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { parseSubtitleFile, ParsedCue } from '@/lib/subtitles/parse';
+import {
+  matchCuesToLines,
+  CueMatchResult,
+  TimedLine,
+} from '@/lib/subtitles/match';
+
+interface ImportSubtitlesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  languageName?: string;
+  lines: TimedLine[];
+  onApply: (textByLineId: Record<number, string>) => void;
+}
+
+interface ImportReport extends CueMatchResult {
+  fileName: string;
+  format: string;
+  totalCues: number;
+}
+
+const formatTimestamp = (seconds: number): string => {
+  const totalSeconds = Math.max(0, seconds);
+  const minutes = Math.floor(totalSeconds / 60)
+    .toString()
+    .padStart(2, '0');
+  const secsInt = Math.floor(totalSeconds % 60)
+    .toString()
+    .padStart(2, '0');
+  const millis = Math.floor((totalSeconds - Math.floor(totalSeconds)) * 1000)
+    .toString()
+    .padStart(3, '0');
+  return `${minutes}:${secsInt}.${millis}`;
+};
+
+const ImportSubtitlesDialog: React.FC<ImportSubtitlesDialogProps> = ({
+  open,
+  onOpenChange,
+  languageName,
+  lines,
+  onApply,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setReport(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const content = await file.text();
+      const { format, cues } = parseSubtitleFile(file.name, content);
+      if (cues.length === 0) {
+        throw new Error('No subtitle cues were found in this file.');
+      }
+      setReport({
+        fileName: file.name,
+        format: format.toUpperCase(),
+        totalCues: cues.length,
+        ...matchCuesToLines(cues, lines),
+      });
+      setError(null);
+    } catch (err) {
+      setReport(null);
+      setError((err as Error).message || 'Failed to read subtitle file.');
+    }
+  };
+
+  const renderCue = (cue: ParsedCue, idx: number) => (
+    <div
+      key={`${cue.start}-${idx}`}
+      className="flex gap-3 text-xs py-1 border-b border-border last:border-0"
+    >
+      <span className="text-muted-foreground whitespace-nowrap">
+        {formatTimestamp(cue.start)} – {formatTimestamp(cue.end)}
+      </span>
+      <span className="break-words">{cue.text}</span>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import subtitles</DialogTitle>
+          <DialogDescription>
+            Import an SRT, VTT or ASS file as the{' '}
+            {languageName || 'selected language'} translation. Cues are matched
+            to existing lines by time overlap.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".srt,.vtt,.ass,.ssa"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FileUp className="h-4 w-4 mr-2" />
+            {report ? report.fileName : 'Choose subtitle file'}
+          </Button>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {report && (
+            <div className="space-y-3 text-sm">
+              <p>
+                {report.format}: matched {report.matchedCount} of{' '}
+                {report.totalCues} cues to{' '}
+                {Object.keys(report.textByLineId).length} of {lines.length}{' '}
+                lines.
+              </p>
+              {report.unmatched.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-warning-500 font-medium">
+                    <AlertTriangle className="h-4 w-4" />
+                    {report.unmatched.length} cue
+                    {report.unmatched.length === 1 ? '' : 's'} could not be
+                    matched
+                  </div>
+                  <div className="max-h-48 overflow-y-auto rounded-md border px-3">
+                    {report.unmatched.map(renderCue)}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => report && onApply(report.textByLineId)}
+              disabled={!report || report.matchedCount === 0}
+            >
+              Import
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportSubtitlesDialog;
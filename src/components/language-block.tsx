@@ -2,7 +2,7 @@
 
 import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { RefreshCcw } from 'lucide-react';
+import { Check, RefreshCcw } from 'lucide-react';
 
 export interface LanguageBlockProps {
   label: string;
@@ -11,6 +11,9 @@ export interface LanguageBlockProps {
   dataKey?: string;
   onRetranslate?: () => void;
   retranslating?: boolean;
+  // Set after a split divided this translation automatically
+  needsReview?: boolean;
+  onMarkReviewed?: () => void;
 }
 
 const LanguageBlock: React.FC<LanguageBlockProps> = ({
@@ -20,6 +23,8 @@ const LanguageBlock: React.FC<LanguageBlockProps> = ({
   dataKey,
   onRetranslate,
   retranslating,
+  needsReview,
+  onMarkReviewed,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [value, setValue] = useState(text);
@@ -60,6 +65,43 @@ const LanguageBlock: React.FC<LanguageBlockProps> = ({
           </Button>
         )}
       </div>
+      {needsReview && (
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-1 rounded-md bg-amber-500/10 px-2 py-1 text-[11px] text-amber-700 dark:text-amber-400">
+          <span>Divided by a split, check it matches the source</span>
+          <div className="flex items-center gap-1">
+            {onRetranslate && (
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-[11px]"
+                disabled={!!retranslating}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRetranslate();
+                }}
+              >
+                Retranslate
+              </Button>
+            )}
+            {onMarkReviewed && (
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-[11px]"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMarkReviewed();
+                }}
+              >
+                <Check className="h-3 w-3 mr-1" />
+                Keep
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
       {onCommit ? (
         isEditing ? (
           <textarea
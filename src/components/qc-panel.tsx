@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, Wand2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { QcIssue } from '@/lib/subtitles/qc';
+
+interface QcPanelProps {
+  issues: QcIssue[];
+  languages: Array<{ code: string; name: string }>;
+  // Line number shown next to each issue, by line id
+  lineNumbers: Record<number, number>;
+  onSelectIssue: (issue: QcIssue) => void;
+  onFix: (issues: QcIssue[]) => void;
+  onClose: () => void;
+}
+
+const ALL = '__all__';
+
+const formatTime = (seconds: number) => {
+  const total = Math.max(0, seconds);
+  const m = Math.floor(total / 60);
+  const s = (total % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+const QcPanel: React.FC<QcPanelProps> = ({
+  issues,
+  languages,
+  lineNumbers,
+  onSelectIssue,
+  onFix,
+  onClose,
+}) => {
+  const [language, setLanguage] = useState(ALL);
+
+  // Timing issues apply to every language, so they stay in each filter
+  const visible = useMemo(
+    () =>
+      issues.filter(
+        (i) => language === ALL || !i.language || i.language === language
+      ),
+    [issues, language]
+  );
+  const fixable = visible.filter((i) => i.fix);
+  const errorCount = visible.filter((i) => i.severity === 'error').length;
+  const nameOf = (code: string) =>
+    languages.find((l) => l.code === code)?.name || code;
+
+  return (
+    <div className="border-b border-border bg-muted/20">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3">
+        <div className="text-sm font-medium">Quality check</div>
+        <div className="text-xs text-muted-foreground">
+          {visible.length === 0
+            ? 'No issues'
+            : `${errorCount} error(s), ${
+                visible.length - errorCount
+              } warning(s)`}
+        </div>
+        <div className="ml-auto flex items-center gap-2">
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All languages</SelectItem>
+              {languages.map((l) => (
+                <SelectItem key={l.code} value={l.code}>
+                  {l.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            disabled={fixable.length === 0}
+            onClick={() => onFix(fixable)}
+            title="Apply every available fix as one undo step"
+          >
+            <Wand2 className="h-4 w-4 mr-1" />
+            Fix all ({fixable.length})
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0"
+            onClick={onClose}
+            title="Close quality check"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {visible.length > 0 && (
+        <ul className="max-h-56 overflow-y-auto px-2 pb-2 text-sm">
+          {visible.map((issue) => (
+            <li
+              key={issue.id}
+              className="flex items-center gap-2 rounded-md px-2 py-1.5 cursor-pointer hover:bg-muted/60"
+              onClick={() => onSelectIssue(issue)}
+            >
+              {issue.severity === 'error' ? (
+                <AlertCircle className="h-4 w-4 shrink-0 text-destructive" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+              )}
+              <span className="font-mono text-xs text-muted-foreground w-14 shrink-0">
+                {formatTime(issue.time)}
+              </span>
+              <span className="text-xs text-muted-foreground w-10 shrink-0">
+                #{lineNumbers[issue.lineId] ?? '?'}
+              </span>
+              {issue.language && (
+                <span className="text-[11px] rounded bg-muted px-1.5 py-0.5 shrink-0">
+                  {nameOf(issue.language)}
+                </span>
+              )}
+              <span
+                className={cn(
+                  'flex-1 truncate',
+                  issue.severity === 'error' && 'text-destructive'
+                )}
+                title={issue.message}
+              >
+                {issue.message}
+              </span>
+              {issue.fix && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2 text-xs shrink-0"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onFix([issue]);
+                  }}
+                >
+                  {issue.fix.label}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default QcPanel;
@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { DiffLine } from '@/lib/line-diff';
+import type { LineConflict, MergeSide } from '@/lib/line-merge';
+import { speakerName } from '@/lib/subtitles/speakers';
+import type { SpeakerInfo } from '@/types/transcription';
+
+interface SaveConflictDialogProps {
+  open: boolean;
+  conflicts: LineConflict<DiffLine>[];
+  // Names for speaker ids shown on lines whose speaker differs
+  speakers?: Record<string, SpeakerInfo>;
+  onResolve: (choices: Record<number, MergeSide>) => void;
+  onCancel: () => void;
+}
+
+const formatTimestamp = (seconds: number): string => {
+  const totalSeconds = Math.max(0, seconds);
+  const minutes = Math.floor(totalSeconds / 60)
+    .toString()
+    .padStart(2, '0');
+  const secs = (totalSeconds % 60).toFixed(2).padStart(5, '0');
+  return `${minutes}:${secs}`;
+};
+
+const pickEach = (
+  conflicts: LineConflict<DiffLine>[],
+  pick: (conflict: LineConflict<DiffLine>) => MergeSide
+) => {
+  const choices: Record<number, MergeSide> = {};
+  for (const c of conflicts) choices[c.id] = pick(c);
+  return choices;
+};
+
+const SaveConflictDialog: React.FC<SaveConflictDialogProps> = ({
+  open,
+  conflicts,
+  speakers = {},
+  onResolve,
+  onCancel,
+}) => {
+  const [choices, setChoices] = useState<Record<number, MergeSide>>({});
+
+  // Start from the suggested side of each line
+  useEffect(() => {
+    if (open) setChoices(pickEach(conflicts, (c) => c.suggested));
+  }, [open, conflicts]);
+
+  const pickAll = (side: MergeSide) =>
+    setChoices(pickEach(conflicts, () => side));
+
+  const renderVersion = (
+    conflict: LineConflict<DiffLine>,
+    side: MergeSide
+  ) => {
+    const line = conflict[side];
+    const other = conflict[side === 'local' ? 'remote' : 'local'];
+    const selected = choices[conflict.id] === side;
+    const translations = Object.entries(line?.translations || {}).filter(
+      ([code, text]) => (other?.translations?.[code] || '') !== (text || '')
+    );
+    const speakerChanged =
+      !!line && !!other && (line.speaker || '') !== (other.speaker || '');
+    return (
+      <button
+        type="button"
+        onClick={() => setChoices((prev) => ({ ...prev, [conflict.id]: side }))}
+        className={cn(
+          'flex-1 min-w-0 rounded-md border px-3 py-2 text-left text-xs space-y-1',
+          selected
+            ? 'border-primary bg-primary/5 ring-1 ring-primary'
+            : 'border-border hover:bg-muted/60'
+        )}
+      >
+        <div className="font-medium text-muted-foreground">
+          {side === 'local' ? 'This tab' : 'Saved elsewhere'}
+        </div>
+        {line ? (
+          <>
+            <div className="font-mono text-muted-foreground">
+              {formatTimestamp(line.start)} – {formatTimestamp(line.end)}
+            </div>
+            <div className="break-words text-sm">{line.text || '—'}</div>
+            {speakerChanged && (
+              <div>
+                <span className="rounded bg-muted px-1 mr-1">Speaker</span>
+                {speakerName(speakers, line.speaker) || 'None'}
+              </div>
+            )}
+            {translations.map(([code, text]) => (
+              <div key={code} className="break-words">
+                <span className="rounded bg-muted px-1 mr-1">{code}</span>
+                {text || '—'}
+              </div>
+            ))}
+          </>
+        ) : (
+          <div className="italic text-muted-foreground">Line deleted</div>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Resolve save conflict
+          </DialogTitle>
+          <DialogDescription>
+            This transcription was saved from another tab or device since you
+            opened it. Pick which version to keep for each of the{' '}
+            {conflicts.length} differing line(s); everything else is merged
+            automatically.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => pickAll('local')}>
+            Keep all mine
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => pickAll('remote')}
+          >
+            Keep all theirs
+          </Button>
+        </div>
+        <div className="max-h-[50vh] overflow-y-auto space-y-2 pr-1">
+          {conflicts.map((c) => (
+            <div key={c.id} className="flex gap-2">
+              {renderVersion(c, 'local')}
+              {renderVersion(c, 'remote')}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onResolve(choices)}>Merge and save</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveConflictDialog;
@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Combine,
+  Copy,
+  FileDown,
+  MoveHorizontal,
+  RefreshCcw,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface SelectionBarProps {
+  count: number;
+  languages: Array<{ code: string; name: string }>;
+  sourceLanguageCode: string;
+  retranslating: boolean;
+  onDelete: () => void;
+  onMerge: () => void;
+  onShift: (ms: number) => void;
+  onRetranslate: (lang: string) => void;
+  onCopy: () => void;
+  onExportSrt: (lang: string) => void;
+  onClear: () => void;
+}
+
+const SelectionBar: React.FC<SelectionBarProps> = ({
+  count,
+  languages,
+  sourceLanguageCode,
+  retranslating,
+  onDelete,
+  onMerge,
+  onShift,
+  onRetranslate,
+  onCopy,
+  onExportSrt,
+  onClear,
+}) => {
+  const [shiftMs, setShiftMs] = useState('100');
+  const [language, setLanguage] = useState(sourceLanguageCode);
+
+  const targets = useMemo(
+    () => languages.filter((l) => l.code !== sourceLanguageCode),
+    [languages, sourceLanguageCode]
+  );
+  const [target, setTarget] = useState(targets[0]?.code || '');
+
+  useEffect(() => {
+    if (!languages.some((l) => l.code === language)) {
+      setLanguage(languages[0]?.code || '');
+    }
+    if (!targets.some((l) => l.code === target)) {
+      setTarget(targets[0]?.code || '');
+    }
+  }, [languages, targets, language, target]);
+
+  const ms = Number(shiftMs);
+  const validShift = shiftMs.trim() !== '' && Number.isFinite(ms) && ms !== 0;
+
+  return (
+    <div className="border-b border-border bg-sky-500/5">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 text-xs">
+        <div className="text-sm font-medium">{count} selected</div>
+        <Button size="sm" variant="outline" onClick={onCopy} title="Ctrl/Cmd+C">
+          <Copy className="h-3.5 w-3.5 mr-1" />
+          Copy
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onMerge}
+          disabled={count < 2}
+        >
+          <Combine className="h-3.5 w-3.5 mr-1" />
+          Merge
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onDelete}
+          title="Delete"
+          className="text-destructive"
+        >
+          <Trash2 className="h-3.5 w-3.5 mr-1" />
+          Delete
+        </Button>
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            step={100}
+            value={shiftMs}
+            onChange={(e) => setShiftMs(e.target.value)}
+            className="h-8 w-24 text-xs"
+            aria-label="Shift by milliseconds"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!validShift}
+            onClick={() => onShift(ms)}
+          >
+            <MoveHorizontal className="h-3.5 w-3.5 mr-1" />
+            Shift ms
+          </Button>
+        </div>
+        {targets.length > 0 && (
+          <div className="flex items-center gap-1">
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger className="h-8 w-32 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map((l) => (
+                  <SelectItem key={l.code} value={l.code}>
+                    {l.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!target || retranslating}
+              onClick={() => onRetranslate(target)}
+            >
+              <RefreshCcw
+                className={
+                  'h-3.5 w-3.5 mr-1 ' + (retranslating ? 'animate-spin' : '')
+                }
+              />
+              Retranslate
+            </Button>
+          </div>
+        )}
+        <div className="flex items-center gap-1">
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {languages.map((l) => (
+                <SelectItem key={l.code} value={l.code}>
+                  {l.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!language}
+            onClick={() => onExportSrt(language)}
+          >
+            <FileDown className="h-3.5 w-3.5 mr-1" />
+            SRT
+          </Button>
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="ml-auto h-7 w-7"
+          onClick={onClear}
+          title="Clear selection (Esc)"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SelectionBar;
@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { SpeakerInfo } from '@/types/transcription';
+
+interface SpeakerPanelProps {
+  speakers: Record<string, SpeakerInfo>;
+  // Number of lines assigned to each speaker id
+  lineCounts: Record<string, number>;
+  onChange: (id: string, info: SpeakerInfo) => void;
+  onAdd: () => void;
+  onClose: () => void;
+}
+
+const SpeakerRow: React.FC<{
+  id: string;
+  speaker: SpeakerInfo;
+  count: number;
+  onChange: (id: string, info: SpeakerInfo) => void;
+}> = ({ id, speaker, count, onChange }) => {
+  const [name, setName] = useState(speaker.name);
+
+  useEffect(() => setName(speaker.name), [speaker.name]);
+
+  const commitName = () => {
+    const next = name.trim();
+    if (!next) {
+      setName(speaker.name);
+      return;
+    }
+    if (next !== speaker.name) onChange(id, { ...speaker, name: next });
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+      <input
+        type="color"
+        value={speaker.color}
+        onChange={(e) => onChange(id, { ...speaker, color: e.target.value })}
+        className="h-8 w-8 shrink-0 cursor-pointer rounded border border-border bg-transparent p-0.5"
+        aria-label={`Colour for ${speaker.name}`}
+      />
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+          if (e.key === 'Escape') setName(speaker.name);
+        }}
+        className="h-8 text-sm"
+        aria-label={`Name for ${id}`}
+      />
+      <div className="w-16 shrink-0 text-right text-xs text-muted-foreground">
+        {count} line{count === 1 ? '' : 's'}
+      </div>
+    </li>
+  );
+};
+
+const SpeakerPanel: React.FC<SpeakerPanelProps> = ({
+  speakers,
+  lineCounts,
+  onChange,
+  onAdd,
+  onClose,
+}) => {
+  const entries = Object.entries(speakers);
+
+  return (
+    <div className="border-b border-border bg-muted/20">
+      <div className="flex items-center gap-2 px-4 py-3">
+        <div className="text-sm font-medium">Speakers</div>
+        <div className="text-xs text-muted-foreground">
+          {entries.length === 0
+            ? 'No speakers yet'
+            : 'Names are used in exports, colours on the video'}
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="ml-auto h-8 w-8 p-0"
+          onClick={onClose}
+          title="Close speakers"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <ul className="max-h-56 space-y-2 overflow-y-auto px-4 pb-2">
+        {entries.map(([id, speaker]) => (
+          <SpeakerRow
+            key={id}
+            id={id}
+            speaker={speaker}
+            count={lineCounts[id] || 0}
+            onChange={onChange}
+          />
+        ))}
+      </ul>
+      <div className="px-4 pb-3">
+        <Button size="sm" variant="outline" onClick={onAdd}>
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Add speaker
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SpeakerPanel;
@@ -0,0 +1,347 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { formatShift } from '@/lib/line-history';
+import { formatVttTime, parseTimestamp } from '@/lib/subtitles/time';
+import {
+  applyTransform,
+  FPS_PRESETS,
+  fpsTransform,
+  offsetTransform,
+  stretchTransform,
+  SyncTransform,
+} from '@/lib/subtitles/sync';
+
+type SyncMode = 'offset' | 'stretch' | 'fps';
+
+interface SyncDialogLine {
+  id: number;
+  start: number;
+  text: string;
+}
+
+interface SyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lines: SyncDialogLine[];
+  // `ids` is undefined when the whole file is synced
+  onApply: (
+    transform: SyncTransform,
+    ids: Set<number> | undefined,
+    label: string
+  ) => void;
+}
+
+// Plain seconds ("83.5") or a timestamp ("01:23.500", "00:01:23,500")
+const parseTime = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  return parseTimestamp(trimmed);
+};
+
+// 1-based line number to an index in `lines`, or null when out of range
+const lineIndex = (value: string, count: number): number | null => {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 1 && n <= count ? n - 1 : null;
+};
+
+// Label for the history panel, e.g. "Shift all lines +1.2s"
+const describeSync = (
+  mode: SyncMode,
+  transform: SyncTransform,
+  scope: string,
+  fpsLabel = ''
+): string => {
+  if (mode === 'offset') {
+    return `Shift ${scope} ${formatShift(transform.offset)}`;
+  }
+  if (mode === 'stretch') {
+    return `Stretch ${scope} ×${transform.scale.toFixed(4)}`;
+  }
+  // Drop the "(PAL speed-up)" note from the preset label
+  return `Convert ${scope} ${fpsLabel.split(' (')[0]} fps`;
+};
+
+const SyncDialog: React.FC<SyncDialogProps> = ({
+  open,
+  onOpenChange,
+  lines,
+  onApply,
+}) => {
+  const [mode, setMode] = useState<SyncMode>('offset');
+  const [offset, setOffset] = useState('0');
+  const [firstLine, setFirstLine] = useState('1');
+  const [firstTime, setFirstTime] = useState('');
+  const [secondLine, setSecondLine] = useState('1');
+  const [secondTime, setSecondTime] = useState('');
+  const [fpsPreset, setFpsPreset] = useState('0');
+  const [limitRange, setLimitRange] = useState(false);
+  const [rangeFrom, setRangeFrom] = useState('1');
+  const [rangeTo, setRangeTo] = useState('1');
+
+  const linesRef = useRef(lines);
+  linesRef.current = lines;
+
+  // Anchor the first and last lines by default, once per opening
+  useEffect(() => {
+    if (!open) return;
+    const lines = linesRef.current;
+    const last = Math.max(1, lines.length);
+    setOffset('0');
+    setFirstLine('1');
+    setFirstTime(lines[0] ? formatVttTime(lines[0].start) : '');
+    setSecondLine(String(last));
+    setSecondTime(
+      lines[last - 1] ? formatVttTime(lines[last - 1].start) : ''
+    );
+    setRangeFrom('1');
+    setRangeTo(String(last));
+  }, [open]);
+
+  const firstIdx = lineIndex(firstLine, lines.length);
+  const secondIdx = lineIndex(secondLine, lines.length);
+  const fromIdx = lineIndex(rangeFrom, lines.length);
+  const toIdx = lineIndex(rangeTo, lines.length);
+  const rangeValid =
+    !limitRange || (fromIdx !== null && toIdx !== null && fromIdx <= toIdx);
+
+  const transform = useMemo<SyncTransform | null>(() => {
+    if (mode === 'offset') {
+      const seconds = Number(offset);
+      return offset.trim() && Number.isFinite(seconds)
+        ? offsetTransform(seconds)
+        : null;
+    }
+    if (mode === 'fps') {
+      const preset = FPS_PRESETS[Number(fpsPreset)];
+      return preset ? fpsTransform(preset.from, preset.to) : null;
+    }
+    const firstTo = parseTime(firstTime);
+    const secondTo = parseTime(secondTime);
+    if (firstIdx === null || secondIdx === null) return null;
+    if (firstTo === null || secondTo === null) return null;
+    return stretchTransform(
+      { from: lines[firstIdx].start, to: firstTo },
+      { from: lines[secondIdx].start, to: secondTo }
+    );
+  }, [
+    mode,
+    offset,
+    fpsPreset,
+    firstIdx,
+    secondIdx,
+    firstTime,
+    secondTime,
+    lines,
+  ]);
+
+  const preview =
+    transform && lines.length > 0
+      ? lines[limitRange && fromIdx !== null ? fromIdx : 0]
+      : null;
+
+  const apply = () => {
+    if (!transform || !rangeValid) return;
+    const inRange = limitRange && fromIdx !== null && toIdx !== null;
+    const ids = inRange
+      ? new Set(lines.slice(fromIdx, toIdx + 1).map((l) => l.id))
+      : undefined;
+    const scope = inRange ? `lines ${rangeFrom}–${rangeTo}` : 'all lines';
+    const fpsLabel = FPS_PRESETS[Number(fpsPreset)]?.label;
+    onApply(transform, ids, describeSync(mode, transform, scope, fpsLabel));
+  };
+
+  const renderAnchor = (
+    key: string,
+    line: string,
+    setLine: (value: string) => void,
+    time: string,
+    setTime: (value: string) => void,
+    idx: number | null
+  ) => (
+    <div className="grid grid-cols-3 gap-3">
+      <div className="space-y-2">
+        <Label htmlFor={`sync-${key}-line`}>Line #</Label>
+        <Input
+          id={`sync-${key}-line`}
+          type="number"
+          min={1}
+          max={lines.length}
+          value={line}
+          onChange={(e) => setLine(e.target.value)}
+        />
+      </div>
+      <div className="col-span-2 space-y-2">
+        <Label htmlFor={`sync-${key}-time`}>
+          New start
+          {idx !== null && (
+            <span className="ml-1 font-normal text-muted-foreground">
+              (now {formatVttTime(lines[idx].start)})
+            </span>
+          )}
+        </Label>
+        <Input
+          id={`sync-${key}-time`}
+          placeholder="00:01:23.500"
+          value={time}
+          onChange={(e) => setTime(e.target.value)}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Sync timings</DialogTitle>
+          <DialogDescription>
+            Move, stretch or convert the timing of every line and word in one
+            step. Undo reverts the whole change.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs value={mode} onValueChange={(v) => setMode(v as SyncMode)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="offset">Offset</TabsTrigger>
+            <TabsTrigger value="stretch">Two-point</TabsTrigger>
+            <TabsTrigger value="fps">Frame rate</TabsTrigger>
+          </TabsList>
+          <TabsContent value="offset" className="space-y-2 pt-2">
+            <Label htmlFor="sync-offset">
+              Offset in seconds (negative moves earlier)
+            </Label>
+            <Input
+              id="sync-offset"
+              type="number"
+              step={0.1}
+              value={offset}
+              onChange={(e) => setOffset(e.target.value)}
+            />
+          </TabsContent>
+          <TabsContent value="stretch" className="space-y-3 pt-2">
+            <p className="text-sm text-muted-foreground">
+              Pick two lines and the times they should start at. Everything
+              in between is stretched linearly.
+            </p>
+            {renderAnchor(
+              'first',
+              firstLine,
+              setFirstLine,
+              firstTime,
+              setFirstTime,
+              firstIdx
+            )}
+            {renderAnchor(
+              'second',
+              secondLine,
+              setSecondLine,
+              secondTime,
+              setSecondTime,
+              secondIdx
+            )}
+          </TabsContent>
+          <TabsContent value="fps" className="space-y-2 pt-2">
+            <Label>Conversion</Label>
+            <Select value={fpsPreset} onValueChange={setFpsPreset}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FPS_PRESETS.map((preset, i) => (
+                  <SelectItem key={preset.label} value={String(i)}>
+                    {preset.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </TabsContent>
+        </Tabs>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="sync-limit-range">Only a range of lines</Label>
+            <Switch
+              id="sync-limit-range"
+              checked={limitRange}
+              onCheckedChange={setLimitRange}
+            />
+          </div>
+          {limitRange && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="sync-range-from">From line</Label>
+                <Input
+                  id="sync-range-from"
+                  type="number"
+                  min={1}
+                  max={lines.length}
+                  value={rangeFrom}
+                  onChange={(e) => setRangeFrom(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sync-range-to">To line</Label>
+                <Input
+                  id="sync-range-to"
+                  type="number"
+                  min={1}
+                  max={lines.length}
+                  value={rangeTo}
+                  onChange={(e) => setRangeTo(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          {!transform && (
+            <p className="text-sm text-destructive">
+              {mode === 'stretch'
+                ? 'Pick two different lines and valid start times'
+                : 'Enter a number of seconds'}
+            </p>
+          )}
+          {!rangeValid && (
+            <p className="text-sm text-destructive">
+              Enter a range between 1 and {lines.length}
+            </p>
+          )}
+          {preview && transform && (
+            <p className="text-sm text-muted-foreground">
+              “{preview.text.slice(0, 40) || '—'}” moves from{' '}
+              {formatVttTime(preview.start)} to{' '}
+              {formatVttTime(applyTransform(preview.start, transform))}
+            </p>
+          )}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!transform || !rangeValid} onClick={apply}>
+            Apply
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncDialog;
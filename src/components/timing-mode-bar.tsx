@@ -0,0 +1,97 @@
+'use client';
+
+import React from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { formatVttTime } from '@/lib/subtitles/time';
+
+interface TimingModeBarProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  // Negative while rewinding, 0 when stopped
+  shuttle: number;
+  // Line receiving in- and out-points
+  line?: { position: number; start: number; end: number; text: string };
+  className?: string;
+}
+
+const KEYS = [
+  ['J', 'Rewind, again for faster'],
+  ['K', 'Pause'],
+  ['L', 'Play, again for faster'],
+  ['I', 'In-point at playhead'],
+  ['O', 'Out-point, then next line'],
+  ['S', 'Split at playhead'],
+  ['↑ ↓', 'Previous / next line'],
+  ['Esc', 'Leave timing mode'],
+];
+
+const describeShuttle = (shuttle: number) =>
+  shuttle === 0
+    ? 'Stopped'
+    : shuttle < 0
+    ? `Rewind ${-shuttle}×`
+    : `Play ${shuttle}×`;
+
+const TimingModeBar: React.FC<TimingModeBarProps> = ({
+  enabled,
+  onEnabledChange,
+  shuttle,
+  line,
+  className,
+}) => (
+  <div className={cn('rounded-lg border bg-card shadow-sm', className)}>
+    <div className="flex items-center gap-2 px-3 py-2 text-sm">
+      <Keyboard className="h-4 w-4 text-muted-foreground" />
+      <span className="font-medium">Keyboard timing</span>
+      {enabled && (
+        <span className="text-xs text-muted-foreground">
+          {describeShuttle(shuttle)}
+        </span>
+      )}
+      <Button
+        size="sm"
+        variant={enabled ? 'secondary' : 'outline'}
+        className="ml-auto h-7"
+        onClick={() => onEnabledChange(!enabled)}
+      >
+        {enabled ? (
+          <>
+            <X className="h-3.5 w-3.5 mr-1" />
+            Exit
+          </>
+        ) : (
+          'Start'
+        )}
+      </Button>
+    </div>
+    {enabled && (
+      <div className="space-y-2 border-t px-3 py-2">
+        {line ? (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="shrink-0 font-medium">Line {line.position}</span>
+            <span className="shrink-0 font-mono text-xs text-muted-foreground">
+              {formatVttTime(line.start)} → {formatVttTime(line.end)}
+            </span>
+            <span className="truncate">{line.text}</span>
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">No lines yet</div>
+        )}
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {KEYS.map(([key, action]) => (
+            <div key={key} className="flex items-center gap-2">
+              <kbd className="min-w-[2rem] rounded border bg-muted px-1 text-center font-mono text-[11px] text-foreground">
+                {key}
+              </kbd>
+              {action}
+            </div>
+          ))}
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export default TimingModeBar;
@@ -32,11 +32,24 @@ import {
   Undo2,
   Redo2,
   Target,
+  ListChecks,
+  History,
+  Timer,
+  Users,
+  BookA,
 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import { SettingsContent } from './settings-content';
 import AddLineDialog, { PendingNewLine } from './add-line-dialog';
+import QcPanel from './qc-panel';
+import FindReplaceBar from './find-replace-bar';
+import HistoryPanel from './history-panel';
+import SyncDialog from './sync-dialog';
+import SelectionBar from './selection-bar';
+import SpeakerPanel from './speaker-panel';
+import SaveConflictDialog from './save-conflict-dialog';
+import GlossaryPanel from './glossary-panel';
 import { useVideoSettingsStore } from '@/lib/store/video-settings';
 import {
   DropdownMenu,
@@ -45,6 +58,107 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui';
 import JSZip from 'jszip';
+import { buildSrt } from '@/lib/subtitles/srt';
+import { buildVtt } from '@/lib/subtitles/vtt';
+import { buildAssDocument } from '@/lib/subtitles/ass';
+import { buildTtmlDocument } from '@/lib/subtitles/ttml';
+import {
+  buildStl,
+  StlFrameRate,
+  validateStlCues,
+} from '@/lib/subtitles/stl';
+import {
+  buildScc,
+  findUnsupportedSccChars,
+  validateSccCues,
+} from '@/lib/subtitles/scc';
+import {
+  buildKaraokeAssText,
+  buildKaraokeVtt,
+  KaraokeCue,
+} from '@/lib/subtitles/karaoke';
+import {
+  estimateWordTimings,
+  updateWordTimings,
+} from '@/lib/subtitles/segments';
+import {
+  applySync,
+  offsetTransform,
+  SyncTransform,
+} from '@/lib/subtitles/sync';
+import {
+  clearReview,
+  mergeLinePair,
+  splitLineAtWord,
+} from '@/lib/subtitles/restructure';
+import {
+  deleteSelected,
+  isContiguousSelection,
+  mergeSelected,
+  parseCopiedLines,
+  pasteLines,
+  selectRange,
+  serializeLines,
+} from '@/lib/line-batch';
+import {
+  mergeSpeakers,
+  newSpeaker,
+  resolveSpeakers,
+  speakerName,
+} from '@/lib/subtitles/speakers';
+import {
+  glossaryForLanguage,
+  mergeGlossaries,
+} from '@/lib/subtitles/glossary';
+import { useAccountGlossary } from '@/lib/store/glossary';
+import type { GlossaryEntry, SpeakerInfo } from '@/types/transcription';
+import { buildFcpxml, buildPremiereXml } from '@/lib/subtitles/nle';
+import { buildSbv } from '@/lib/subtitles/sbv';
+import { buildSami } from '@/lib/subtitles/sami';
+import { buildLrc } from '@/lib/subtitles/lrc';
+import { replaceText, SearchMatch } from '@/lib/subtitles/search';
+import {
+  createHistoryEntry,
+  emptyHistory,
+  formatShift,
+  HistoryEntry,
+  HistoryLabel,
+  HistoryState,
+  linePosition,
+  pushHistory,
+  travelHistory,
+} from '@/lib/line-history';
+import {
+  findLineConflicts,
+  LineConflict,
+  MergeSide,
+  mergeLineVersions,
+} from '@/lib/line-merge';
+import {
+  DeliveryProfileId,
+  findDeliveryProfile,
+  wrapForProfile,
+} from '@/lib/subtitles/profiles';
+import {
+  applyQcFixes,
+  DEFAULT_QC_THRESHOLDS,
+  QcIssue,
+  runQcChecks,
+} from '@/lib/subtitles/qc';
+import {
+  BilingualFormat,
+  buildBilingualAss,
+  buildBilingualSrt,
+  buildBilingualVtt,
+} from '@/lib/subtitles/bilingual';
+import {
+  buildTranscriptDocx,
+  buildTranscriptHtml,
+  buildTranscriptParagraphs,
+  buildTranscriptPdf,
+  TranscriptFormat,
+  TranscriptOptions,
+} from '@/lib/subtitles/transcript';
 
 interface TranscriptionJsonWord {
   word: string;
@@ -60,10 +174,22 @@ interface TranscriptionJsonSegment {
   words: TranscriptionJsonWord[];
   translations?: Record<string, string>;
   pending?: Record<string, boolean>;
+  review?: Record<string, boolean>;
+  speaker?: string;
 }
 
 interface TranscriptionJson {
   segments: TranscriptionJsonSegment[];
+  speakers?: Record<string, SpeakerInfo>;
+  glossary?: GlossaryEntry[];
+  // Incremented on every save; used to detect concurrent edits
+  revision?: number;
+}
+
+interface LocalSaveConflict {
+  local: TranscriptionLineData[];
+  remote: TranscriptionJson;
+  conflicts: LineConflict<TranscriptionLineData>[];
 }
 
 interface TranscriptionEditorProps {
@@ -71,7 +197,10 @@ interface TranscriptionEditorProps {
   transcription: TranscriptionJson;
   initialFontFamily?: string;
   projectId?: string;
+  projectTitle?: string;
   projectStatus?: string;
+  // Video frame rate, used by the quality check's minimum gap
+  frameRate?: number;
   sourceLanguageName?: string;
   sourceLanguageCode?: string;
   onDirtyChange?: (dirty: boolean) => void;
@@ -84,7 +213,7 @@ interface TranscriptionEditorProps {
   setCurrentTime?: (time: number) => void;
   activeLine?: TranscriptionLineData | undefined;
   activeLineText?: string;
-  activeSubtitles?: Array<{ code: string; text: string }>;
+  activeSubtitles?: Array<{ code: string; text: string; color?: string }>;
   lines?: TranscriptionLineData[];
   setLines?: React.Dispatch<React.SetStateAction<TranscriptionLineData[]>>;
   // Hook state for undo/redo and save
@@ -95,20 +224,50 @@ interface TranscriptionEditorProps {
   redo?: () => void;
   handleSave?: () => Promise<void>;
   commitLinesUpdate?: (
-    updater: (prev: TranscriptionLineData[]) => TranscriptionLineData[]
+    updater: (prev: TranscriptionLineData[]) => TranscriptionLineData[],
+    label?: HistoryLabel<TranscriptionLineData>
   ) => void;
+  history?: HistoryEntry<TranscriptionLineData>[];
+  historyIndex?: number;
+  jumpToHistory?: (index: number) => void;
+  // Hook state for speaker names and colours
+  speakers?: Record<string, SpeakerInfo>;
+  updateSpeaker?: (id: string, info: SpeakerInfo) => void;
+  // Hook state for the project glossary
+  glossary?: GlossaryEntry[];
+  setGlossary?: (entries: GlossaryEntry[]) => void;
 }
 
 const clamp = (value: number, min: number, max: number): number =>
   Math.max(min, Math.min(max, value));
 
+const segmentsToLines = (
+  segments: TranscriptionJsonSegment[]
+): TranscriptionLineData[] =>
+  segments
+    .map((s) => ({
+      id: s.id,
+      start: s.start,
+      end: s.end,
+      text: s.text,
+      words: s.words,
+      translations: s.translations,
+      pending: s.pending,
+      review: s.review,
+      speaker: s.speaker,
+    }))
+    // Ensure lines are sorted; also helps gap buttons logic
+    .sort((a, b) => a.start - b.start);
+
 const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
   ({
     videoSrc,
     transcription,
     initialFontFamily,
     projectId,
+    projectTitle,
     projectStatus,
+    frameRate,
     sourceLanguageName,
     sourceLanguageCode,
     onDirtyChange,
@@ -131,6 +290,13 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
     redo: externalRedo,
     handleSave: externalHandleSave,
     commitLinesUpdate: externalCommitLinesUpdate,
+    history: externalHistory,
+    historyIndex: externalHistoryIndex,
+    jumpToHistory: externalJumpToHistory,
+    speakers: externalSpeakers,
+    updateSpeaker: externalUpdateSpeaker,
+    glossary: externalGlossary,
+    setGlossary: externalSetGlossary,
   }) => {
     const router = useRouter();
     const { toast } = useToast();
@@ -183,7 +349,54 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
     // Use external isDirty from hook, fallback to local state
     const [localIsDirty, setLocalIsDirty] = useState(false);
     const isDirty = externalIsDirty ?? localIsDirty;
+    const [localSpeakers, setLocalSpeakers] = useState<
+      Record<string, SpeakerInfo>
+    >({});
+    const resolvedLocalSpeakers = useMemo(
+      () => resolveSpeakers(localSpeakers, lines),
+      [localSpeakers, lines]
+    );
+    const speakers = externalSpeakers ?? resolvedLocalSpeakers;
+    const updateSpeaker = useCallback(
+      (id: string, info: SpeakerInfo) => {
+        if (externalUpdateSpeaker) {
+          externalUpdateSpeaker(id, info);
+          return;
+        }
+        setLocalSpeakers((prev) => ({ ...prev, [id]: info }));
+        setLocalIsDirty(true);
+      },
+      [externalUpdateSpeaker]
+    );
+    const [localGlossary, setLocalGlossary] = useState<GlossaryEntry[]>(
+      () => transcription.glossary || []
+    );
+    const glossary = externalGlossary ?? localGlossary;
+    const setGlossary = useCallback(
+      (entries: GlossaryEntry[]) => {
+        if (externalSetGlossary) {
+          externalSetGlossary(entries);
+          return;
+        }
+        setLocalGlossary(entries);
+        setLocalIsDirty(true);
+      },
+      [externalSetGlossary]
+    );
+    const [accountGlossary, setAccountGlossary] = useAccountGlossary();
+    // Project terms take precedence over the account's
+    const effectiveGlossary = useMemo(
+      () => mergeGlossaries(glossary, accountGlossary),
+      [glossary, accountGlossary]
+    );
     const [isSaving, setIsSaving] = useState(false);
+    // Last saved version, the base of the fallback save's conflict check
+    const localBaseRef = useRef<{ json: TranscriptionJson; revision: number }>({
+      json: transcription,
+      revision: transcription.revision ?? 0,
+    });
+    const [localSaveConflict, setLocalSaveConflict] =
+      useState<LocalSaveConflict | null>(null);
     const [isCroppingMode, setIsCroppingMode] = useState(false);
     const [exportingJobId, setExportingJobId] = useState<string | null>(null);
     const [exportUrl, setExportUrl] = useState<string | null>(null);
@@ -195,37 +408,34 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       Record<string, boolean>
     >({});
     const [autoScrollPaused, setAutoScrollPaused] = useState(false);
+    const [isQcOpen, setIsQcOpen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isSyncOpen, setIsSyncOpen] = useState(false);
+    const [isSpeakersOpen, setIsSpeakersOpen] = useState(false);
+    const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(
+      () => new Set()
+    );
+    const selectionAnchorRef = useRef<number | null>(null);
+    const [batchRetranslating, setBatchRetranslating] = useState(false);
+    const [findMode, setFindMode] = useState<'find' | 'replace' | null>(null);
     const programmaticScrollRef = useRef(false);
 
     // --- History (Undo/Redo) ---
-    // Restore local undo/redo state for fallback when external state is not available
-    const UNDO_LIMIT = 6;
-    const [undoStack, setUndoStack] = useState<TranscriptionLineData[][]>([]);
-    const [redoStack, setRedoStack] = useState<TranscriptionLineData[][]>([]);
-
-    const cloneLines = (
-      arr: TranscriptionLineData[]
-    ): TranscriptionLineData[] =>
-      arr.map((l) => ({
-        id: l.id,
-        start: l.start,
-        end: l.end,
-        text: l.text,
-        words: l.words.map((w) => ({
-          word: w.word,
-          start: w.start,
-          end: w.end,
-        })),
-        translations: l.translations ? { ...l.translations } : undefined,
-        pending: l.pending ? { ...l.pending } : undefined,
-      }));
+    // Local patch history for fallback when external state is not available
+    const [localHistory, setLocalHistory] = useState<
+      HistoryState<TranscriptionLineData>
+    >(emptyHistory);
 
     // Use external commitLinesUpdate if available, otherwise use local implementation
     const commitLinesUpdate = useCallback(
-      (updater: (prev: TranscriptionLineData[]) => TranscriptionLineData[]) => {
+      (
+        updater: (prev: TranscriptionLineData[]) => TranscriptionLineData[],
+        label?: HistoryLabel<TranscriptionLineData>
+      ) => {
         // If external commitLinesUpdate is provided, use it directly (it handles isDirty, undo/redo)
         if (externalCommitLinesUpdate) {
-          externalCommitLinesUpdate(updater);
+          externalCommitLinesUpdate(updater, label);
           return;
         }
 
@@ -234,13 +444,10 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
         setLines((prev) => {
           const nextLines = updater(prev);
           if (nextLines === prev) return prev;
+          const entry = createHistoryEntry(prev, nextLines, label);
+          if (!entry) return prev;
           didChange = true;
-          // Local state management (fallback)
-          setUndoStack((uPrev) => {
-            const next = [...uPrev, cloneLines(prev)];
-            return next.length > UNDO_LIMIT ? next.slice(1) : next;
-          });
-          setRedoStack([]);
+          setLocalHistory((h) => pushHistory(h, entry));
           return nextLines;
         });
         if (didChange) {
@@ -251,42 +458,24 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       [externalCommitLinesUpdate]
     );
 
-    // Use external undo/redo state from hook, fallback to local state
-    const canUndo = externalCanUndo ?? undoStack.length > 0;
-    const canRedo = externalCanRedo ?? redoStack.length > 0;
-
-    // Use external undo/redo functions from hook, fallback to local implementation
-    const undo =
-      externalUndo ??
-      (() => {
-        if (undoStack.length === 0) return;
-        setLines((current) => {
-          const prevSnapshot = undoStack[undoStack.length - 1];
-          setUndoStack((stack) => stack.slice(0, -1));
-          setRedoStack((stack) => {
-            const next = [...stack, cloneLines(current)];
-            return next.length > UNDO_LIMIT ? next.slice(1) : next;
-          });
-          return cloneLines(prevSnapshot);
-        });
-        setLocalIsDirty(true);
-      });
-
-    const redo =
-      externalRedo ??
-      (() => {
-        if (redoStack.length === 0) return;
-        setLines((current) => {
-          const nextSnapshot = redoStack[redoStack.length - 1];
-          setRedoStack((stack) => stack.slice(0, -1));
-          setUndoStack((stack) => {
-            const next = [...stack, cloneLines(current)];
-            return next.length > UNDO_LIMIT ? next.slice(1) : next;
-          });
-          return cloneLines(nextSnapshot);
-        });
+    // Use external history from hook, fallback to local state
+    const historyEntries = externalHistory ?? localHistory.entries;
+    const historyIndex = externalHistoryIndex ?? localHistory.index;
+    const canUndo = externalCanUndo ?? historyIndex > 0;
+    const canRedo = externalCanRedo ?? historyIndex < historyEntries.length;
+
+    // Use external history functions from hook, fallback to local implementation
+    const jumpToHistory =
+      externalJumpToHistory ??
+      ((index: number) => {
+        const target = clamp(index, 0, localHistory.entries.length);
+        if (target === localHistory.index) return;
+        setLines((current) => travelHistory(current, localHistory, target));
+        setLocalHistory((h) => ({ ...h, index: target }));
         setLocalIsDirty(true);
       });
+    const undo = externalUndo ?? (() => jumpToHistory(historyIndex - 1));
+    const redo = externalRedo ?? (() => jumpToHistory(historyIndex + 1));
 
     const gatherVisibleLanguages = useCallback((): string[] => {
       return Object.entries(visibleLanguages)
@@ -325,22 +514,14 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
     }, [exportingJobId, exportUrl]);
 
     useEffect(() => {
-      const mapped: TranscriptionLineData[] = transcription.segments
-        .map((s) => ({
-          id: s.id,
-          start: s.start,
-          end: s.end,
-          text: s.text,
-          words: s.words,
-          translations: s.translations,
-          pending: s.pending,
-        }))
-        // Ensure lines are sorted; also helps gap buttons logic
-        .sort((a, b) => a.start - b.start);
-      setLines(mapped);
+      setLines(segmentsToLines(transcription.segments));
+      localBaseRef.current = {
+        json: transcription,
+        revision: transcription.revision ?? 0,
+      };
+      setLocalSpeakers(transcription.speakers || {});
       setLocalIsDirty(false);
-      setUndoStack([]);
-      setRedoStack([]);
+      setLocalHistory(emptyHistory());
     }, [transcription, setLines]);
 
     // Notify parent when dirty state changes
@@ -378,6 +559,8 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
 
     // Keyboard shortcuts for undo/redo
     useEffect(() => {
+      // The hook registers its own shortcuts; don't undo twice per keystroke
+      if (externalUndo) return;
       const handler = (e: KeyboardEvent) => {
         const active = document.activeElement as HTMLElement | null;
         const tag = (active?.tagName || '').toLowerCase();
@@ -409,7 +592,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       };
       window.addEventListener('keydown', handler);
       return () => window.removeEventListener('keydown', handler);
-    }, [undoStack, redoStack]);
+    }, [externalUndo, undo, redo]);
 
     const activeId = useMemo(() => {
       // Use external activeLine if provided
@@ -551,23 +734,63 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       externalActiveLineText,
     ]);
 
-    // Cropping is only allowed when there are no translations at all
-    const hasAnyTranslations = useMemo(
-      () =>
-        lines.some(
-          (l) =>
-            (l.translations && Object.keys(l.translations).length > 0) ||
-            (l.pending && Object.keys(l.pending).length > 0)
-        ),
+    // Streamed translations are matched by line id, so lines still waiting
+    // for one cannot be merged or split
+    const hasPendingTranslations = useMemo(
+      () => lines.some((l) => l.pending && Object.keys(l.pending).length > 0),
+      [lines]
+    );
+    const isTranslating = useCallback(
+      (id: number) => {
+        const line = lines.find((l) => l.id === id);
+        return !!line?.pending && Object.keys(line.pending).length > 0;
+      },
       [lines]
     );
 
     useEffect(() => {
-      if (hasAnyTranslations && isCroppingMode) setIsCroppingMode(false);
-    }, [hasAnyTranslations, isCroppingMode]);
+      if (hasPendingTranslations && isCroppingMode) setIsCroppingMode(false);
+    }, [hasPendingTranslations, isCroppingMode]);
 
     // LanguageBlock moved to its own component and used inside TranscriptionLine
 
+    // Fresh translations of the given lines from the backend, by line id
+    const fetchSegmentTranslations = async (
+      lang: string,
+      targets: TranscriptionLineData[]
+    ): Promise<Record<number, string>> => {
+      const resp = await fetch(`/api/common/forward`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          method: 'POST',
+          url: '/translate/segment',
+          body: {
+            projectId,
+            src: sourceLanguageCode,
+            tgt: lang,
+            forceFresh: true,
+            glossary: glossaryForLanguage(effectiveGlossary, lang),
+            segments: targets.map((l) => ({
+              id: String(l.id),
+              start: l.start,
+              end: l.end,
+              text: l.text,
+            })),
+          },
+        }),
+      });
+      if (!resp.ok) throw new Error('Retranslate failed');
+      const json = await resp.json().catch(() => ({} as any));
+      const out: Record<number, string> = {};
+      (json?.segments || []).forEach((seg: any, i: number) => {
+        const id = seg?.id != null ? Number(seg.id) : targets[i]?.id;
+        if (typeof seg?.text === 'string' && id != null) out[id] = seg.text;
+      });
+      return out;
+    };
+
     const retranslateLine = async (lineId: number, lang: string) => {
       if (!projectId || !sourceLanguageCode) return;
       const line = lines.find((l) => l.id === lineId);
@@ -575,32 +798,8 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       const key = `${lineId}:${lang}`;
       setRetranslateInFlight((prev) => ({ ...prev, [key]: true }));
       try {
-        const resp = await fetch(`/api/common/forward`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          credentials: 'include',
-          body: JSON.stringify({
-            method: 'POST',
-            url: '/translate/segment',
-            body: {
-              projectId,
-              src: sourceLanguageCode,
-              tgt: lang,
-              forceFresh: true,
-              segments: [
-                {
-                  id: String(line.id),
-                  start: line.start,
-                  end: line.end,
-                  text: line.text,
-                },
-              ],
-            },
-          }),
-        });
-        if (!resp.ok) throw new Error('Retranslate failed');
-        const json = await resp.json().catch(() => ({} as any));
-        const translated = json?.segments?.[0]?.text;
+        const translations = await fetchSegmentTranslations(lang, [line]);
+        const translated = translations[lineId];
         if (typeof translated === 'string') {
           applyTranslationText(lineId, lang, translated);
         }
@@ -696,17 +895,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
         commitLinesUpdate((prev) =>
           prev.map((l) => {
             if (l.id !== id) return l;
-            const duration = Math.max(0.01, l.end - l.start);
-            const tokens = newText.split(/\s+/).filter(Boolean);
-            const words = (tokens.length ? tokens : ['']).map((word, i) => {
-              const start =
-                l.start + (duration * i) / Math.max(1, tokens.length);
-              const end =
-                i === Math.max(1, tokens.length) - 1
-                  ? l.end
-                  : l.start + (duration * (i + 1)) / Math.max(1, tokens.length);
-              return { word, start, end };
-            });
+            const words = updateWordTimings(l.words, newText, l.start, l.end);
             return { ...l, text: newText, words };
           })
         );
@@ -724,13 +913,55 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
               string
             >;
             nextTranslations[lang] = newText;
-            return { ...l, translations: nextTranslations };
-          })
+            return clearReview({ ...l, translations: nextTranslations }, lang);
+          }),
+          (prev) => `Edit ${lang} on line ${linePosition(prev, id)}`
+        );
+      },
+      [commitLinesUpdate]
+    );
+
+    const markTranslationReviewed = useCallback(
+      (id: number, lang: string) => {
+        commitLinesUpdate(
+          (prev) => prev.map((l) => (l.id === id ? clearReview(l, lang) : l)),
+          (prev) => `Keep split ${lang} on line ${linePosition(prev, id)}`
+        );
+      },
+      [commitLinesUpdate]
+    );
+
+    // --- Speakers ---
+    const setLineSpeaker = useCallback(
+      (id: number, speaker?: string) => {
+        commitLinesUpdate(
+          (prev) => prev.map((l) => (l.id === id ? { ...l, speaker } : l)),
+          (prev) =>
+            `${speaker ? 'Set' : 'Clear'} speaker on line ${linePosition(
+              prev,
+              id
+            )}`
         );
       },
       [commitLinesUpdate]
     );
 
+    const addSpeaker = useCallback(() => {
+      const { id, info } = newSpeaker(speakers);
+      updateSpeaker(id, info);
+    }, [speakers, updateSpeaker]);
+
+    const speakerLineCounts = useMemo(() => {
+      const counts: Record<string, number> = {};
+      for (const l of lines) {
+        if (l.speaker) counts[l.speaker] = (counts[l.speaker] || 0) + 1;
+      }
+      return counts;
+    }, [lines]);
+
+    // Chips only show once the transcription has speakers to pick from
+    const hasSpeakers = Object.keys(speakers).length > 0;
+
     const adjustStart = useCallback(
       (id: number, delta: number) => {
         commitLinesUpdate((prev) => {
@@ -740,7 +971,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
               : l
           );
           return [...updated].sort((a, b) => a.start - b.start);
-        });
+        }, `Shift start ${formatShift(delta)}`);
       },
       [commitLinesUpdate]
     );
@@ -761,7 +992,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
               : l
           );
           return [...updated].sort((a, b) => a.start - b.start);
-        });
+        }, `Shift end ${formatShift(delta)}`);
       },
       [commitLinesUpdate]
     );
@@ -801,39 +1032,36 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
     };
 
     const cropAtWord = (id: number, wordIndex: number) => {
-      commitLinesUpdate((prev) => {
-        const idx = prev.findIndex((l) => l.id === id);
-        if (idx === -1) return prev;
-        const original = prev[idx];
-        if (wordIndex < 0 || wordIndex >= original.words.length - 1)
-          return prev;
-
-        const cutFrom = original.words[wordIndex + 1];
-        const newStart = cutFrom.start;
-        const leftWords = original.words.slice(0, wordIndex + 1);
-        const rightWords = original.words.slice(wordIndex + 1);
-
-        const updatedOriginal: TranscriptionLineData = {
-          ...original,
-          end: newStart,
-          text: leftWords.map((w) => w.word).join(' '),
-          words: leftWords,
-        };
-
-        const newLine: TranscriptionLineData = {
-          id: prev.reduce((max, l) => (l.id > max ? l.id : max), 0) + 1,
-          start: newStart,
-          end: original.end,
-          text: rightWords.map((w) => w.word).join(' '),
-          words: rightWords,
-        };
-
-        const arr = [...prev];
-        arr[idx] = updatedOriginal;
-        arr.splice(idx + 1, 0, newLine);
-        setCropLineId(null);
-        return [...arr].sort((a, b) => a.start - b.start);
-      });
+      const original = lines.find((l) => l.id === id);
+      if (!original || isTranslating(id)) return;
+      if (wordIndex < 0 || wordIndex >= original.words.length - 1) return;
+      const flagged = Object.values(original.translations || {}).filter(
+        (t) => t?.trim()
+      ).length;
+      commitLinesUpdate(
+        (prev) => {
+          const idx = prev.findIndex((l) => l.id === id);
+          if (idx === -1) return prev;
+          const halves = splitLineAtWord(
+            prev[idx],
+            wordIndex,
+            prev.reduce((max, l) => (l.id > max ? l.id : max), 0) + 1
+          );
+          if (!halves) return prev;
+
+          const arr = [...prev];
+          arr.splice(idx, 1, ...halves);
+          setCropLineId(null);
+          return [...arr].sort((a, b) => a.start - b.start);
+        },
+        (prev) => `Split line ${linePosition(prev, id)}`
+      );
+      if (flagged > 0) {
+        toast({
+          title: 'Translations Split',
+          description: `${flagged} translation(s) were divided between the two lines. Check them or retranslate each half from its language block.`,
+        });
+      }
     };
 
     const editWord = (id: number, wordIndex: number, newValue: string) => {
@@ -843,44 +1071,42 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
           const words = [...l.words];
           words[wordIndex] = { ...words[wordIndex], word: newValue };
           return { ...l, words, text: words.map((w) => w.word).join(' ') };
-        })
+        }),
+        'Edit word'
       );
     };
 
     const mergeLines = (fromId: number, toId: number) => {
-      // Block merging when there are translations or pending translations
-      if (hasAnyTranslations) {
+      if (fromId === toId) return;
+      if (isTranslating(fromId) || isTranslating(toId)) {
         toast({
           title: 'Cannot merge lines',
-          description: 'Merging is disabled when translations exist.',
+          description: 'Wait for the translation of these lines to finish.',
           variant: 'destructive',
         });
         return;
       }
-      if (fromId === toId) return;
-      commitLinesUpdate((prev) => {
-        const fromIdx = prev.findIndex((l) => l.id === fromId);
-        const toIdx = prev.findIndex((l) => l.id === toId);
-        if (fromIdx === -1 || toIdx === -1) return prev;
-        const firstIdx = Math.min(fromIdx, toIdx);
-        const secondIdx = Math.max(fromIdx, toIdx);
-        const first = prev[firstIdx];
-        const second = prev[secondIdx];
-        const mergedWords = [...first.words, ...second.words];
-        const merged: TranscriptionLineData = {
-          id: first.id,
-          start: Math.min(first.start, second.start),
-          end: Math.max(first.end, second.end),
-          words: mergedWords,
-          text: mergedWords.map((w) => w.word).join(' '),
-        };
-        const arr = [...prev];
-        arr[firstIdx] = merged;
-        arr.splice(secondIdx, 1);
-        setDragOverId(null);
-        setDragSourceId(null);
-        return [...arr].sort((a, b) => a.start - b.start);
-      });
+      commitLinesUpdate(
+        (prev) => {
+          const fromIdx = prev.findIndex((l) => l.id === fromId);
+          const toIdx = prev.findIndex((l) => l.id === toId);
+          if (fromIdx === -1 || toIdx === -1) return prev;
+          const firstIdx = Math.min(fromIdx, toIdx);
+          const secondIdx = Math.max(fromIdx, toIdx);
+          const merged = mergeLinePair(prev[firstIdx], prev[secondIdx]);
+          const arr = [...prev];
+          arr[firstIdx] = merged;
+          arr.splice(secondIdx, 1);
+          setDragOverId(null);
+          setDragSourceId(null);
+          return [...arr].sort((a, b) => a.start - b.start);
+        },
+        (prev) => {
+          const a = linePosition(prev, fromId);
+          const b = linePosition(prev, toId);
+          return `Merge lines ${Math.min(a, b)}–${Math.max(a, b)}`;
+        }
+      );
     };
 
     const deleteLine = (id: number) => {
@@ -892,18 +1118,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       if (!pendingNewLine) return;
       const text = rawText.trim();
       const { start, end, insertIndex } = pendingNewLine;
-      const duration = Math.max(0, end - start);
-      const tokens = text.length > 0 ? text.split(/\s+/).filter(Boolean) : [];
-      const tokenCount = Math.max(1, tokens.length);
-
-      const words = tokens.map((word, i) => {
-        const wordStart = start + (duration * i) / tokenCount;
-        const wordEnd =
-          i === tokens.length - 1
-            ? end
-            : start + (duration * (i + 1)) / tokenCount;
-        return { word, start: wordStart, end: wordEnd };
-      });
+      const words = estimateWordTimings(text, start, end);
 
       commitLinesUpdate((prevLines) => {
         const existingLangCodes = Array.from(
@@ -929,12 +1144,237 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
         const arr = [...prevLines];
         arr.splice(insertIndex, 0, newLine);
         return [...arr].sort((a, b) => a.start - b.start);
-      });
+      }, 'Add line');
 
       setIsAddLineOpen(false);
       setPendingNewLine(null);
     };
 
+    // Source first, then every translation or pending language on the lines
+    const languageOptions = useMemo(() => {
+      const src = (sourceLanguageCode || '').trim();
+      const codes = new Set<string>(src ? [src] : []);
+      for (const l of lines) {
+        Object.keys(l.translations || {}).forEach((c) => codes.add(c));
+        Object.keys(l.pending || {}).forEach((c) => codes.add(c));
+      }
+      const names =
+        (typeof window !== 'undefined' && (window as any).__transLangNames) ||
+        {};
+      return Array.from(codes).map((code) => ({
+        code,
+        name:
+          code === src ? sourceLanguageName || code : names[code] || code,
+      }));
+    }, [lines, sourceLanguageCode, sourceLanguageName]);
+
+    // --- Quality check ---
+    const qcIssues = useMemo(
+      () =>
+        runQcChecks(
+          lines,
+          languageOptions.map((l) => l.code),
+          (sourceLanguageCode || '').trim(),
+          { ...DEFAULT_QC_THRESHOLDS, frameRate: frameRate || 25 },
+          effectiveGlossary
+        ),
+      [lines, languageOptions, sourceLanguageCode, frameRate, effectiveGlossary]
+    );
+
+    // Lines outlined in the list for missing a required glossary term
+    const glossaryLineIds = useMemo(
+      () =>
+        new Set(
+          qcIssues.filter((i) => i.type === 'glossary').map((i) => i.lineId)
+        ),
+      [qcIssues]
+    );
+
+    const qcLineNumbers = useMemo(
+      () =>
+        lines.reduce<Record<number, number>>((acc, l, idx) => {
+          acc[l.id] = idx + 1;
+          return acc;
+        }, {}),
+      [lines]
+    );
+
+    // Seek to the line, scroll it into view and optionally move keyboard
+    // focus to it (or to the language block)
+    const focusLine = useCallback(
+      (lineId: number, language?: string, moveFocus = true) => {
+        const line = lines.find((l) => l.id === lineId);
+        if (!line) return;
+        setCurrentTime(line.start);
+        setHasUserInteracted(true);
+        setAutoScrollPaused(true);
+        const root = scrollAreaRef.current;
+        const el = root?.querySelector(
+          `[data-line-id="${lineId}"]`
+        ) as HTMLElement | null;
+        if (!el) return;
+        programmaticScrollRef.current = true;
+        el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        window.setTimeout(() => {
+          programmaticScrollRef.current = false;
+        }, 500);
+        if (!moveFocus) return;
+        const src = (sourceLanguageCode || '').trim();
+        const block = language
+          ? el.querySelector(
+              `[data-key="${lineId}-${language === src ? 'src' : language}"]`
+            )
+          : null;
+        const buttons = block?.querySelectorAll('button');
+        const target =
+          (buttons?.[buttons.length - 1] as HTMLElement | undefined) || el;
+        target.focus({ preventScroll: true });
+      },
+      [lines, setCurrentTime, sourceLanguageCode]
+    );
+
+    const applyQcIssueFixes = useCallback(
+      (issues: QcIssue[]) => {
+        const fixable = issues.filter((i) => i.fix);
+        if (fixable.length === 0) return;
+        const src = (sourceLanguageCode || '').trim();
+        commitLinesUpdate(
+          (prev) =>
+            applyQcFixes(prev, fixable, src, {
+              ...DEFAULT_QC_THRESHOLDS,
+              frameRate: frameRate || 25,
+            }),
+          (prev) =>
+            fixable.length === 1
+              ? `${fixable[0].fix!.label} on line ${linePosition(
+                  prev,
+                  fixable[0].lineId
+                )}`
+              : `Fix ${fixable.length} QC issues`
+        );
+        toast({
+          title: 'Issues Fixed',
+          description: `Applied ${fixable.length} fix(es). Undo reverts them together.`,
+        });
+      },
+      [commitLinesUpdate, sourceLanguageCode, frameRate, toast]
+    );
+
+    const applyTimingSync = useCallback(
+      (
+        transform: SyncTransform,
+        ids: Set<number> | undefined,
+        label: string
+      ) => {
+        commitLinesUpdate((prev) => applySync(prev, transform, ids), label);
+        setIsSyncOpen(false);
+        toast({
+          title: 'Timings Synced',
+          description: `${label}. Undo reverts the whole change.`,
+        });
+      },
+      [commitLinesUpdate, toast]
+    );
+
+    // --- Find and replace ---
+    useEffect(() => {
+      const handler = (e: KeyboardEvent) => {
+        const isMac = navigator.platform.toUpperCase().includes('MAC');
+        const mod = isMac ? e.metaKey : e.ctrlKey;
+        if (!mod || e.shiftKey || e.altKey) return;
+        const key = e.key.toLowerCase();
+        if (key === 'f') {
+          e.preventDefault();
+          setFindMode((m) => m || 'find');
+        } else if (key === 'h') {
+          e.preventDefault();
+          setFindMode('replace');
+        }
+      };
+      window.addEventListener('keydown', handler);
+      return () => window.removeEventListener('keydown', handler);
+    }, []);
+
+    const getFieldText = (line: TranscriptionLineData, code: string) =>
+      code === (sourceLanguageCode || '').trim()
+        ? line.text
+        : line.translations?.[code] ?? '';
+
+    // Source edits keep the timings of unchanged words, matching applyLineText;
+    // replacing in a translation settles its review flag like a hand edit
+    const withFieldText = (
+      line: TranscriptionLineData,
+      code: string,
+      text: string
+    ): TranscriptionLineData => {
+      if (code === (sourceLanguageCode || '').trim()) {
+        return {
+          ...line,
+          text,
+          words: updateWordTimings(line.words, text, line.start, line.end),
+        };
+      }
+      return clearReview(
+        {
+          ...line,
+          translations: { ...(line.translations || {}), [code]: text },
+        },
+        code
+      );
+    };
+
+    const replaceMatch = (
+      match: SearchMatch,
+      pattern: RegExp,
+      replacement: string,
+      regex: boolean
+    ) => {
+      commitLinesUpdate((prev) =>
+        prev.map((l) =>
+          l.id === match.lineId
+            ? withFieldText(
+                l,
+                match.language,
+                replaceText(
+                  getFieldText(l, match.language),
+                  pattern,
+                  replacement,
+                  { regex, at: match.index }
+                )
+              )
+            : l
+        ),
+        (prev) => `Replace on line ${linePosition(prev, match.lineId)}`
+      );
+    };
+
+    const replaceAllMatches = (
+      codes: string[],
+      pattern: RegExp,
+      replacement: string,
+      regex: boolean
+    ) => {
+      const replaceInLine = (l: TranscriptionLineData) =>
+        codes.reduce((line, code) => {
+          const text = getFieldText(line, code);
+          if (!text) return line;
+          const replaced = replaceText(text, pattern, replacement, { regex });
+          return replaced === text ? line : withFieldText(line, code, replaced);
+        }, l);
+
+      const changed = lines.filter((l) => replaceInLine(l) !== l).length;
+      if (changed === 0) return;
+      // One commit, so a single undo restores every replaced line
+      commitLinesUpdate(
+        (prev) => prev.map(replaceInLine),
+        `Replace all (${changed} lines)`
+      );
+      toast({
+        title: 'Replaced',
+        description: `Updated ${changed} line(s). Undo reverts them together.`,
+      });
+    };
+
     // Navigation/refresh guard when dirty
     useEffect(() => {
       const beforeUnload = (e: BeforeUnloadEvent) => {
@@ -971,50 +1411,98 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
     }, [isDirty]);
 
     // Save to S3 via API (preserve full JSON; update segments and top-level translations)
-    // Use external handleSave function from hook, fallback to local implementation
-    const handleSave =
-      externalHandleSave ??
-      (async () => {
-        if (!projectId) return;
-        setIsSaving(true);
-        try {
-          const out: any = JSON.parse(JSON.stringify(transcription || {}));
-
-          out.segments = lines.map((l) => ({
-            id: l.id,
-            start: l.start,
-            end: l.end,
-            words: l.words,
-            translations: l.translations,
-            text: l.text.trim(),
-          }));
-
-          const payload = { json: out };
-          const resp = await fetch(`/api/projects/${projectId}`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            credentials: 'include',
-            body: JSON.stringify(payload),
-          });
-          if (!resp.ok) {
-            const err = await resp.json().catch(() => ({}));
-            throw new Error(err.message || 'Failed to save');
-          }
-          setLocalIsDirty(false);
-          toast({
-            title: 'Saved',
-            description: 'Transcription saved successfully.',
-          });
-        } catch (e) {
-          toast({
-            title: 'Save failed',
-            description: (e as Error).message,
-            variant: 'destructive',
+    // Fallback for when the hook's save is not provided
+    const saveLocalLines = async (
+      toSave: TranscriptionLineData[],
+      speakerTable: Record<string, SpeakerInfo> = speakers,
+      terms: GlossaryEntry[] = glossary
+    ) => {
+      if (!projectId) return;
+      setIsSaving(true);
+      try {
+        const base = localBaseRef.current;
+        const out: any = JSON.parse(JSON.stringify(base.json || {}));
+
+        out.segments = toSave.map((l) => ({
+          id: l.id,
+          start: l.start,
+          end: l.end,
+          words: l.words,
+          translations: l.translations,
+          review: l.review,
+          speaker: l.speaker,
+          text: l.text.trim(),
+        }));
+        out.speakers = speakerTable;
+        out.glossary = terms;
+        out.revision = base.revision + 1;
+
+        const payload = { json: out, baseRevision: base.revision };
+        const resp = await fetch(`/api/projects/${projectId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(payload),
+        });
+        if (resp.status === 409) {
+          const err = await resp.json().catch(() => ({}));
+          const remote = err.remote as TranscriptionJson | null;
+          if (!remote?.segments) throw new Error(err.error || 'Save conflict');
+          setLocalSaveConflict({
+            local: toSave,
+            remote,
+            conflicts: findLineConflicts(
+              base.json.segments || [],
+              toSave,
+              segmentsToLines(remote.segments)
+            ),
           });
-        } finally {
-          setIsSaving(false);
+          return;
         }
-      });
+        if (!resp.ok) {
+          const err = await resp.json().catch(() => ({}));
+          throw new Error(err.error || err.message || 'Failed to save');
+        }
+        localBaseRef.current = { json: out, revision: out.revision };
+        setLocalIsDirty(false);
+        toast({
+          title: 'Saved',
+          description: 'Transcription saved successfully.',
+        });
+      } catch (e) {
+        toast({
+          title: 'Save failed',
+          description: (e as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setIsSaving(false);
+      }
+    };
+
+    // Use external handleSave function from hook, fallback to local implementation
+    const handleSave = externalHandleSave ?? (() => saveLocalLines(lines));
+
+    const resolveLocalSaveConflict = (choices: Record<number, MergeSide>) => {
+      if (!localSaveConflict) return;
+      const { local, remote, conflicts } = localSaveConflict;
+      const merged = mergeLineVersions(local, conflicts, choices);
+      const mergedSpeakers = resolveSpeakers(
+        mergeSpeakers(
+          localBaseRef.current.json.speakers,
+          localSpeakers,
+          remote.speakers
+        ),
+        merged
+      );
+      const terms = mergeGlossaries(glossary, remote.glossary || []);
+      localBaseRef.current = { json: remote, revision: remote.revision ?? 0 };
+      commitLinesUpdate(() => merged, 'Merge remote changes');
+      setLocalSpeakers(mergedSpeakers);
+      setLocalGlossary(terms);
+      setLocalSaveConflict(null);
+      saveLocalLines(merged, mergedSpeakers, terms);
+    };
 
     const pickExportLanguageCode = useCallback((): string | null => {
       const visible = gatherVisibleLanguages();
@@ -1024,32 +1512,6 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       return src || visible[0] || null;
     }, [gatherVisibleLanguages, sourceLanguageCode]);
 
-    const formatTimeSrt = (seconds: number): string => {
-      const msTotal = Math.max(0, Math.round(seconds * 1000));
-      const ms = msTotal % 1000;
-      const totalSeconds = Math.floor(msTotal / 1000);
-      const s = totalSeconds % 60;
-      const totalMinutes = Math.floor(totalSeconds / 60);
-      const m = totalMinutes % 60;
-      const h = Math.floor(totalMinutes / 60);
-      const pad = (n: number, w = 2) => String(n).padStart(w, '0');
-      const padMs = (n: number) => String(n).padStart(3, '0');
-      return `${pad(h)}:${pad(m)}:${pad(s)},${padMs(ms)}`;
-    };
-
-    const formatTimeVtt = (seconds: number): string => {
-      const msTotal = Math.max(0, Math.round(seconds * 1000));
-      const ms = msTotal % 1000;
-      const totalSeconds = Math.floor(msTotal / 1000);
-      const s = totalSeconds % 60;
-      const totalMinutes = Math.floor(totalSeconds / 60);
-      const m = totalMinutes % 60;
-      const h = Math.floor(totalMinutes / 60);
-      const pad = (n: number, w = 2) => String(n).padStart(w, '0');
-      const padMs = (n: number) => String(n).padStart(3, '0');
-      return `${pad(h)}:${pad(m)}:${pad(s)}.${padMs(ms)}`;
-    };
-
     const getLineTextForLanguage = useCallback(
       (line: TranscriptionLineData, code: string): string => {
         const src = (sourceLanguageCode || '').trim();
@@ -1069,36 +1531,179 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       [lines, getLineTextForLanguage]
     );
 
+    const getCuesForLanguage = useCallback(
+      (code: string) =>
+        lines
+          .map((l) => ({
+            start: l.start,
+            end: l.end,
+            text: getLineTextForLanguage(l, code),
+            speaker: speakerName(speakers, l.speaker),
+          }))
+          .filter((c) => c.text.length > 0),
+      [lines, speakers, getLineTextForLanguage]
+    );
+
     const buildSrtForLanguage = useCallback(
+      (code: string): string => buildSrt(getCuesForLanguage(code)),
+      [getCuesForLanguage]
+    );
+
+    const buildVttForLanguage = useCallback(
+      (code: string): string => buildVtt(getCuesForLanguage(code)),
+      [getCuesForLanguage]
+    );
+
+    // Word timings only exist for the source text; translations are spread evenly
+    const getKaraokeCuesForLanguage = useCallback(
+      (code: string): KaraokeCue[] => {
+        const src = (sourceLanguageCode || '').trim();
+        return lines
+          .map((l) => {
+            const text = getLineTextForLanguage(l, code);
+            const words =
+              code === src && l.words.length > 0
+                ? l.words
+                : estimateWordTimings(text, l.start, l.end);
+            return { start: l.start, end: l.end, words };
+          })
+          .filter((c) => c.words.length > 0);
+      },
+      [lines, getLineTextForLanguage, sourceLanguageCode]
+    );
+
+    // One style per language: the source uses the primary colour, translations the secondary
+    const buildAssForLanguage = useCallback(
+      (code: string, karaoke = false): string => {
+        const src = (sourceLanguageCode || '').trim();
+        const events = karaoke
+          ? getKaraokeCuesForLanguage(code).map((c) => ({
+              start: c.start,
+              end: c.end,
+              style: code,
+              text: buildKaraokeAssText(c),
+              raw: true,
+            }))
+          : getCuesForLanguage(code).map((c) => ({
+              ...c,
+              style: c.speaker || code,
+              name: c.speaker,
+            }));
+        if (events.length === 0) return '';
+        // One style per speaker in the speaker's colour; karaoke keeps the
+        // language style since its cues are built from word timings
+        const speakerStyles = karaoke
+          ? []
+          : Object.entries(speakers)
+              .map(([id, sp]) => ({
+                name: speakerName(speakers, id)!,
+                color: sp.color,
+              }))
+              .filter((st) => events.some((e) => e.style === st.name));
+        return buildAssDocument({
+          title: code,
+          settings: {
+            fontFamily,
+            subtitleScale,
+            subtitlePosition,
+            subtitleBackground,
+            subtitleOutline,
+          },
+          styles: [
+            { name: code, color: code === src ? color1 : color2, karaoke },
+            ...speakerStyles,
+          ],
+          events,
+        });
+      },
+      [
+        getCuesForLanguage,
+        getKaraokeCuesForLanguage,
+        speakers,
+        sourceLanguageCode,
+        fontFamily,
+        subtitleScale,
+        subtitlePosition,
+        subtitleBackground,
+        subtitleOutline,
+        color1,
+        color2,
+      ]
+    );
+
+    const buildTtmlForLanguage = useCallback(
+      (
+        code: string,
+        startOffset = 0,
+        cues = getCuesForLanguage(code)
+      ): string => {
+        const src = (sourceLanguageCode || '').trim();
+        if (cues.length === 0) return '';
+        return buildTtmlDocument({
+          language: code,
+          settings: {
+            fontFamily,
+            subtitleScale,
+            subtitlePosition,
+            subtitleBackground,
+            subtitleOutline,
+          },
+          color: code === src ? color1 : color2,
+          cues,
+          startOffset,
+        });
+      },
+      [
+        getCuesForLanguage,
+        sourceLanguageCode,
+        fontFamily,
+        subtitleScale,
+        subtitlePosition,
+        subtitleBackground,
+        subtitleOutline,
+        color1,
+        color2,
+      ]
+    );
+
+    const buildSbvForLanguage = useCallback(
+      (code: string): string => buildSbv(getCuesForLanguage(code)),
+      [getCuesForLanguage]
+    );
+
+    const buildSamiForLanguage = useCallback(
       (code: string): string => {
-        const chunks: string[] = [];
-        let idx = 1;
-        for (const l of lines) {
-          const t = getLineTextForLanguage(l, code);
-          if (!t) continue;
-          chunks.push(String(idx++));
-          chunks.push(`${formatTimeSrt(l.start)} --> ${formatTimeSrt(l.end)}`);
-          chunks.push(t);
-          chunks.push('');
-        }
-        return chunks.join('\n');
+        const src = (sourceLanguageCode || '').trim();
+        const cues = getCuesForLanguage(code);
+        if (cues.length === 0) return '';
+        return buildSami(cues, {
+          language: code,
+          languageName: code === src ? sourceLanguageName : undefined,
+          title: projectTitle,
+          color: code === src ? color1 : color2,
+        });
       },
-      [lines, getLineTextForLanguage]
+      [
+        getCuesForLanguage,
+        sourceLanguageCode,
+        sourceLanguageName,
+        projectTitle,
+        color1,
+        color2,
+      ]
     );
 
-    const buildVttForLanguage = useCallback(
+    // Enhanced LRC carries a tag per word, using the same timings as karaoke
+    const buildLrcForLanguage = useCallback(
       (code: string): string => {
-        const chunks: string[] = ['WEBVTT', ''];
-        for (const l of lines) {
-          const t = getLineTextForLanguage(l, code);
-          if (!t) continue;
-          chunks.push(`${formatTimeVtt(l.start)} --> ${formatTimeVtt(l.end)}`);
-          chunks.push(t);
-          chunks.push('');
-        }
-        return chunks.join('\n');
+        const cues = getKaraokeCuesForLanguage(code).map((c) => ({
+          ...c,
+          text: c.words.map((w) => w.word.trim()).join(' '),
+        }));
+        if (cues.length === 0) return '';
+        return buildLrc(cues, { title: projectTitle, language: code });
       },
-      [lines, getLineTextForLanguage]
+      [getKaraokeCuesForLanguage, projectTitle]
     );
 
     const downloadTextFile = (
@@ -1121,13 +1726,227 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       }
     };
 
-    // Get all available language codes (source + all translations)
-    const getAllAvailableLanguageCodes = useCallback((): string[] => {
-      const codes = new Set<string>();
-      const src = (sourceLanguageCode || '').trim();
-      if (src) {
-        codes.add(src);
-      }
+    // --- Multi-select ---
+    // Shift-click selects a range from the last clicked line, Ctrl/Cmd-click
+    // toggles one line. Each batch action below is a single undo step.
+    const toggleSelection = (id: number, range: boolean) => {
+      const anchor = selectionAnchorRef.current;
+      setSelectedIds((prev) => {
+        if (range && anchor !== null) {
+          return new Set([...prev, ...selectRange(lines, anchor, id)]);
+        }
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+      });
+      if (!range) selectionAnchorRef.current = id;
+    };
+
+    const clearSelection = useCallback(() => {
+      setSelectedIds((prev) => (prev.size > 0 ? new Set() : prev));
+      selectionAnchorRef.current = null;
+    }, []);
+
+    // Drop ids of lines that no longer exist, e.g. after undo
+    useEffect(() => {
+      setSelectedIds((prev) => {
+        if (prev.size === 0) return prev;
+        const existing = new Set(lines.map((l) => l.id));
+        const next = new Set(Array.from(prev).filter((id) => existing.has(id)));
+        return next.size === prev.size ? prev : next;
+      });
+    }, [lines]);
+
+    const deleteSelection = useCallback(() => {
+      if (selectedIds.size === 0) return;
+      const ids = selectedIds;
+      commitLinesUpdate(
+        (prev) => deleteSelected(prev, ids),
+        `Delete ${ids.size} line(s)`
+      );
+      clearSelection();
+    }, [selectedIds, commitLinesUpdate, clearSelection]);
+
+    const mergeSelection = () => {
+      const ids = selectedIds;
+      if (ids.size < 2) return;
+      if (Array.from(ids).some(isTranslating)) {
+        toast({
+          title: 'Cannot merge lines',
+          description: 'Wait for the translation of these lines to finish.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      if (!isContiguousSelection(lines, ids)) {
+        toast({
+          title: 'Cannot merge lines',
+          description:
+            'Only lines that follow each other can be merged. Select the lines in between too.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      commitLinesUpdate(
+        (prev) => mergeSelected(prev, ids),
+        `Merge ${ids.size} lines`
+      );
+      clearSelection();
+    };
+
+    const shiftSelection = (ms: number) => {
+      const ids = selectedIds;
+      commitLinesUpdate(
+        (prev) => applySync(prev, offsetTransform(ms / 1000), ids),
+        `Shift ${ids.size} line(s) ${formatShift(ms / 1000)}`
+      );
+    };
+
+    const retranslateSelection = async (lang: string) => {
+      if (!projectId || !sourceLanguageCode) return;
+      const targets = lines.filter((l) => selectedIds.has(l.id));
+      if (targets.length === 0) return;
+      setBatchRetranslating(true);
+      try {
+        const translations = await fetchSegmentTranslations(lang, targets);
+        const count = Object.keys(translations).length;
+        if (count === 0) throw new Error('No translations returned');
+        commitLinesUpdate(
+          (prev) =>
+            prev.map((l) =>
+              l.id in translations
+                ? clearReview(
+                    {
+                      ...l,
+                      translations: {
+                        ...(l.translations || {}),
+                        [lang]: translations[l.id],
+                      },
+                    },
+                    lang
+                  )
+                : l
+            ),
+          `Retranslate ${count} line(s) to ${lang}`
+        );
+      } catch (e) {
+        toast({
+          title: 'Retranslate failed',
+          description: (e as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setBatchRetranslating(false);
+      }
+    };
+
+    const copySelection = useCallback(async () => {
+      if (selectedIds.size === 0) return;
+      try {
+        await navigator.clipboard.writeText(serializeLines(lines, selectedIds));
+        toast({
+          title: 'Lines Copied',
+          description: `${selectedIds.size} line(s) copied with their timings. Paste with Ctrl/Cmd+V to insert them at the playhead.`,
+        });
+      } catch (e) {
+        console.error('Copy failed', e);
+      }
+    }, [lines, selectedIds, toast]);
+
+    const exportSelectionSrt = (lang: string) => {
+      const cues = lines
+        .filter((l) => selectedIds.has(l.id))
+        .map((l) => ({
+          start: l.start,
+          end: l.end,
+          text: getLineTextForLanguage(l, lang),
+          speaker: speakerName(speakers, l.speaker),
+        }))
+        .filter((c) => c.text.length > 0);
+      if (cues.length === 0) {
+        toast({
+          title: 'No Content Available',
+          description: 'The selected lines have no text in this language.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      downloadTextFile(
+        `${projectId || 'export'}-selection-${lang}.srt`,
+        buildSrt(cues)
+      );
+    };
+
+    // Clipboard and keyboard shortcuts for the selection. Editable fields keep
+    // their native behaviour.
+    useEffect(() => {
+      const isEditable = (target: EventTarget | null) => {
+        const el = target as HTMLElement | null;
+        return (
+          !!el &&
+          (el.tagName === 'INPUT' ||
+            el.tagName === 'TEXTAREA' ||
+            el.isContentEditable)
+        );
+      };
+      const onCopy = (e: ClipboardEvent) => {
+        if (selectedIds.size === 0 || isEditable(e.target)) return;
+        if (window.getSelection()?.toString()) return;
+        e.clipboardData?.setData(
+          'text/plain',
+          serializeLines(lines, selectedIds)
+        );
+        e.preventDefault();
+      };
+      const onPaste = (e: ClipboardEvent) => {
+        if (isEditable(e.target)) return;
+        const copied = parseCopiedLines(
+          e.clipboardData?.getData('text/plain') || ''
+        );
+        if (!copied) return;
+        e.preventDefault();
+        const { ids } = pasteLines(lines, copied, currentTime);
+        commitLinesUpdate(
+          (prev) => pasteLines(prev, copied, currentTime).lines,
+          `Paste ${copied.length} line(s)`
+        );
+        setSelectedIds(new Set(ids));
+        selectionAnchorRef.current = null;
+      };
+      const onKeyDown = (e: KeyboardEvent) => {
+        if (selectedIds.size === 0 || isEditable(e.target)) return;
+        if (e.key === 'Escape') {
+          clearSelection();
+        } else if (e.key === 'Delete' || e.key === 'Backspace') {
+          e.preventDefault();
+          deleteSelection();
+        }
+      };
+      document.addEventListener('copy', onCopy);
+      document.addEventListener('paste', onPaste);
+      window.addEventListener('keydown', onKeyDown);
+      return () => {
+        document.removeEventListener('copy', onCopy);
+        document.removeEventListener('paste', onPaste);
+        window.removeEventListener('keydown', onKeyDown);
+      };
+    }, [
+      lines,
+      selectedIds,
+      currentTime,
+      commitLinesUpdate,
+      clearSelection,
+      deleteSelection,
+    ]);
+
+    // Get all available language codes (source + all translations)
+    const getAllAvailableLanguageCodes = useCallback((): string[] => {
+      const codes = new Set<string>();
+      const src = (sourceLanguageCode || '').trim();
+      if (src) {
+        codes.add(src);
+      }
       // Collect all translation codes from all lines
       for (const line of lines) {
         if (line.translations) {
@@ -1144,7 +1963,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
     // Download zip file with multiple files
     const downloadZipFile = async (
       filename: string,
-      files: Array<{ name: string; content: string }>
+      files: Array<{ name: string; content: string | Uint8Array }>
     ) => {
       try {
         const zip = new JSZip();
@@ -1170,115 +1989,467 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       }
     };
 
-    const handleExportText = useCallback(async () => {
-      const allCodes = getAllAvailableLanguageCodes();
-      if (allCodes.length === 0) {
+    // Build one file per language and download them as a single zip
+    const exportLanguageFiles = useCallback(
+      async (
+        extension: string,
+        build: (code: string) => string | Uint8Array,
+        zipSuffix = extension
+      ) => {
+        const allCodes = getAllAvailableLanguageCodes();
+        if (allCodes.length === 0) {
+          toast({
+            title: 'No Languages Available',
+            description: 'No languages found to export.',
+            variant: 'destructive',
+          });
+          return;
+        }
+
+        const files = allCodes
+          .map((code) => {
+            const content = build(code);
+            // Only include files that have content
+            if (typeof content === 'string' ? !content.trim() : !content.length)
+              return null;
+            return {
+              name: `${code}.${extension}`,
+              content,
+            };
+          })
+          .filter(
+            (f): f is { name: string; content: string | Uint8Array } =>
+              f !== null
+          );
+
+        if (files.length === 0) {
+          toast({
+            title: 'No Content Available',
+            description: 'No content found to export.',
+            variant: 'destructive',
+          });
+          return;
+        }
+
+        await downloadZipFile(
+          `${projectId || 'export'}-${zipSuffix}.zip`,
+          files
+        );
+      },
+      [getAllAvailableLanguageCodes, projectId, toast]
+    );
+
+    const handleExportText = useCallback(
+      () => exportLanguageFiles('txt', buildPlainTextForLanguage, 'text'),
+      [exportLanguageFiles, buildPlainTextForLanguage]
+    );
+
+    const handleExportSrt = useCallback(
+      () => exportLanguageFiles('srt', buildSrtForLanguage),
+      [exportLanguageFiles, buildSrtForLanguage]
+    );
+
+    const handleExportVtt = useCallback(
+      () => exportLanguageFiles('vtt', buildVttForLanguage),
+      [exportLanguageFiles, buildVttForLanguage]
+    );
+
+    const handleExportAss = useCallback(
+      () => exportLanguageFiles('ass', (code) => buildAssForLanguage(code)),
+      [exportLanguageFiles, buildAssForLanguage]
+    );
+
+    const handleExportSbv = useCallback(
+      () => exportLanguageFiles('sbv', buildSbvForLanguage),
+      [exportLanguageFiles, buildSbvForLanguage]
+    );
+
+    const handleExportSami = useCallback(
+      () => exportLanguageFiles('smi', buildSamiForLanguage),
+      [exportLanguageFiles, buildSamiForLanguage]
+    );
+
+    const handleExportLrc = useCallback(
+      () => exportLanguageFiles('lrc', buildLrcForLanguage),
+      [exportLanguageFiles, buildLrcForLanguage]
+    );
+
+    const handleExportVttWords = useCallback(
+      () =>
+        exportLanguageFiles(
+          'vtt',
+          (code) => {
+            const cues = getKaraokeCuesForLanguage(code);
+            return cues.length > 0 ? buildKaraokeVtt(cues) : '';
+          },
+          'vtt-words'
+        ),
+      [exportLanguageFiles, getKaraokeCuesForLanguage]
+    );
+
+    const handleExportAssKaraoke = useCallback(
+      () =>
+        exportLanguageFiles(
+          'ass',
+          (code) => buildAssForLanguage(code, true),
+          'ass-karaoke'
+        ),
+      [exportLanguageFiles, buildAssForLanguage]
+    );
+
+    const handleExportStl = useCallback(
+      async (startOffset = 0, frameRate: StlFrameRate = 25) => {
+        // Refuse the whole export when any language has cues that do not fit
+        const problems = getAllAvailableLanguageCodes().flatMap((code) =>
+          validateStlCues(getCuesForLanguage(code)).map(
+            (issue) => `${code} #${issue.cue}: ${issue.message}`
+          )
+        );
+        if (problems.length > 0) {
+          toast({
+            title: 'STL Validation Failed',
+            description:
+              problems.slice(0, 3).join('\n') +
+              (problems.length > 3
+                ? `\n…and ${problems.length - 3} more`
+                : ''),
+            variant: 'destructive',
+          });
+          return;
+        }
+
+        await exportLanguageFiles('stl', (code) => {
+          const cues = getCuesForLanguage(code);
+          if (cues.length === 0) return '';
+          return buildStl(cues, {
+            title: projectTitle,
+            language: code,
+            frameRate,
+            position: subtitlePosition,
+            startOffset,
+          });
+        });
+      },
+      [
+        getAllAvailableLanguageCodes,
+        getCuesForLanguage,
+        exportLanguageFiles,
+        projectTitle,
+        subtitlePosition,
+        toast,
+      ]
+    );
+
+    const handleExportScc = useCallback(async () => {
+      const codes = getAllAvailableLanguageCodes();
+      const problems = codes.flatMap((code) =>
+        validateSccCues(getCuesForLanguage(code)).map(
+          (issue) => `${code} #${issue.cue}: ${issue.message}`
+        )
+      );
+      if (problems.length > 0) {
         toast({
-          title: 'No Languages Available',
-          description: 'No languages found to export.',
+          title: 'SCC Validation Failed',
+          description:
+            problems.slice(0, 3).join('\n') +
+            (problems.length > 3 ? `\n…and ${problems.length - 3} more` : ''),
           variant: 'destructive',
         });
         return;
       }
 
-      const files = allCodes
-        .map((code) => {
-          const content = buildPlainTextForLanguage(code);
-          // Only include files that have content
-          if (!content.trim()) return null;
-          return {
-            name: `${code}.txt`,
-            content,
-          };
-        })
-        .filter((f): f is { name: string; content: string } => f !== null);
-
-      if (files.length === 0) {
+      // 608 has a small character set: export anyway but name what is dropped
+      const unsupported = new Set<string>();
+      for (const code of codes) {
+        for (const cue of getCuesForLanguage(code)) {
+          findUnsupportedSccChars(cue.text).forEach((ch) =>
+            unsupported.add(ch)
+          );
+        }
+      }
+      if (unsupported.size > 0) {
         toast({
-          title: 'No Content Available',
-          description: 'No content found to export.',
-          variant: 'destructive',
+          title: 'Unsupported Characters',
+          description: `CEA-608 cannot display ${Array.from(unsupported)
+            .slice(0, 12)
+            .join(' ')}. These characters were left out of the SCC files.`,
         });
-        return;
       }
 
-      await downloadZipFile(`${projectId || 'export'}-text.zip`, files);
+      await exportLanguageFiles('scc', (code) => {
+        const cues = getCuesForLanguage(code);
+        if (cues.length === 0) return '';
+        return buildScc(cues, subtitlePosition);
+      });
     }, [
       getAllAvailableLanguageCodes,
-      buildPlainTextForLanguage,
-      projectId,
+      getCuesForLanguage,
+      exportLanguageFiles,
+      subtitlePosition,
       toast,
     ]);
 
-    const handleExportSrt = useCallback(async () => {
-      const allCodes = getAllAvailableLanguageCodes();
-      if (allCodes.length === 0) {
-        toast({
-          title: 'No Languages Available',
-          description: 'No languages found to export.',
-          variant: 'destructive',
-        });
-        return;
-      }
+    const handleExportNle = useCallback(
+      async (target: 'fcpxml' | 'premiere', probedFrameRate?: number) => {
+        let frameRate = probedFrameRate;
+        if (!frameRate) {
+          frameRate = 25;
+          toast({
+            title: 'Frame Rate Unknown',
+            description:
+              'Could not read the frame rate from the local video. Cues were snapped to 25 fps.',
+          });
+        }
+        const build = target === 'fcpxml' ? buildFcpxml : buildPremiereXml;
+        await exportLanguageFiles(
+          target === 'fcpxml' ? 'fcpxml' : 'xml',
+          (code) => {
+            const cues = getCuesForLanguage(code);
+            if (cues.length === 0) return '';
+            return build(cues, {
+              language: code,
+              title: projectTitle,
+              frameRate: frameRate as number,
+            });
+          },
+          target
+        );
+      },
+      [exportLanguageFiles, getCuesForLanguage, projectTitle, toast]
+    );
 
-      const files = allCodes
-        .map((code) => {
-          const content = buildSrtForLanguage(code);
-          // Only include files that have content
-          if (!content.trim()) return null;
+    // Export every language in the profile's format, re-wrapped to its row
+    // limits. Strict profiles refuse the export while errors remain.
+    const handleExportProfile = useCallback(
+      async (profileId: DeliveryProfileId) => {
+        const profile = findDeliveryProfile(profileId);
+        if (!profile) return;
+        const src = (sourceLanguageCode || '').trim();
+        // SRT names the speaker in a `- Name: ` prefix that takes up room in
+        // the first row, so it is added before wrapping and checking
+        const prefixSpeaker = profile.format === 'srt';
+        const wrapped = lines.map((l) => {
+          const name = prefixSpeaker ? speakerName(speakers, l.speaker) : '';
+          const wrap = (text: string) =>
+            wrapForProfile(
+              name && text.trim() ? `- ${name}: ${text.trim()}` : text,
+              profile
+            );
           return {
-            name: `${code}.srt`,
-            content,
+            ...l,
+            text: wrap(l.text),
+            translations: l.translations
+              ? Object.fromEntries(
+                  Object.entries(l.translations).map(([code, text]) => [
+                    code,
+                    wrap(text),
+                  ])
+                )
+              : undefined,
           };
-        })
-        .filter((f): f is { name: string; content: string } => f !== null);
-
-      if (files.length === 0) {
-        toast({
-          title: 'No Content Available',
-          description: 'No content found to export.',
-          variant: 'destructive',
         });
-        return;
-      }
 
-      await downloadZipFile(`${projectId || 'export'}-srt.zip`, files);
-    }, [getAllAvailableLanguageCodes, buildSrtForLanguage, projectId, toast]);
+        const issues = runQcChecks(
+          wrapped,
+          getAllAvailableLanguageCodes(),
+          src,
+          { ...profile.thresholds, frameRate: frameRate || 25 }
+        );
+        const describe = (list: QcIssue[]) => {
+          const rows = list.map(
+            (i) =>
+              `${i.language ? `${i.language} ` : ''}#${
+                qcLineNumbers[i.lineId] ?? '?'
+              }: ${i.message}`
+          );
+          return (
+            rows.slice(0, 3).join('\n') +
+            (rows.length > 3 ? `\n…and ${rows.length - 3} more` : '')
+          );
+        };
+        const errors = issues.filter((i) => i.severity === 'error');
+        if (profile.strict && errors.length > 0) {
+          toast({
+            title: `${profile.name} Spec Not Met`,
+            description: describe(errors),
+            variant: 'destructive',
+          });
+          return;
+        }
 
-    const handleExportVtt = useCallback(async () => {
-      const allCodes = getAllAvailableLanguageCodes();
-      if (allCodes.length === 0) {
-        toast({
-          title: 'No Languages Available',
-          description: 'No languages found to export.',
-          variant: 'destructive',
-        });
-        return;
-      }
+        const getWrappedCues = (code: string) =>
+          wrapped
+            .map((l) => ({
+              start: l.start,
+              end: l.end,
+              text: getLineTextForLanguage(l, code),
+              speaker: prefixSpeaker
+                ? undefined
+                : speakerName(speakers, l.speaker),
+            }))
+            .filter((c) => c.text.length > 0);
+        await exportLanguageFiles(
+          profile.format,
+          (code) => {
+            const cues = getWrappedCues(code);
+            if (profile.format === 'ttml') {
+              return buildTtmlForLanguage(code, 0, cues);
+            }
+            return profile.format === 'vtt' ? buildVtt(cues) : buildSrt(cues);
+          },
+          `${profile.id}-${profile.format}`
+        );
+        if (issues.length > 0) {
+          toast({
+            title: `${profile.name}: ${issues.length} Issue(s)`,
+            description: describe(issues),
+          });
+        }
+      },
+      [
+        lines,
+        speakers,
+        sourceLanguageCode,
+        getAllAvailableLanguageCodes,
+        getLineTextForLanguage,
+        exportLanguageFiles,
+        buildTtmlForLanguage,
+        frameRate,
+        qcLineNumbers,
+        toast,
+      ]
+    );
 
-      const files = allCodes
-        .map((code) => {
-          const content = buildVttForLanguage(code);
-          // Only include files that have content
-          if (!content.trim()) return null;
-          return {
-            name: `${code}.vtt`,
-            content,
-          };
-        })
-        .filter((f): f is { name: string; content: string } => f !== null);
+    const handleExportBilingual = useCallback(
+      (primary: string, secondary: string, format: BilingualFormat) => {
+        const cues = lines
+          .map((l) => ({
+            start: l.start,
+            end: l.end,
+            primary: getLineTextForLanguage(l, primary),
+            secondary: getLineTextForLanguage(l, secondary),
+          }))
+          .filter((c) => c.primary || c.secondary);
+        if (cues.length === 0) {
+          toast({
+            title: 'No Content Available',
+            description: 'No content found to export.',
+            variant: 'destructive',
+          });
+          return;
+        }
 
-      if (files.length === 0) {
-        toast({
-          title: 'No Content Available',
-          description: 'No content found to export.',
-          variant: 'destructive',
-        });
-        return;
-      }
+        const filename = `${
+          projectId || 'export'
+        }-${primary}-${secondary}.${format}`;
+        if (format === 'srt') {
+          downloadTextFile(filename, buildBilingualSrt(cues));
+        } else if (format === 'vtt') {
+          downloadTextFile(
+            filename,
+            buildBilingualVtt(cues),
+            'text/vtt;charset=utf-8'
+          );
+        } else {
+          downloadTextFile(
+            filename,
+            buildBilingualAss(cues, {
+              title: `${primary} / ${secondary}`,
+              settings: {
+                fontFamily,
+                subtitleScale,
+                subtitlePosition,
+                subtitleBackground,
+                subtitleOutline,
+              },
+              primaryCode: primary,
+              secondaryCode: secondary,
+              primaryColor: color1,
+              secondaryColor: color2,
+            })
+          );
+        }
+      },
+      [
+        lines,
+        getLineTextForLanguage,
+        projectId,
+        toast,
+        fontFamily,
+        subtitleScale,
+        subtitlePosition,
+        subtitleBackground,
+        subtitleOutline,
+        color1,
+        color2,
+      ]
+    );
 
-      await downloadZipFile(`${projectId || 'export'}-vtt.zip`, files);
-    }, [getAllAvailableLanguageCodes, buildVttForLanguage, projectId, toast]);
+    const handleExportTranscript = useCallback(
+      async (
+        code: string,
+        format: TranscriptFormat,
+        options: TranscriptOptions
+      ) => {
+        const paragraphs = buildTranscriptParagraphs(
+          getCuesForLanguage(code),
+          options
+        );
+        if (paragraphs.length === 0) {
+          toast({
+            title: 'No Content Available',
+            description: 'No content found to export.',
+            variant: 'destructive',
+          });
+          return;
+        }
+
+        const filename = `${projectId || 'export'}-${code}-transcript`;
+        if (format === 'html') {
+          downloadTextFile(
+            `${filename}.html`,
+            buildTranscriptHtml(paragraphs, options),
+            'text/html;charset=utf-8'
+          );
+          return;
+        }
+
+        try {
+          const blob =
+            format === 'docx'
+              ? await buildTranscriptDocx(paragraphs, options)
+              : await buildTranscriptPdf(paragraphs, options);
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `${filename}.${format}`;
+          document.body.appendChild(a);
+          a.click();
+          a.remove();
+          URL.revokeObjectURL(url);
+        } catch (e) {
+          console.error(`${format.toUpperCase()} export failed`, e);
+          toast({
+            title: 'Export Failed',
+            description:
+              format === 'docx'
+                ? 'Failed to create the Word document.'
+                : 'Failed to create the PDF.',
+            variant: 'destructive',
+          });
+        }
+      },
+      [getCuesForLanguage, projectId, toast]
+    );
+
+    const handleExportTtml = useCallback(
+      (startOffset = 0) =>
+        exportLanguageFiles(
+          'ttml',
+          (code) => buildTtmlForLanguage(code, startOffset)
+        ),
+      [exportLanguageFiles, buildTtmlForLanguage]
+    );
 
     const activeSubtitles = useMemo(() => {
       // Use external activeSubtitles if provided
@@ -1287,21 +2458,27 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       }
 
       const codes = gatherVisibleLanguages();
-      const out: Array<{ code: string; text: string }> = [];
+      const out: Array<{ code: string; text: string; color?: string }> = [];
       if (!activeLine) return out;
+      const color = activeLine.speaker
+        ? speakers[activeLine.speaker]?.color
+        : undefined;
       const src = (sourceLanguageCode || '').trim();
       if (src && codes.includes(src)) {
-        if (activeLine.text) out.push({ code: src, text: activeLine.text });
+        if (activeLine.text) {
+          out.push({ code: src, text: activeLine.text, color });
+        }
       }
       for (const code of codes) {
         if (code === src) continue;
         if (activeLine.translations && activeLine.translations[code]) {
-          out.push({ code, text: activeLine.translations[code]! });
+          out.push({ code, text: activeLine.translations[code]!, color });
         }
       }
       return out;
     }, [
       activeLine,
+      speakers,
       sourceLanguageCode,
       gatherVisibleLanguages,
       externalActiveSubtitles,
@@ -1436,6 +2613,93 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
     const onText = useCallback(() => handleExportText(), [handleExportText]);
     const onSrt = useCallback(() => handleExportSrt(), [handleExportSrt]);
     const onVtt = useCallback(() => handleExportVtt(), [handleExportVtt]);
+    const onAss = useCallback(() => handleExportAss(), [handleExportAss]);
+    const onSbv = useCallback(() => handleExportSbv(), [handleExportSbv]);
+    const onSami = useCallback(() => handleExportSami(), [handleExportSami]);
+    const onLrc = useCallback(() => handleExportLrc(), [handleExportLrc]);
+    const onVttWords = useCallback(
+      () => handleExportVttWords(),
+      [handleExportVttWords]
+    );
+    const onAssKaraoke = useCallback(
+      () => handleExportAssKaraoke(),
+      [handleExportAssKaraoke]
+    );
+    const onStl = useCallback(
+      (e: Event) => {
+        const detail = (
+          e as CustomEvent<{ startOffset?: number; frameRate?: number }>
+        ).detail;
+        return handleExportStl(
+          detail?.startOffset,
+          detail?.frameRate === 30 ? 30 : 25
+        );
+      },
+      [handleExportStl]
+    );
+    const onScc = useCallback(() => handleExportScc(), [handleExportScc]);
+    const onFcpxml = useCallback(
+      (e: Event) =>
+        handleExportNle(
+          'fcpxml',
+          (e as CustomEvent<{ frameRate?: number }>).detail?.frameRate
+        ),
+      [handleExportNle]
+    );
+    const onPremiere = useCallback(
+      (e: Event) =>
+        handleExportNle(
+          'premiere',
+          (e as CustomEvent<{ frameRate?: number }>).detail?.frameRate
+        ),
+      [handleExportNle]
+    );
+    const onBilingual = useCallback(
+      (e: Event) => {
+        const detail = (
+          e as CustomEvent<{
+            primary?: string;
+            secondary?: string;
+            format?: BilingualFormat;
+          }>
+        ).detail;
+        if (!detail?.primary || !detail?.secondary) return;
+        handleExportBilingual(
+          detail.primary,
+          detail.secondary,
+          detail.format || 'srt'
+        );
+      },
+      [handleExportBilingual]
+    );
+    const onTranscript = useCallback(
+      (e: Event) => {
+        const detail = (
+          e as CustomEvent<
+            TranscriptOptions & { language?: string; format?: TranscriptFormat }
+          >
+        ).detail;
+        if (!detail?.language) return;
+        const { language, format = 'pdf', ...options } = detail;
+        handleExportTranscript(language, format, options);
+      },
+      [handleExportTranscript]
+    );
+    const onProfile = useCallback(
+      (e: Event) => {
+        const profile = (e as CustomEvent<{ profile?: DeliveryProfileId }>)
+          .detail?.profile;
+        if (profile) handleExportProfile(profile);
+      },
+      [handleExportProfile]
+    );
+    const onTtml = useCallback(
+      (e: Event) =>
+        handleExportTtml(
+          (e as CustomEvent<{ startOffset?: number }>).detail?.startOffset
+        ),
+      [handleExportTtml]
+    );
 
     // Bridge: allow page header export controls to trigger editor handlers
     useEffect(() => {
@@ -1444,14 +2708,62 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
       document.addEventListener('cc:export:text', onText as any);
       document.addEventListener('cc:export:srt', onSrt as any);
       document.addEventListener('cc:export:vtt', onVtt as any);
+      document.addEventListener('cc:export:ass', onAss as any);
+      document.addEventListener('cc:export:sbv', onSbv);
+      document.addEventListener('cc:export:smi', onSami);
+      document.addEventListener('cc:export:lrc', onLrc);
+      document.addEventListener('cc:export:ttml', onTtml);
+      document.addEventListener('cc:export:stl', onStl);
+      document.addEventListener('cc:export:scc', onScc);
+      document.addEventListener('cc:export:vtt-words', onVttWords);
+      document.addEventListener('cc:export:ass-karaoke', onAssKaraoke);
+      document.addEventListener('cc:export:fcpxml', onFcpxml);
+      document.addEventListener('cc:export:premiere', onPremiere);
+      document.addEventListener('cc:export:bilingual', onBilingual);
+      document.addEventListener('cc:export:transcript', onTranscript);
+      document.addEventListener('cc:export:profile', onProfile);
       return () => {
         document.removeEventListener('cc:export:download', onDownload as any);
         document.removeEventListener('cc:export:video', onVideo as any);
         document.removeEventListener('cc:export:text', onText as any);
         document.removeEventListener('cc:export:srt', onSrt as any);
         document.removeEventListener('cc:export:vtt', onVtt as any);
+        document.removeEventListener('cc:export:ass', onAss as any);
+        document.removeEventListener('cc:export:sbv', onSbv);
+        document.removeEventListener('cc:export:smi', onSami);
+        document.removeEventListener('cc:export:lrc', onLrc);
+        document.removeEventListener('cc:export:ttml', onTtml);
+        document.removeEventListener('cc:export:stl', onStl);
+        document.removeEventListener('cc:export:scc', onScc);
+        document.removeEventListener('cc:export:vtt-words', onVttWords);
+        document.removeEventListener('cc:export:ass-karaoke', onAssKaraoke);
+        document.removeEventListener('cc:export:fcpxml', onFcpxml);
+        document.removeEventListener('cc:export:premiere', onPremiere);
+        document.removeEventListener('cc:export:bilingual', onBilingual);
+        document.removeEventListener('cc:export:transcript', onTranscript);
+        document.removeEventListener('cc:export:profile', onProfile);
       };
-    }, [onDownload, onVideo, onText, onSrt, onVtt]);
+    }, [
+      onDownload,
+      onVideo,
+      onText,
+      onSrt,
+      onVtt,
+      onAss,
+      onSbv,
+      onSami,
+      onLrc,
+      onTtml,
+      onStl,
+      onScc,
+      onVttWords,
+      onAssKaraoke,
+      onFcpxml,
+      onPremiere,
+      onBilingual,
+      onTranscript,
+      onProfile,
+    ]);
 
     const isMobile = useMemo(() => window.innerWidth < 768, []);
 
@@ -1525,6 +2837,19 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
           pending={pendingNewLine}
           onSubmit={commitNewLine}
         />
+        <SyncDialog
+          open={isSyncOpen}
+          onOpenChange={setIsSyncOpen}
+          lines={lines}
+          onApply={applyTimingSync}
+        />
+        <SaveConflictDialog
+          open={!!localSaveConflict}
+          conflicts={localSaveConflict?.conflicts ?? []}
+          speakers={speakers}
+          onResolve={resolveLocalSaveConflict}
+          onCancel={() => setLocalSaveConflict(null)}
+        />
         <Card className="relative">
           <CardHeader className="text-lg sm:text-xl sticky top-4 bg-card z-10 rounded-t-lg outline outline-border outline-1">
             <div className="absolute h-[1px] -bottom-[1px] left-0 right-0 z-10 bg-card" />
@@ -1548,6 +2873,48 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
                     </Button>
                   </div>
                 )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setIsSyncOpen(true)}
+                  disabled={lines.length === 0}
+                  title="Shift, stretch or convert all timings"
+                >
+                  <Timer className="h-4 w-4 mr-1" />
+                  {!isMobile && 'Sync'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant={isSpeakersOpen ? 'secondary' : 'outline'}
+                  onClick={() => setIsSpeakersOpen((v) => !v)}
+                  title="Speaker names and colours"
+                >
+                  <Users className="h-4 w-4 mr-1" />
+                  {!isMobile && 'Speakers'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant={isGlossaryOpen ? 'secondary' : 'outline'}
+                  onClick={() => setIsGlossaryOpen((v) => !v)}
+                  title="Required translations for key terms"
+                >
+                  <BookA className="h-4 w-4 mr-1" />
+                  {!isMobile && 'Glossary'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant={isQcOpen ? 'secondary' : 'outline'}
+                  onClick={() => setIsQcOpen((v) => !v)}
+                  title="Quality check"
+                >
+                  <ListChecks className="h-4 w-4 mr-1" />
+                  {!isMobile && 'QC'}
+                  {qcIssues.length > 0 && (
+                    <span className="ml-1 rounded-full bg-destructive/10 text-destructive px-1.5 text-[11px]">
+                      {qcIssues.length}
+                    </span>
+                  )}
+                </Button>
                 <Button
                   size="sm"
                   variant="outline"
@@ -1568,6 +2935,15 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
                   <Redo2 className="h-4 w-4 mr-1" />
                   {!isMobile && 'Redo'}
                 </Button>
+                <Button
+                  size="sm"
+                  variant={isHistoryOpen ? 'secondary' : 'outline'}
+                  onClick={() => setIsHistoryOpen((v) => !v)}
+                  title="History"
+                >
+                  <History className="h-4 w-4 mr-1" />
+                  {!isMobile && 'History'}
+                </Button>
                 {isCroppingMode ? (
                   <Button
                     size="sm"
@@ -1578,7 +2954,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
                   </Button>
                 ) : (
                   <>
-                    {projectStatus === 'ready' && !hasAnyTranslations && (
+                    {projectStatus === 'ready' && !hasPendingTranslations && (
                       <Button
                         size="sm"
                         variant="outline"
@@ -1649,6 +3025,81 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
             </div>
           </CardHeader>
           <CardContent className="p-0">
+            {selectedIds.size > 0 && (
+              <SelectionBar
+                count={selectedIds.size}
+                languages={languageOptions}
+                sourceLanguageCode={(sourceLanguageCode || '').trim()}
+                retranslating={batchRetranslating}
+                onDelete={deleteSelection}
+                onMerge={mergeSelection}
+                onShift={shiftSelection}
+                onRetranslate={retranslateSelection}
+                onCopy={copySelection}
+                onExportSrt={exportSelectionSrt}
+                onClear={clearSelection}
+              />
+            )}
+            {findMode && (
+              <FindReplaceBar
+                lines={lines}
+                languages={languageOptions}
+                sourceLanguageCode={(sourceLanguageCode || '').trim()}
+                showReplace={findMode === 'replace'}
+                onShowReplaceChange={(show) =>
+                  setFindMode(show ? 'replace' : 'find')
+                }
+                onSelectMatch={(match) =>
+                  focusLine(match.lineId, match.language, false)
+                }
+                onReplace={replaceMatch}
+                onReplaceAll={replaceAllMatches}
+                onClose={() => setFindMode(null)}
+              />
+            )}
+            {isQcOpen && (
+              <QcPanel
+                issues={qcIssues}
+                languages={languageOptions}
+                lineNumbers={qcLineNumbers}
+                onSelectIssue={(issue) =>
+                  focusLine(issue.lineId, issue.language)
+                }
+                onFix={applyQcIssueFixes}
+                onClose={() => setIsQcOpen(false)}
+              />
+            )}
+            {isSpeakersOpen && (
+              <SpeakerPanel
+                speakers={speakers}
+                lineCounts={speakerLineCounts}
+                onChange={updateSpeaker}
+                onAdd={addSpeaker}
+                onClose={() => setIsSpeakersOpen(false)}
+              />
+            )}
+            {isGlossaryOpen && (
+              <GlossaryPanel
+                projectEntries={glossary}
+                accountEntries={accountGlossary}
+                languages={languageOptions.filter(
+                  (l) => l.code !== sourceLanguageCode
+                )}
+                onProjectChange={setGlossary}
+                onAccountChange={setAccountGlossary}
+                onDownload={downloadTextFile}
+                projectFileName={projectId || 'export'}
+                onClose={() => setIsGlossaryOpen(false)}
+              />
+            )}
+            {isHistoryOpen && (
+              <HistoryPanel
+                entries={historyEntries}
+                index={historyIndex}
+                onJump={jumpToHistory}
+                onClose={() => setIsHistoryOpen(false)}
+              />
+            )}
             <ScrollArea ref={scrollAreaRef} className="w-full">
               <div className="space-y-3 p-4">
                 {lines.length > 0 && lines[0].start >= 0.999 && (
@@ -1666,12 +3117,39 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
                   <React.Fragment key={line.id}>
                     <div
                       data-line-id={line.id}
+                      tabIndex={-1}
                       className={
-                        'rounded-lg border border-border bg-card/60 p-2 sm:p-3 transition-colors cursor-pointer ring-inset ' +
-                        (line.id === activeId
+                        'rounded-lg border bg-card/60 p-2 sm:p-3 transition-colors cursor-pointer ring-inset outline-none focus:ring-2 focus:ring-amber-500/60 ' +
+                        (glossaryLineIds.has(line.id)
+                          ? 'border-amber-500/60 '
+                          : 'border-border ') +
+                        (selectedIds.has(line.id)
+                          ? 'ring-2 ring-sky-500/60 bg-sky-500/5'
+                          : line.id === activeId
                           ? 'ring-2 ring-primary/40 bg-primary/5'
                           : 'hover:bg-muted/40')
                       }
+                      onMouseDownCapture={(e) => {
+                        // Keep shift-click from selecting text
+                        if (e.shiftKey) e.preventDefault();
+                      }}
+                      onMouseUpCapture={(e) => {
+                        // Selecting must not seek the player
+                        if (e.shiftKey || e.metaKey || e.ctrlKey) {
+                          e.stopPropagation();
+                        }
+                      }}
+                      onClickCapture={(e) => {
+                        const target = e.target as HTMLElement;
+                        if (target.closest('button, input, textarea')) return;
+                        if (e.shiftKey || e.metaKey || e.ctrlKey) {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          toggleSelection(line.id, e.shiftKey);
+                        } else if (selectedIds.size > 0) {
+                          clearSelection();
+                        }
+                      }}
                       onClick={() => {
                         setCurrentTime(line.start);
                         setHasUserInteracted(true);
@@ -1689,7 +3167,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
                         onEditWord={editWord}
                         onEditLineText={applyLineText}
                         onDeleteLine={deleteLine}
-                        draggable={!hasAnyTranslations}
+                        draggable={!isTranslating(line.id)}
                         onDragStart={(id) => setDragSourceId(id)}
                         onDragOver={(id) => setDragOverId(id)}
                         onDrop={(id) => mergeLines(dragSourceId ?? id, id)}
@@ -1721,6 +3199,9 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = React.memo(
                         sourceLanguageName={sourceLanguageName}
                         sourceLanguageCode={sourceLanguageCode}
                         onApplyTranslationText={applyTranslationText}
+                        onMarkTranslationReviewed={markTranslationReviewed}
+                        speakers={speakers}
+                        onSetSpeaker={hasSpeakers ? setLineSpeaker : undefined}
                         onRetranslateLine={retranslateLine}
                         retranslateInFlight={retranslateInFlight}
                       />
@@ -1,8 +1,16 @@
 'use client';
 
 import React, { useMemo, useState } from 'react';
-import { Minus, Plus, Scissors, Trash2 } from 'lucide-react';
+import { Minus, Plus, Scissors, Trash2, UserRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui';
+import type { SpeakerInfo } from '@/types/transcription';
 import { cn } from '@/lib/utils';
 import LanguageBlock from '@/components/language-block';
 
@@ -22,6 +30,10 @@ export interface TranscriptionLineData {
   translations?: Record<string, string>;
   // Pending per-language placeholders shown while streaming
   pending?: Record<string, boolean>;
+  // Flagged for review once a split divided the translation
+  review?: Record<string, boolean>;
+  // Speaker id from diarization or set by hand
+  speaker?: string;
 }
 
 interface TranscriptionLineProps {
@@ -56,8 +68,12 @@ interface TranscriptionLineProps {
   sourceLanguageName?: string;
   sourceLanguageCode?: string;
   onApplyTranslationText?: (id: number, lang: string, newText: string) => void;
+  onMarkTranslationReviewed?: (id: number, lang: string) => void;
   onRetranslateLine?: (id: number, lang: string) => void;
   retranslateInFlight?: Record<string, boolean>;
+  // Speaker chip; hidden when onSetSpeaker is not given
+  speakers?: Record<string, SpeakerInfo>;
+  onSetSpeaker?: (id: number, speaker?: string) => void;
 }
 
 const formatTimestamp = (seconds: number): string => {
@@ -101,8 +117,11 @@ const TranscriptionLine: React.FC<TranscriptionLineProps> = ({
   sourceLanguageName,
   sourceLanguageCode,
   onApplyTranslationText,
+  onMarkTranslationReviewed,
   onRetranslateLine,
   retranslateInFlight,
+  speakers,
+  onSetSpeaker,
 }) => {
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [editingValue, setEditingValue] = useState('');
@@ -173,17 +192,17 @@ const TranscriptionLine: React.FC<TranscriptionLineProps> = ({
     onSeek(line.start);
   };
 
-  const hasTranslationsOrPending = useMemo(
-    () =>
-      (line.translations && Object.keys(line.translations).length > 0) ||
-      (line.pending && Object.keys(line.pending).length > 0),
-    [line.translations, line.pending]
+  const speaker = line.speaker ? speakers?.[line.speaker] : undefined;
+
+  const hasPending = useMemo(
+    () => !!line.pending && Object.keys(line.pending).length > 0,
+    [line.pending]
   );
 
   return (
     <div
       className={cn(draggable && 'cursor-grab', className)}
-      draggable={draggable && !hasTranslationsOrPending}
+      draggable={draggable && !hasPending}
       onClick={handleLineClick}
       onMouseDown={handleMouseDown}
       onMouseUp={handleMouseUp}
@@ -212,6 +231,60 @@ const TranscriptionLine: React.FC<TranscriptionLineProps> = ({
           <span>{formatTimestamp(line.start)}</span>
           <span>:</span>
           <span>{formatTimestamp(line.end)}</span>
+          {onSetSpeaker && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  type="button"
+                  className={cn(
+                    'ml-1 inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[11px] hover:bg-muted',
+                    !speaker && 'border-dashed'
+                  )}
+                  style={speaker ? { borderColor: speaker.color } : undefined}
+                  title="Speaker"
+                >
+                  {speaker ? (
+                    <span
+                      className="h-2 w-2 rounded-full"
+                      style={{ backgroundColor: speaker.color }}
+                    />
+                  ) : (
+                    <UserRound className="h-3 w-3" />
+                  )}
+                  {speaker ? speaker.name : 'Speaker'}
+                </button>
+              </DropdownMenuTrigger>
+              {/* Keep picks in the portal from seeking through the line */}
+              <DropdownMenuContent
+                align="start"
+                onClick={(e) => e.stopPropagation()}
+                onMouseUp={(e) => e.stopPropagation()}
+              >
+                {Object.entries(speakers || {}).map(([id, info]) => (
+                  <DropdownMenuItem
+                    key={id}
+                    onSelect={() => onSetSpeaker(line.id, id)}
+                  >
+                    <span
+                      className="mr-2 h-2.5 w-2.5 rounded-full"
+                      style={{ backgroundColor: info.color }}
+                    />
+                    {info.name}
+                  </DropdownMenuItem>
+                ))}
+                {line.speaker && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onSelect={() => onSetSpeaker(line.id, undefined)}
+                    >
+                      No speaker
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
         </div>
 
         <div className="flex items-center gap-1 flex-wrap">
@@ -458,6 +531,12 @@ const TranscriptionLine: React.FC<TranscriptionLineProps> = ({
               retranslating={
                 retranslateInFlight ? !!retranslateInFlight[reKey] : false
               }
+              needsReview={!!line.review?.[lang]}
+              onMarkReviewed={
+                onMarkTranslationReviewed
+                  ? () => onMarkTranslationReviewed(line.id, lang)
+                  : undefined
+              }
             />
           );
         })}
@@ -47,7 +47,8 @@ interface VideoPlayerProps {
   subtitlePosition?: 'top' | 'middle' | 'bottom';
   subtitleBackground?: 'none' | 'black' | 'white';
   subtitleOutline?: 'none' | 'thin' | 'medium' | 'thick' | string;
-  activeSubtitles?: Array<{ code: string; text: string }>;
+  // `color` (the line's speaker colour) overrides the subtitle colours
+  activeSubtitles?: Array<{ code: string; text: string; color?: string }>;
   onVideoClick?: (currentTime: number) => void;
   isEditingMode?: boolean;
   onExitEditingMode?: () => void;
@@ -58,6 +59,8 @@ interface VideoPlayerRef {
   play: () => void;
   pause: () => void;
   togglePlay: () => void;
+  setPlaybackRate: (rate: number) => void;
+  getCurrentTime: () => number;
 }
 
 const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
@@ -132,6 +135,10 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
             }
           }
         },
+        setPlaybackRate: (rate: number) => {
+          if (videoRef.current) videoRef.current.playbackRate = rate;
+        },
+        getCurrentTime: () => videoRef.current?.currentTime ?? 0,
       }),
       []
     );
@@ -347,7 +354,9 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
 
       // Only update if the difference is significant (more than 0.5 seconds)
       // This indicates an external seek operation (like clicking a transcription line)
-      if (Math.abs(video.currentTime - currentTime) > 0.5) {
+      // While paused nothing moves the video, so small steps are seeks too
+      const threshold = video.paused ? 0.01 : 0.5;
+      if (Math.abs(video.currentTime - currentTime) > threshold) {
         isSeekingRef.current = true;
         video.currentTime = currentTime;
         setInternalCurrentTime(currentTime);
@@ -553,7 +562,13 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
               <div className="flex flex-col items-center gap-2 w-full">
                 {(activeSubtitles && activeSubtitles.length > 0
                   ? activeSubtitles
-                  : [{ code: 'src', text: activeLineText as string }]
+                  : [
+                      {
+                        code: 'src',
+                        text: activeLineText as string,
+                        color: undefined,
+                      },
+                    ]
                 ).map((item, idx) => (
                   <div
                     key={`${item.code}-${idx}`}
@@ -573,11 +588,12 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
                       )}
                       style={{
                         color:
-                          idx === 0
+                          item.color ||
+                          (idx === 0
                             ? subtitleColor || '#FFFFFF'
                             : subtitleSecondaryColor ||
                               subtitleColor ||
-                              '#FFFFFF',
+                              '#FFFFFF'),
                         fontFamily: subtitleFontFamily
                           ? `'${subtitleFontFamily}', system-ui, sans-serif`
                           : undefined,
@@ -0,0 +1,446 @@
+'use client';
+
+import React, {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { Crosshair, Loader2, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { decodeWaveform, WaveformData } from '@/lib/waveform';
+
+export type TimelineEdit = 'move' | 'start' | 'end';
+
+interface TimelineLine {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface WaveformTimelineProps {
+  // blob: URL of the local video, or the project's audio URL
+  mediaUrl?: string;
+  lines: TimelineLine[];
+  currentTime: number;
+  activeId?: number;
+  onSeek: (time: number) => void;
+  onRetime: (
+    id: number,
+    start: number,
+    end: number,
+    edit: TimelineEdit
+  ) => void;
+  className?: string;
+}
+
+interface DragState {
+  id: number;
+  edit: TimelineEdit;
+  originX: number;
+  start: number;
+  end: number;
+  // Span under the pointer, committed on release
+  nextStart: number;
+  nextEnd: number;
+  // Neighbouring lines bound the drag so lines never overlap
+  min: number;
+  max: number;
+}
+
+const MIN_ZOOM = 10; // px per second
+const MAX_ZOOM = 400;
+const DEFAULT_ZOOM = 60;
+const MIN_LINE_DURATION = 0.1;
+const RULER_HEIGHT = 16;
+const WAVE_HEIGHT = 56;
+const BLOCK_HEIGHT = 28;
+const TICK_STEPS = [0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+const formatTick = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  const whole = Number.isInteger(s);
+  const text = whole ? String(s) : s.toFixed(1);
+  return `${m}:${text.padStart(whole ? 2 : 4, '0')}`;
+};
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.max(min, Math.min(max, value));
+
+const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
+  mediaUrl,
+  lines,
+  currentTime,
+  activeId,
+  onSeek,
+  onRetime,
+  className,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // Scroll position to restore after a zoom, keeping the anchor time in place
+  const zoomAnchorRef = useRef<{ time: number; offset: number } | null>(null);
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  const [follow, setFollow] = useState(true);
+  const [preview, setPreview] = useState<{
+    id: number;
+    start: number;
+    end: number;
+  } | null>(null);
+
+  // Decode the media once per URL
+  useEffect(() => {
+    if (!mediaUrl) {
+      setWaveform(null);
+      setStatus('idle');
+      return;
+    }
+    let cancelled = false;
+    setStatus('loading');
+    decodeWaveform(mediaUrl)
+      .then((data) => {
+        if (cancelled) return;
+        setWaveform(data);
+        setStatus('idle');
+      })
+      .catch((error) => {
+        console.error('Failed to decode waveform:', error);
+        if (!cancelled) setStatus('error');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaUrl]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() =>
+      setViewportWidth(el.clientWidth)
+    );
+    observer.observe(el);
+    setViewportWidth(el.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  const duration = useMemo(
+    () =>
+      Math.max(
+        1,
+        waveform?.duration ?? 0,
+        lines.reduce((max, l) => Math.max(max, l.end), 0)
+      ),
+    [waveform, lines]
+  );
+  const contentWidth = Math.ceil(duration * zoom);
+
+  const zoomTo = useCallback(
+    (next: number, offset?: number) => {
+      const el = scrollRef.current;
+      const target = clamp(next, MIN_ZOOM, MAX_ZOOM);
+      if (!el || target === zoom) return;
+      // Anchor on the pointer, or on the playhead when it is in view
+      const playheadOffset = currentTime * zoom - el.scrollLeft;
+      const anchor =
+        offset ??
+        (playheadOffset >= 0 && playheadOffset <= el.clientWidth
+          ? playheadOffset
+          : el.clientWidth / 2);
+      zoomAnchorRef.current = {
+        time: (el.scrollLeft + anchor) / zoom,
+        offset: anchor,
+      };
+      setZoom(target);
+    },
+    [zoom, currentTime]
+  );
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    const anchor = zoomAnchorRef.current;
+    if (!el || !anchor) return;
+    zoomAnchorRef.current = null;
+    el.scrollLeft = Math.max(0, anchor.time * zoom - anchor.offset);
+    setScrollLeft(el.scrollLeft);
+  }, [zoom]);
+
+  // Ctrl/Cmd + wheel zooms; needs a non-passive listener to stop page zoom
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const offset = e.clientX - el.getBoundingClientRect().left;
+      zoomTo(zoom * (e.deltaY < 0 ? 1.25 : 0.8), offset);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [zoom, zoomTo]);
+
+  // Page the view along with playback when the playhead leaves it
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !follow || dragRef.current) return;
+    const x = currentTime * zoom;
+    if (x < el.scrollLeft || x > el.scrollLeft + el.clientWidth - 24) {
+      el.scrollLeft = Math.max(0, x - el.clientWidth * 0.25);
+    }
+  }, [currentTime, zoom, follow]);
+
+  // Draw only the visible slice of the waveform
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || viewportWidth === 0) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.floor(viewportWidth * dpr);
+    canvas.height = Math.floor(WAVE_HEIGHT * dpr);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, viewportWidth, WAVE_HEIGHT);
+    if (!waveform) return;
+
+    const { peaks, peaksPerSecond } = waveform;
+    const mid = WAVE_HEIGHT / 2;
+    ctx.fillStyle = getComputedStyle(canvas).color;
+    for (let x = 0; x < viewportWidth; x++) {
+      const from = Math.floor(((scrollLeft + x) / zoom) * peaksPerSecond);
+      const to = Math.max(
+        from + 1,
+        Math.floor(((scrollLeft + x + 1) / zoom) * peaksPerSecond)
+      );
+      let max = 0;
+      for (let i = from; i < to && i < peaks.length; i++) {
+        if (peaks[i] > max) max = peaks[i];
+      }
+      const h = Math.max(1, max * (WAVE_HEIGHT - 4));
+      ctx.fillRect(x, mid - h / 2, 1, h);
+    }
+  }, [waveform, zoom, scrollLeft, viewportWidth]);
+
+  const tickStep = useMemo(
+    () => TICK_STEPS.find((s) => s * zoom >= 70) ?? 600,
+    [zoom]
+  );
+  const visibleFrom = scrollLeft / zoom;
+  const visibleTo = (scrollLeft + viewportWidth) / zoom;
+  const ticks = useMemo(() => {
+    const out: number[] = [];
+    const first = Math.floor(visibleFrom / tickStep) * tickStep;
+    for (let t = first; t <= visibleTo; t += tickStep) out.push(t);
+    return out;
+  }, [visibleFrom, visibleTo, tickStep]);
+
+  const sorted = useMemo(
+    () => [...lines].sort((a, b) => a.start - b.start),
+    [lines]
+  );
+  const visibleLines = sorted.filter(
+    (l) => l.end >= visibleFrom - 1 && l.start <= visibleTo + 1
+  );
+
+  const beginDrag = (
+    e: React.PointerEvent,
+    line: TimelineLine,
+    edit: TimelineEdit
+  ) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const idx = sorted.findIndex((l) => l.id === line.id);
+    const prev = sorted[idx - 1];
+    const next = sorted[idx + 1];
+    dragRef.current = {
+      id: line.id,
+      edit,
+      originX: e.clientX,
+      start: line.start,
+      end: line.end,
+      nextStart: line.start,
+      nextEnd: line.end,
+      min: prev ? Math.min(prev.end, line.start) : 0,
+      max: next
+        ? Math.max(next.start, line.end)
+        : Math.max(duration, line.end),
+    };
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setPreview({ id: line.id, start: line.start, end: line.end });
+  };
+
+  const updateDrag = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dt = (e.clientX - drag.originX) / zoom;
+    let { start, end } = drag;
+    if (drag.edit === 'move') {
+      const length = drag.end - drag.start;
+      start = clamp(drag.start + dt, drag.min, drag.max - length);
+      end = start + length;
+    } else if (drag.edit === 'start') {
+      start = clamp(drag.start + dt, drag.min, drag.end - MIN_LINE_DURATION);
+    } else {
+      end = clamp(drag.end + dt, drag.start + MIN_LINE_DURATION, drag.max);
+    }
+    drag.nextStart = start;
+    drag.nextEnd = end;
+    setPreview({ id: drag.id, start, end });
+  };
+
+  const endDrag = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setPreview(null);
+    if (!drag) return;
+    const moved =
+      Math.abs(drag.nextStart - drag.start) > 0.001 ||
+      Math.abs(drag.nextEnd - drag.end) > 0.001;
+    if (moved) {
+      onRetime(drag.id, drag.nextStart, drag.nextEnd, drag.edit);
+    } else if (drag.edit === 'move') {
+      // A click without dragging jumps to the line
+      onSeek(drag.start);
+    }
+  };
+
+  const handleBackgroundClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(clamp((e.clientX - rect.left) / zoom, 0, duration));
+  };
+
+  return (
+    <div className={cn('rounded-lg border bg-card shadow-sm', className)}>
+      <div className="flex items-center gap-2 px-3 py-2 text-sm">
+        <span className="font-medium">Timeline</span>
+        {status === 'loading' && (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Decoding audio…
+          </span>
+        )}
+        {status === 'error' && (
+          <span className="text-xs text-muted-foreground">
+            Waveform unavailable
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            size="sm"
+            variant={follow ? 'secondary' : 'ghost'}
+            className="h-7 w-7 p-0"
+            onClick={() => setFollow((v) => !v)}
+            title="Follow playback"
+            aria-pressed={follow}
+          >
+            <Crosshair className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            disabled={zoom <= MIN_ZOOM}
+            onClick={() => zoomTo(zoom / 1.5)}
+            title="Zoom out (Ctrl+wheel)"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            disabled={zoom >= MAX_ZOOM}
+            onClick={() => zoomTo(zoom * 1.5)}
+            title="Zoom in (Ctrl+wheel)"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div
+        ref={scrollRef}
+        className="relative overflow-x-auto overflow-y-hidden border-t"
+        onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+      >
+        <div
+          className="relative cursor-text"
+          style={{
+            width: contentWidth,
+            height: RULER_HEIGHT + WAVE_HEIGHT + BLOCK_HEIGHT + 8,
+          }}
+          onClick={handleBackgroundClick}
+        >
+          {ticks.map((t) => (
+            <div
+              key={t}
+              className="absolute top-0 border-l border-border pl-1 text-[10px] leading-none text-muted-foreground pointer-events-none"
+              style={{ left: t * zoom, height: RULER_HEIGHT }}
+            >
+              {formatTick(t)}
+            </div>
+          ))}
+          <canvas
+            ref={canvasRef}
+            className="sticky left-0 block text-muted-foreground/60 pointer-events-none"
+            style={{
+              width: viewportWidth,
+              height: WAVE_HEIGHT,
+              marginTop: RULER_HEIGHT,
+            }}
+          />
+          {visibleLines.map((line) => {
+            const shown = preview?.id === line.id ? preview : line;
+            return (
+              <div
+                key={line.id}
+                className={cn(
+                  'absolute rounded-sm border text-[11px] leading-tight px-1.5 py-0.5 overflow-hidden whitespace-nowrap select-none touch-none',
+                  preview?.id === line.id ? 'cursor-grabbing' : 'cursor-grab',
+                  line.id === activeId
+                    ? 'border-primary bg-primary/30'
+                    : 'border-primary/40 bg-primary/10 hover:bg-primary/20'
+                )}
+                style={{
+                  left: shown.start * zoom,
+                  width: Math.max(2, (shown.end - shown.start) * zoom),
+                  top: RULER_HEIGHT + WAVE_HEIGHT + 4,
+                  height: BLOCK_HEIGHT,
+                }}
+                title={line.text}
+                onClick={(e) => e.stopPropagation()}
+                onPointerDown={(e) => beginDrag(e, line, 'move')}
+                onPointerMove={updateDrag}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+              >
+                <div
+                  className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize hover:bg-primary/60"
+                  onPointerDown={(e) => beginDrag(e, line, 'start')}
+                />
+                {line.text}
+                <div
+                  className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize hover:bg-primary/60"
+                  onPointerDown={(e) => beginDrag(e, line, 'end')}
+                />
+              </div>
+            );
+          })}
+          <div
+            className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+            style={{ left: currentTime * zoom }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformTimeline;
@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { HistoryLabel, linePosition } from '@/lib/line-history';
+import {
+  setLineIn,
+  setLineOut,
+  splitLineAtTime,
+} from '@/lib/subtitles/timing';
+import type { TranscriptionLineData } from './use-transcription-editor';
+
+export interface TimingPlayer {
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  skipBackward: (seconds?: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  // Exact playhead; state updates lag behind a playing video
+  getCurrentTime: () => number;
+}
+
+interface UseTimingModeProps {
+  enabled: boolean;
+  lines: TranscriptionLineData[];
+  currentTime: number;
+  player: TimingPlayer;
+  commitLinesUpdate: (
+    updater: (prev: TranscriptionLineData[]) => TranscriptionLineData[],
+    label?: HistoryLabel<TranscriptionLineData>
+  ) => void;
+  onExit: () => void;
+}
+
+interface UseTimingModeReturn {
+  // Line that receives in- and out-points
+  lineId: number | null;
+  // Shuttle speed; negative while rewinding, 0 when stopped
+  shuttle: number;
+}
+
+const SHUTTLE_SPEEDS = [1, 2, 4];
+
+// Rewinding steps the playhead back since media elements cannot play in
+// reverse
+const REWIND_TICK = 0.25;
+
+const faster = (speed: number) =>
+  SHUTTLE_SPEEDS.find((s) => s > speed) ??
+  SHUTTLE_SPEEDS[SHUTTLE_SPEEDS.length - 1];
+
+// Line under the playhead, else the next one to start
+const lineAt = (lines: TranscriptionLineData[], time: number) =>
+  lines.find((l) => time >= l.start && time <= l.end) ??
+  lines.find((l) => l.start > time) ??
+  lines[lines.length - 1];
+
+export const useTimingMode = ({
+  enabled,
+  lines,
+  currentTime,
+  player,
+  commitLinesUpdate,
+  onExit,
+}: UseTimingModeProps): UseTimingModeReturn => {
+  const { toast } = useToast();
+  const [pickedId, setPickedId] = useState<number | null>(null);
+  const [shuttle, setShuttle] = useState(0);
+
+  const lineId =
+    pickedId !== null && lines.some((l) => l.id === pickedId)
+      ? pickedId
+      : lineAt(lines, currentTime)?.id ?? null;
+
+  useEffect(() => {
+    if (enabled) return;
+    setShuttle(0);
+    setPickedId(null);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (shuttle === 0) return;
+    if (shuttle > 0) {
+      player.setPlaybackRate(shuttle);
+      player.play();
+      return () => player.setPlaybackRate(1);
+    }
+    player.pause();
+    const timer = setInterval(
+      () => player.skipBackward(REWIND_TICK * -shuttle),
+      REWIND_TICK * 1000
+    );
+    return () => clearInterval(timer);
+  }, [shuttle, player]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const goTo = (offset: number) => {
+      const index = lines.findIndex((l) => l.id === lineId);
+      const target = lines[index + offset];
+      if (!target) return;
+      setPickedId(target.id);
+      player.seek(target.start);
+    };
+
+    const handler = (e: KeyboardEvent) => {
+      const active = document.activeElement as HTMLElement | null;
+      const tag = (active?.tagName || '').toLowerCase();
+      const isEditable =
+        tag === 'input' ||
+        tag === 'textarea' ||
+        (active && active.isContentEditable);
+      if (isEditable || e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const time = player.getCurrentTime();
+      switch (e.key.toLowerCase()) {
+        case 'j':
+          setShuttle((s) => (s < 0 ? -faster(-s) : -SHUTTLE_SPEEDS[0]));
+          break;
+        case 'k':
+          setShuttle(0);
+          player.pause();
+          break;
+        case 'l':
+          setShuttle((s) => (s > 0 ? faster(s) : SHUTTLE_SPEEDS[0]));
+          break;
+        case 'i':
+          if (lineId === null) break;
+          commitLinesUpdate(
+            (prev) => setLineIn(prev, lineId, time) ?? prev,
+            (prev) => `Set in-point on line ${linePosition(prev, lineId)}`
+          );
+          break;
+        case 'o': {
+          if (lineId === null) break;
+          if (!setLineOut(lines, lineId, time)) {
+            toast({
+              title: 'Out-point Before Start',
+              description: 'Move the playhead past the start of the line.',
+              variant: 'destructive',
+            });
+            break;
+          }
+          commitLinesUpdate(
+            (prev) => setLineOut(prev, lineId, time) ?? prev,
+            (prev) => `Set out-point on line ${linePosition(prev, lineId)}`
+          );
+          // The next line is usually timed straight after
+          const index = lines.findIndex((l) => l.id === lineId);
+          if (lines[index + 1]) setPickedId(lines[index + 1].id);
+          break;
+        }
+        case 's': {
+          if (lineId === null) break;
+          const split = splitLineAtTime(lines, lineId, time);
+          if (!split) {
+            toast({
+              title: 'Nothing to Split',
+              description: 'The line needs at least two words.',
+              variant: 'destructive',
+            });
+            break;
+          }
+          commitLinesUpdate(
+            (prev) => splitLineAtTime(prev, lineId, time)?.lines ?? prev,
+            (prev) => `Split line ${linePosition(prev, lineId)} at playhead`
+          );
+          setPickedId(split.secondId);
+          break;
+        }
+        case 'arrowup':
+          goTo(-1);
+          break;
+        case 'arrowdown':
+          goTo(1);
+          break;
+        case 'escape':
+          onExit();
+          break;
+        default:
+          return;
+      }
+      // Keep the editor's own shortcuts from handling the same key
+      e.preventDefault();
+      e.stopPropagation();
+    };
+
+    // Capture phase, ahead of the editor's listeners
+    window.addEventListener('keydown', handler, true);
+    return () => window.removeEventListener('keydown', handler, true);
+  }, [enabled, lines, lineId, player, commitLinesUpdate, onExit, toast]);
+
+  return { lineId, shuttle };
+};
@@ -2,6 +2,49 @@
 
 import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import type { GlossaryEntry, SpeakerInfo } from '@/types/transcription';
+import { mergeSpeakers, resolveSpeakers } from '@/lib/subtitles/speakers';
+import {
+  glossaryForLanguage,
+  mergeGlossaries,
+} from '@/lib/subtitles/glossary';
+import { useAccountGlossary } from '@/lib/store/glossary';
+import {
+  createHistoryEntry,
+  emptyHistory,
+  formatShift,
+  HistoryEntry,
+  HistoryLabel,
+  HistoryState,
+  linePosition,
+  pushHistory,
+  travelHistory,
+} from '@/lib/line-history';
+import {
+  deleteDraftFromIndexedDB,
+  getDraftFromIndexedDB,
+  saveDraftToIndexedDB,
+} from '@/lib/file-system-access';
+import {
+  findLineConflicts,
+  LineConflict,
+  MergeSide,
+  mergeLineVersions,
+} from '@/lib/line-merge';
+import {
+  hasLineDiff,
+  LineDiffSummary,
+  summarizeLineDiff,
+} from '@/lib/line-diff';
+import {
+  estimateWordTimings,
+  updateWordTimings,
+} from '@/lib/subtitles/segments';
+import {
+  clearReview,
+  mergeLinePair,
+  splitLineAtWord,
+} from '@/lib/subtitles/restructure';
 
 interface TranscriptionJsonWord {
   word: string;
@@ -17,10 +60,16 @@ interface TranscriptionJsonSegment {
   words: TranscriptionJsonWord[];
   translations?: Record<string, string>;
   pending?: Record<string, boolean>;
+  review?: Record<string, boolean>;
+  speaker?: string;
 }
 
 interface TranscriptionJson {
   segments: TranscriptionJsonSegment[];
+  speakers?: Record<string, SpeakerInfo>;
+  glossary?: GlossaryEntry[];
+  // Incremented on every save; used to detect concurrent edits
+  revision?: number;
 }
 
 export interface TranscriptionLineData {
@@ -31,6 +80,25 @@ export interface TranscriptionLineData {
   words: TranscriptionJsonWord[];
   translations?: Record<string, string>;
   pending?: Record<string, boolean>;
+  review?: Record<string, boolean>;
+  speaker?: string;
+}
+
+export interface SaveConflict {
+  // Lines this tab tried to save
+  local: TranscriptionLineData[];
+  // The newer version saved elsewhere
+  remote: TranscriptionJson;
+  conflicts: LineConflict<TranscriptionLineData>[];
+}
+
+export interface RecoverableDraft {
+  savedAt: number;
+  lines: TranscriptionLineData[];
+  speakers?: Record<string, SpeakerInfo>;
+  glossary?: GlossaryEntry[];
+  // Changes against the server transcription
+  summary: LineDiffSummary;
 }
 
 interface UseTranscriptionEditorProps {
@@ -38,6 +106,8 @@ interface UseTranscriptionEditorProps {
   projectId?: string;
   sourceLanguageCode?: string;
   onDirtyChange?: (dirty: boolean) => void;
+  // Off while another mode (keyboard timing) owns the keyboard
+  keyboardShortcutsEnabled?: boolean;
 }
 
 interface UseTranscriptionEditorReturn {
@@ -54,12 +124,18 @@ interface UseTranscriptionEditorReturn {
   retranslateInFlight: Record<string, boolean>;
   visibleLanguages: Record<string, boolean>;
   currentTime: number;
+  // Names and colours by speaker id; lines without an entry use defaults
+  speakers: Record<string, SpeakerInfo>;
+  // Project glossary; the account glossary lives in its own store
+  glossary: GlossaryEntry[];
+  recoverableDraft: RecoverableDraft | null;
+  saveConflict: SaveConflict | null;
 
   // Computed values
   activeId: number;
   activeLine: TranscriptionLineData | undefined;
   activeLineText: string;
-  activeSubtitles: Array<{ code: string; text: string }>;
+  activeSubtitles: Array<{ code: string; text: string; color?: string }>;
   hasAnyTranslations: boolean;
   canUndo: boolean;
   canRedo: boolean;
@@ -79,10 +155,13 @@ interface UseTranscriptionEditorReturn {
     React.SetStateAction<Record<string, boolean>>
   >;
   setCurrentTime: (time: number) => void;
+  updateSpeaker: (id: string, info: SpeakerInfo) => void;
+  setGlossary: (entries: GlossaryEntry[]) => void;
 
   // Line operations
   applyLineText: (id: number, newText: string) => void;
   applyTranslationText: (id: number, lang: string, newText: string) => void;
+  markTranslationReviewed: (id: number, lang: string) => void;
   adjustStart: (id: number, delta: number) => void;
   adjustEnd: (id: number, delta: number) => void;
   editWord: (id: number, wordIndex: number, newValue: string) => void;
@@ -91,7 +170,8 @@ interface UseTranscriptionEditorReturn {
   cropAtWord: (id: number, wordIndex: number) => void;
   beginCrop: (id: number) => void;
   commitLinesUpdate: (
-    updater: (prev: TranscriptionLineData[]) => TranscriptionLineData[]
+    updater: (prev: TranscriptionLineData[]) => TranscriptionLineData[],
+    label?: HistoryLabel<TranscriptionLineData>
   ) => void;
 
   // Line insertion
@@ -100,11 +180,20 @@ interface UseTranscriptionEditorReturn {
   commitNewLine: (rawText: string) => void;
 
   // History
+  history: HistoryEntry<TranscriptionLineData>[];
+  historyIndex: number;
   undo: () => void;
   redo: () => void;
+  jumpToHistory: (index: number) => void;
 
   // Save
   handleSave: () => Promise<void>;
+  resolveSaveConflict: (choices: Record<number, MergeSide>) => void;
+  cancelSaveConflict: () => void;
+
+  // Draft recovery
+  restoreDraft: () => void;
+  discardDraft: () => void;
 
   // Retranslation
   retranslateLine: (lineId: number, lang: string) => Promise<void>;
@@ -125,11 +214,32 @@ interface PendingNewLine {
 const clamp = (value: number, min: number, max: number): number =>
   Math.max(min, Math.min(max, value));
 
+const segmentsToLines = (
+  segments: TranscriptionJsonSegment[]
+): TranscriptionLineData[] =>
+  segments
+    .map((s) => ({
+      id: s.id,
+      start: s.start,
+      end: s.end,
+      text: s.text,
+      words: s.words,
+      translations: s.translations,
+      pending: s.pending,
+      review: s.review,
+      speaker: s.speaker,
+    }))
+    .sort((a, b) => a.start - b.start);
+
+// Delay between the last edit and persisting the draft
+const DRAFT_AUTOSAVE_DELAY = 1000;
+
 export const useTranscriptionEditor = ({
   transcription,
   projectId,
   sourceLanguageCode,
   onDirtyChange,
+  keyboardShortcutsEnabled = true,
 }: UseTranscriptionEditorProps): UseTranscriptionEditorReturn => {
   const { toast } = useToast();
   const [lines, setLines] = useState<TranscriptionLineData[]>([]);
@@ -150,40 +260,40 @@ export const useTranscriptionEditor = ({
     Record<string, boolean>
   >({});
   const [currentTime, setCurrentTime] = useState(0);
+  const [storedSpeakers, setStoredSpeakers] = useState<
+    Record<string, SpeakerInfo>
+  >({});
+  const [glossary, setStoredGlossary] = useState<GlossaryEntry[]>([]);
+  const [accountGlossary] = useAccountGlossary();
+  const [recoverableDraft, setRecoverableDraft] =
+    useState<RecoverableDraft | null>(null);
+  const draftCheckedForRef = useRef<string | null>(null);
+  const [saveConflict, setSaveConflict] = useState<SaveConflict | null>(null);
+  // Last version known to be on the server, which the next save builds on
+  const savedBaseRef = useRef<{ json: TranscriptionJson; revision: number }>({
+    json: { segments: [] },
+    revision: 0,
+  });
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
-  // History (Undo/Redo)
-  const UNDO_LIMIT = 6;
-  const [undoStack, setUndoStack] = useState<TranscriptionLineData[][]>([]);
-  const [redoStack, setRedoStack] = useState<TranscriptionLineData[][]>([]);
-
-  const cloneLines = (arr: TranscriptionLineData[]): TranscriptionLineData[] =>
-    arr.map((l) => ({
-      id: l.id,
-      start: l.start,
-      end: l.end,
-      text: l.text,
-      words: l.words.map((w) => ({
-        word: w.word,
-        start: w.start,
-        end: w.end,
-      })),
-      translations: l.translations ? { ...l.translations } : undefined,
-      pending: l.pending ? { ...l.pending } : undefined,
-    }));
+  // History (Undo/Redo): labeled patches, see lib/line-history
+  const [history, setHistory] = useState<
+    HistoryState<TranscriptionLineData>
+  >(emptyHistory);
 
   const commitLinesUpdate = useCallback(
-    (updater: (prev: TranscriptionLineData[]) => TranscriptionLineData[]) => {
+    (
+      updater: (prev: TranscriptionLineData[]) => TranscriptionLineData[],
+      label?: HistoryLabel<TranscriptionLineData>
+    ) => {
       let didChange = false;
       setLines((prev) => {
         const nextLines = updater(prev);
         if (nextLines === prev) return prev;
+        const entry = createHistoryEntry(prev, nextLines, label);
+        if (!entry) return prev;
         didChange = true;
-        setUndoStack((uPrev) => {
-          const next = [...uPrev, cloneLines(prev)];
-          return next.length > UNDO_LIMIT ? next.slice(1) : next;
-        });
-        setRedoStack([]);
+        setHistory((h) => pushHistory(h, entry));
         return nextLines;
       });
       if (didChange) setIsDirty(true);
@@ -191,36 +301,29 @@ export const useTranscriptionEditor = ({
     []
   );
 
-  const canUndo = undoStack.length > 0;
-  const canRedo = redoStack.length > 0;
+  const canUndo = history.index > 0;
+  const canRedo = history.index < history.entries.length;
+
+  const jumpToHistory = useCallback(
+    (index: number) => {
+      const target = Math.max(0, Math.min(history.entries.length, index));
+      if (target === history.index) return;
+      setLines((current) => travelHistory(current, history, target));
+      setHistory((h) => ({ ...h, index: target }));
+      setIsDirty(true);
+    },
+    [history]
+  );
 
   const undo = useCallback(() => {
     if (!canUndo) return;
-    setLines((current) => {
-      const prevSnapshot = undoStack[undoStack.length - 1];
-      setUndoStack((stack) => stack.slice(0, -1));
-      setRedoStack((stack) => {
-        const next = [...stack, cloneLines(current)];
-        return next.length > UNDO_LIMIT ? next.slice(1) : next;
-      });
-      return cloneLines(prevSnapshot);
-    });
-    setIsDirty(true);
-  }, [canUndo, undoStack]);
+    jumpToHistory(history.index - 1);
+  }, [canUndo, history.index, jumpToHistory]);
 
   const redo = useCallback(() => {
     if (!canRedo) return;
-    setLines((current) => {
-      const nextSnapshot = redoStack[redoStack.length - 1];
-      setRedoStack((stack) => stack.slice(0, -1));
-      setUndoStack((stack) => {
-        const next = [...stack, cloneLines(current)];
-        return next.length > UNDO_LIMIT ? next.slice(1) : next;
-      });
-      return cloneLines(nextSnapshot);
-    });
-    setIsDirty(true);
-  }, [canRedo, redoStack]);
+    jumpToHistory(history.index + 1);
+  }, [canRedo, history.index, jumpToHistory]);
 
   const gatherVisibleLanguages = useCallback((): string[] => {
     return Object.entries(visibleLanguages)
@@ -234,22 +337,17 @@ export const useTranscriptionEditor = ({
     if (!transcription || !transcription.segments) {
       setLines([]);
       setIsDirty(false);
-      setUndoStack([]);
-      setRedoStack([]);
+      setHistory(emptyHistory());
       return;
     }
 
-    const mapped: TranscriptionLineData[] = transcription.segments
-      .map((s) => ({
-        id: s.id,
-        start: s.start,
-        end: s.end,
-        text: s.text,
-        words: s.words,
-        translations: s.translations,
-        pending: s.pending,
-      }))
-      .sort((a, b) => a.start - b.start);
+    const mapped = segmentsToLines(transcription.segments);
+    savedBaseRef.current = {
+      json: transcription,
+      revision: transcription.revision ?? 0,
+    };
+    setStoredSpeakers(transcription.speakers || {});
+    setStoredGlossary(transcription.glossary || []);
 
     // Only update if the data has actually changed
     setLines((prevLines) => {
@@ -269,7 +367,11 @@ export const useTranscriptionEditor = ({
           prevLine.text !== newLine.text ||
           JSON.stringify(prevLine.translations) !==
             JSON.stringify(newLine.translations) ||
-          JSON.stringify(prevLine.pending) !== JSON.stringify(newLine.pending)
+          JSON.stringify(prevLine.pending) !==
+            JSON.stringify(newLine.pending) ||
+          JSON.stringify(prevLine.review) !==
+            JSON.stringify(newLine.review) ||
+          prevLine.speaker !== newLine.speaker
         );
       });
 
@@ -277,8 +379,7 @@ export const useTranscriptionEditor = ({
     });
 
     setIsDirty(false);
-    setUndoStack([]);
-    setRedoStack([]);
+    setHistory(emptyHistory());
   }, [transcription]);
 
   // Notify parent when dirty state changes
@@ -286,6 +387,63 @@ export const useTranscriptionEditor = ({
     if (onDirtyChange) onDirtyChange(isDirty);
   }, [isDirty, onDirtyChange]);
 
+  // Offer an unsaved draft left by a crashed or closed session, once per
+  // project and only after the server transcription has loaded
+  useEffect(() => {
+    if (!projectId || !transcription?.segments?.length) return;
+    if (draftCheckedForRef.current === projectId) return;
+    draftCheckedForRef.current = projectId;
+    getDraftFromIndexedDB<TranscriptionLineData>(projectId).then((draft) => {
+      if (!draft) return;
+      const summary = summarizeLineDiff(
+        transcription.segments,
+        draft.lines,
+        { speakers: transcription.speakers, glossary: transcription.glossary },
+        { speakers: draft.speakers, glossary: draft.glossary }
+      );
+      if (!hasLineDiff(summary)) {
+        deleteDraftFromIndexedDB(projectId);
+        return;
+      }
+      setRecoverableDraft({
+        savedAt: draft.savedAt,
+        lines: draft.lines,
+        speakers: draft.speakers,
+        glossary: draft.glossary,
+        summary,
+      });
+    });
+  }, [projectId, transcription]);
+
+  // Persist dirty lines, speakers and glossary shortly after each edit.
+  // Paused while a recovered draft awaits a decision, so it isn't overwritten.
+  const draftExtras = useMemo(
+    () => ({ speakers: storedSpeakers, glossary }),
+    [storedSpeakers, glossary]
+  );
+  const latestDraftRef = useRef({ lines, draftExtras, isDirty });
+  latestDraftRef.current = { lines, draftExtras, isDirty };
+  useEffect(() => {
+    if (!projectId || !isDirty || recoverableDraft) return;
+    const timer = setTimeout(
+      () => saveDraftToIndexedDB(projectId, lines, draftExtras),
+      DRAFT_AUTOSAVE_DELAY
+    );
+    return () => clearTimeout(timer);
+  }, [projectId, lines, draftExtras, isDirty, recoverableDraft]);
+
+  // Flush the pending draft when the tab is hidden or closed
+  useEffect(() => {
+    if (!projectId || recoverableDraft) return;
+    const flush = () => {
+      const { lines: current, draftExtras: extras, isDirty: dirty } =
+        latestDraftRef.current;
+      if (dirty) saveDraftToIndexedDB(projectId, current, extras);
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, [projectId, recoverableDraft]);
+
   // Listen for visibility changes from the parent component
   useEffect(() => {
     const updateVisibility = () => {
@@ -319,6 +477,7 @@ export const useTranscriptionEditor = ({
 
   // Keyboard shortcuts for undo/redo
   useEffect(() => {
+    if (!keyboardShortcutsEnabled) return;
     const handler = (e: KeyboardEvent) => {
       const active = document.activeElement as HTMLElement | null;
       const tag = (active?.tagName || '').toLowerCase();
@@ -347,7 +506,7 @@ export const useTranscriptionEditor = ({
     };
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [undo, redo]);
+  }, [keyboardShortcutsEnabled, undo, redo]);
 
   // Computed values
   const activeId = useMemo(() => {
@@ -408,22 +567,52 @@ export const useTranscriptionEditor = ({
     [lines]
   );
 
+  // Lines still receiving a streamed translation cannot be merged or split
+  const isTranslating = useCallback(
+    (id: number) => {
+      const line = lines.find((l) => l.id === id);
+      return !!line?.pending && Object.keys(line.pending).length > 0;
+    },
+    [lines]
+  );
+
+  const speakers = useMemo(
+    () => resolveSpeakers(storedSpeakers, lines),
+    [storedSpeakers, lines]
+  );
+
+  const updateSpeaker = useCallback((id: string, info: SpeakerInfo) => {
+    setStoredSpeakers((prev) => ({ ...prev, [id]: info }));
+    setIsDirty(true);
+  }, []);
+
+  const setGlossary = useCallback((entries: GlossaryEntry[]) => {
+    setStoredGlossary(entries);
+    setIsDirty(true);
+  }, []);
+
   const activeSubtitles = useMemo(() => {
     const codes = gatherVisibleLanguages();
-    const out: Array<{ code: string; text: string }> = [];
+    const out: Array<{ code: string; text: string; color?: string }> = [];
     if (!activeLine) return out;
+    // The speaker's colour replaces the per-language overlay colours
+    const color = activeLine.speaker
+      ? speakers[activeLine.speaker]?.color
+      : undefined;
     const src = (sourceLanguageCode || '').trim();
     if (src && codes.includes(src)) {
-      if (activeLine.text) out.push({ code: src, text: activeLine.text });
+      if (activeLine.text) {
+        out.push({ code: src, text: activeLine.text, color });
+      }
     }
     for (const code of codes) {
       if (code === src) continue;
       if (activeLine.translations && activeLine.translations[code]) {
-        out.push({ code, text: activeLine.translations[code]! });
+        out.push({ code, text: activeLine.translations[code]!, color });
       }
     }
     return out;
-  }, [activeLine, sourceLanguageCode, gatherVisibleLanguages]);
+  }, [activeLine, speakers, sourceLanguageCode, gatherVisibleLanguages]);
 
   // Line operations
   const applyLineText = useCallback(
@@ -431,16 +620,7 @@ export const useTranscriptionEditor = ({
       commitLinesUpdate((prev) =>
         prev.map((l) => {
           if (l.id !== id) return l;
-          const duration = Math.max(0.01, l.end - l.start);
-          const tokens = newText.split(/\s+/).filter(Boolean);
-          const words = (tokens.length ? tokens : ['']).map((word, i) => {
-            const start = l.start + (duration * i) / Math.max(1, tokens.length);
-            const end =
-              i === Math.max(1, tokens.length) - 1
-                ? l.end
-                : l.start + (duration * (i + 1)) / Math.max(1, tokens.length);
-            return { word, start, end };
-          });
+          const words = updateWordTimings(l.words, newText, l.start, l.end);
           return { ...l, text: newText, words };
         })
       );
@@ -458,8 +638,19 @@ export const useTranscriptionEditor = ({
             string
           >;
           nextTranslations[lang] = newText;
-          return { ...l, translations: nextTranslations };
-        })
+          return clearReview({ ...l, translations: nextTranslations }, lang);
+        }),
+        (prev) => `Edit ${lang} on line ${linePosition(prev, id)}`
+      );
+    },
+    [commitLinesUpdate]
+  );
+
+  const markTranslationReviewed = useCallback(
+    (id: number, lang: string) => {
+      commitLinesUpdate(
+        (prev) => prev.map((l) => (l.id === id ? clearReview(l, lang) : l)),
+        (prev) => `Keep split ${lang} on line ${linePosition(prev, id)}`
       );
     },
     [commitLinesUpdate]
@@ -474,7 +665,7 @@ export const useTranscriptionEditor = ({
             : l
         );
         return [...updated].sort((a, b) => a.start - b.start);
-      });
+      }, `Shift start ${formatShift(delta)}`);
     },
     [commitLinesUpdate]
   );
@@ -495,7 +686,7 @@ export const useTranscriptionEditor = ({
             : l
         );
         return [...updated].sort((a, b) => a.start - b.start);
-      });
+      }, `Shift end ${formatShift(delta)}`);
     },
     [commitLinesUpdate]
   );
@@ -508,7 +699,8 @@ export const useTranscriptionEditor = ({
           const words = [...l.words];
           words[wordIndex] = { ...words[wordIndex], word: newValue };
           return { ...l, words, text: words.map((w) => w.word).join(' ') };
-        })
+        }),
+        'Edit word'
       );
     },
     [commitLinesUpdate]
@@ -524,79 +716,63 @@ export const useTranscriptionEditor = ({
 
   const mergeLines = useCallback(
     (fromId: number, toId: number) => {
-      if (hasAnyTranslations) {
+      if (fromId === toId) return;
+      if (isTranslating(fromId) || isTranslating(toId)) {
         toast({
           title: 'Cannot merge lines',
-          description: 'Merging is disabled when translations exist.',
+          description: 'Wait for the translation of these lines to finish.',
           variant: 'destructive',
         });
         return;
       }
-      if (fromId === toId) return;
-      commitLinesUpdate((prev) => {
-        const fromIdx = prev.findIndex((l) => l.id === fromId);
-        const toIdx = prev.findIndex((l) => l.id === toId);
-        if (fromIdx === -1 || toIdx === -1) return prev;
-        const firstIdx = Math.min(fromIdx, toIdx);
-        const secondIdx = Math.max(fromIdx, toIdx);
-        const first = prev[firstIdx];
-        const second = prev[secondIdx];
-        const mergedWords = [...first.words, ...second.words];
-        const merged: TranscriptionLineData = {
-          id: first.id,
-          start: Math.min(first.start, second.start),
-          end: Math.max(first.end, second.end),
-          words: mergedWords,
-          text: mergedWords.map((w) => w.word).join(' '),
-        };
-        const arr = [...prev];
-        arr[firstIdx] = merged;
-        arr.splice(secondIdx, 1);
-        setDragOverId(null);
-        setDragSourceId(null);
-        return [...arr].sort((a, b) => a.start - b.start);
-      });
+      commitLinesUpdate(
+        (prev) => {
+          const fromIdx = prev.findIndex((l) => l.id === fromId);
+          const toIdx = prev.findIndex((l) => l.id === toId);
+          if (fromIdx === -1 || toIdx === -1) return prev;
+          const firstIdx = Math.min(fromIdx, toIdx);
+          const secondIdx = Math.max(fromIdx, toIdx);
+          const merged = mergeLinePair(prev[firstIdx], prev[secondIdx]);
+          const arr = [...prev];
+          arr[firstIdx] = merged;
+          arr.splice(secondIdx, 1);
+          setDragOverId(null);
+          setDragSourceId(null);
+          return [...arr].sort((a, b) => a.start - b.start);
+        },
+        (prev) => {
+          const a = linePosition(prev, fromId);
+          const b = linePosition(prev, toId);
+          return `Merge lines ${Math.min(a, b)}–${Math.max(a, b)}`;
+        }
+      );
     },
-    [hasAnyTranslations, commitLinesUpdate, toast]
+    [isTranslating, commitLinesUpdate, toast]
   );
 
   const cropAtWord = useCallback(
     (id: number, wordIndex: number) => {
-      commitLinesUpdate((prev) => {
-        const idx = prev.findIndex((l) => l.id === id);
-        if (idx === -1) return prev;
-        const original = prev[idx];
-        if (wordIndex < 0 || wordIndex >= original.words.length - 1)
-          return prev;
-
-        const cutFrom = original.words[wordIndex + 1];
-        const newStart = cutFrom.start;
-        const leftWords = original.words.slice(0, wordIndex + 1);
-        const rightWords = original.words.slice(wordIndex + 1);
-
-        const updatedOriginal: TranscriptionLineData = {
-          ...original,
-          end: newStart,
-          text: leftWords.map((w) => w.word).join(' '),
-          words: leftWords,
-        };
-
-        const newLine: TranscriptionLineData = {
-          id: prev.reduce((max, l) => (l.id > max ? l.id : max), 0) + 1,
-          start: newStart,
-          end: original.end,
-          text: rightWords.map((w) => w.word).join(' '),
-          words: rightWords,
-        };
-
-        const arr = [...prev];
-        arr[idx] = updatedOriginal;
-        arr.splice(idx + 1, 0, newLine);
-        setCropLineId(null);
-        return [...arr].sort((a, b) => a.start - b.start);
-      });
+      if (isTranslating(id)) return;
+      commitLinesUpdate(
+        (prev) => {
+          const idx = prev.findIndex((l) => l.id === id);
+          if (idx === -1) return prev;
+          const halves = splitLineAtWord(
+            prev[idx],
+            wordIndex,
+            prev.reduce((max, l) => (l.id > max ? l.id : max), 0) + 1
+          );
+          if (!halves) return prev;
+
+          const arr = [...prev];
+          arr.splice(idx, 1, ...halves);
+          setCropLineId(null);
+          return [...arr].sort((a, b) => a.start - b.start);
+        },
+        (prev) => `Split line ${linePosition(prev, id)}`
+      );
     },
-    [commitLinesUpdate]
+    [isTranslating, commitLinesUpdate]
   );
 
   const beginCrop = useCallback((id: number) => {
@@ -637,18 +813,7 @@ export const useTranscriptionEditor = ({
       if (!pendingNewLine) return;
       const text = rawText.trim();
       const { start, end, insertIndex } = pendingNewLine;
-      const duration = Math.max(0, end - start);
-      const tokens = text.length > 0 ? text.split(/\s+/).filter(Boolean) : [];
-      const tokenCount = Math.max(1, tokens.length);
-
-      const words = tokens.map((word, i) => {
-        const wordStart = start + (duration * i) / tokenCount;
-        const wordEnd =
-          i === tokens.length - 1
-            ? end
-            : start + (duration * (i + 1)) / tokenCount;
-        return { word, start: wordStart, end: wordEnd };
-      });
+      const words = estimateWordTimings(text, start, end);
 
       commitLinesUpdate((prevLines) => {
         const existingLangCodes = Array.from(
@@ -674,7 +839,7 @@ export const useTranscriptionEditor = ({
         const arr = [...prevLines];
         arr.splice(insertIndex, 0, newLine);
         return [...arr].sort((a, b) => a.start - b.start);
-      });
+      }, 'Add line');
 
       setIsAddLineOpen(false);
       setPendingNewLine(null);
@@ -683,47 +848,131 @@ export const useTranscriptionEditor = ({
   );
 
   // Save function
-  const handleSave = useCallback(async () => {
-    if (!projectId) return;
-    setIsSaving(true);
-    try {
-      const out: any = JSON.parse(JSON.stringify(transcription || {}));
-
-      out.segments = lines.map((l) => ({
-        id: l.id,
-        start: l.start,
-        end: l.end,
-        words: l.words,
-        translations: l.translations,
-        text: l.text.trim(),
-      }));
-
-      const payload = { json: out };
-      const resp = await fetch(`/api/projects/${projectId}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify(payload),
-      });
-      if (!resp.ok) {
-        const err = await resp.json().catch(() => ({}));
-        throw new Error(err.message || 'Failed to save');
+  // `speakers` and `terms` override the current state, for a save retried
+  // right after merging before state has caught up
+  const saveLines = useCallback(
+    async (
+      toSave: TranscriptionLineData[],
+      speakers: Record<string, SpeakerInfo> = storedSpeakers,
+      terms: GlossaryEntry[] = glossary
+    ) => {
+      if (!projectId) return;
+      setIsSaving(true);
+      try {
+        const base = savedBaseRef.current;
+        const out: any = JSON.parse(JSON.stringify(base.json || {}));
+
+        out.segments = toSave.map((l) => ({
+          id: l.id,
+          start: l.start,
+          end: l.end,
+          words: l.words,
+          translations: l.translations,
+          review: l.review,
+          speaker: l.speaker,
+          text: l.text.trim(),
+        }));
+        out.speakers = resolveSpeakers(speakers, toSave);
+        out.glossary = terms;
+        out.revision = base.revision + 1;
+
+        const payload = { json: out, baseRevision: base.revision };
+        const resp = await fetch(`/api/projects/${projectId}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(payload),
+        });
+        if (resp.status === 409) {
+          const err = await resp.json().catch(() => ({}));
+          const remote = err.remote as TranscriptionJson | null;
+          if (!remote?.segments) throw new Error(err.error || 'Save conflict');
+          // Let the user merge; the save is retried once resolved
+          setSaveConflict({
+            local: toSave,
+            remote,
+            conflicts: findLineConflicts(
+              base.json.segments || [],
+              toSave,
+              segmentsToLines(remote.segments)
+            ),
+          });
+          return;
+        }
+        if (!resp.ok) {
+          const err = await resp.json().catch(() => ({}));
+          throw new Error(err.error || err.message || 'Failed to save');
+        }
+        savedBaseRef.current = { json: out, revision: out.revision };
+        setIsDirty(false);
+        deleteDraftFromIndexedDB(projectId);
+        toast({
+          title: 'Saved',
+          description: 'Transcription saved successfully.',
+        });
+      } catch (e) {
+        toast({
+          title: 'Save failed',
+          description: (e as Error).message,
+          variant: 'destructive',
+        });
+      } finally {
+        setIsSaving(false);
       }
-      setIsDirty(false);
-      toast({
-        title: 'Saved',
-        description: 'Transcription saved successfully.',
-      });
-    } catch (e) {
-      toast({
-        title: 'Save failed',
-        description: (e as Error).message,
-        variant: 'destructive',
-      });
-    } finally {
-      setIsSaving(false);
-    }
-  }, [projectId, transcription, lines, toast]);
+    },
+    [projectId, storedSpeakers, glossary, toast]
+  );
+
+  const handleSave = useCallback(() => saveLines(lines), [saveLines, lines]);
+
+  // Keep the picked side of each conflicting line, the speakers edited here
+  // and every glossary term from both sides, then save on top of the remote
+  // version
+  const resolveSaveConflict = useCallback(
+    (choices: Record<number, MergeSide>) => {
+      if (!saveConflict) return;
+      const { local, remote, conflicts } = saveConflict;
+      const merged = mergeLineVersions(local, conflicts, choices);
+      const speakers = mergeSpeakers(
+        savedBaseRef.current.json.speakers,
+        storedSpeakers,
+        remote.speakers
+      );
+      // Terms added elsewhere are kept; this tab's targets win on a clash
+      const terms = mergeGlossaries(glossary, remote.glossary || []);
+      savedBaseRef.current = { json: remote, revision: remote.revision ?? 0 };
+      commitLinesUpdate(() => merged, 'Merge remote changes');
+      setStoredSpeakers(speakers);
+      setStoredGlossary(terms);
+      setSaveConflict(null);
+      saveLines(merged, speakers, terms);
+    },
+    [saveConflict, storedSpeakers, glossary, commitLinesUpdate, saveLines]
+  );
+
+  const cancelSaveConflict = useCallback(() => setSaveConflict(null), []);
+
+  // Draft recovery
+  const restoreDraft = useCallback(() => {
+    if (!recoverableDraft) return;
+    const { lines: draftLines, speakers, glossary, savedAt } =
+      recoverableDraft;
+    commitLinesUpdate(
+      () => draftLines,
+      `Restore draft from ${new Date(savedAt).toLocaleTimeString()}`
+    );
+    if (speakers) setStoredSpeakers(speakers);
+    if (glossary) setStoredGlossary(glossary);
+    // Speaker or glossary edits alone leave the lines, and so the dirty flag,
+    // untouched
+    setIsDirty(true);
+    setRecoverableDraft(null);
+  }, [recoverableDraft, commitLinesUpdate]);
+
+  const discardDraft = useCallback(() => {
+    if (projectId) deleteDraftFromIndexedDB(projectId);
+    setRecoverableDraft(null);
+  }, [projectId]);
 
   // Retranslation
   const retranslateLine = useCallback(
@@ -746,6 +995,10 @@ export const useTranscriptionEditor = ({
               src: sourceLanguageCode,
               tgt: lang,
               forceFresh: true,
+              glossary: glossaryForLanguage(
+                mergeGlossaries(glossary, accountGlossary),
+                lang
+              ),
               segments: [
                 {
                   id: String(line.id),
@@ -777,7 +1030,15 @@ export const useTranscriptionEditor = ({
         });
       }
     },
-    [projectId, sourceLanguageCode, lines, applyTranslationText, toast]
+    [
+      projectId,
+      sourceLanguageCode,
+      lines,
+      glossary,
+      accountGlossary,
+      applyTranslationText,
+      toast,
+    ]
   );
 
   return {
@@ -794,6 +1055,10 @@ export const useTranscriptionEditor = ({
     retranslateInFlight,
     visibleLanguages,
     currentTime,
+    speakers,
+    glossary,
+    recoverableDraft,
+    saveConflict,
 
     // Computed values
     activeId,
@@ -815,10 +1080,13 @@ export const useTranscriptionEditor = ({
     setRetranslateInFlight,
     setVisibleLanguages,
     setCurrentTime,
+    updateSpeaker,
+    setGlossary,
 
     // Line operations
     applyLineText,
     applyTranslationText,
+    markTranslationReviewed,
     adjustStart,
     adjustEnd,
     editWord,
@@ -834,11 +1102,20 @@ export const useTranscriptionEditor = ({
     commitNewLine,
 
     // History
+    history: history.entries,
+    historyIndex: history.index,
     undo,
     redo,
+    jumpToHistory,
 
     // Save
     handleSave,
+    resolveSaveConflict,
+    cancelSaveConflict,
+
+    // Draft recovery
+    restoreDraft,
+    discardDraft,
 
     // Retranslation
     retranslateLine,
@@ -24,8 +24,10 @@ interface UseVideoPlayerReturn {
   togglePlay: () => void;
   seek: (time: number) => void;
   setVolume: (volume: number) => void;
-  skipBackward: () => void;
-  skipForward: () => void;
+  skipBackward: (seconds?: number) => void;
+  skipForward: (seconds?: number) => void;
+  // Reads the element directly, ahead of the `currentTime` state
+  getCurrentTime: () => number;
 
   // Video ref for direct access
   videoRef: React.RefObject<HTMLVideoElement | null>;
@@ -48,6 +50,12 @@ export const useVideoPlayer = ({
   const [hasError, setHasError] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [hasUserInteracted, setHasUserInteracted] = useState(false);
+  // Latest time for skips when no element is attached
+  const timeRef = useRef(0);
+
+  useEffect(() => {
+    timeRef.current = currentTime;
+  }, [currentTime]);
 
   // Play function
   const play = useCallback(() => {
@@ -76,13 +84,15 @@ export const useVideoPlayer = ({
     }
   }, [play, pause]);
 
-  // Seek to specific time
+  // Seek to specific time; without an attached element the new time still
+  // reaches players rendered from `currentTime`
   const seek = useCallback((time: number) => {
     if (videoRef.current) {
       videoRef.current.currentTime = time;
-      setCurrentTime(time);
-      setHasUserInteracted(true);
     }
+    timeRef.current = time;
+    setCurrentTime(time);
+    setHasUserInteracted(true);
   }, []);
 
   // Set volume
@@ -93,21 +103,27 @@ export const useVideoPlayer = ({
     }
   }, []);
 
-  // Skip backward (10 seconds)
-  const skipBackward = useCallback(() => {
-    if (videoRef.current) {
-      const newTime = Math.max(0, videoRef.current.currentTime - 10);
-      seek(newTime);
-    }
-  }, [seek]);
-
-  // Skip forward (10 seconds)
-  const skipForward = useCallback(() => {
-    if (videoRef.current) {
-      const newTime = Math.min(duration, videoRef.current.currentTime + 10);
-      seek(newTime);
-    }
-  }, [seek, duration]);
+  const getCurrentTime = useCallback(
+    () => videoRef.current?.currentTime ?? timeRef.current,
+    []
+  );
+
+  // Skip backward (10 seconds by default)
+  const skipBackward = useCallback(
+    (seconds = 10) => {
+      seek(Math.max(0, getCurrentTime() - seconds));
+    },
+    [seek, getCurrentTime]
+  );
+
+  // Skip forward (10 seconds by default)
+  const skipForward = useCallback(
+    (seconds = 10) => {
+      const to = getCurrentTime() + seconds;
+      seek(duration ? Math.min(duration, to) : to);
+    },
+    [seek, getCurrentTime, duration]
+  );
 
   // Handle time updates
   const handleTimeUpdate = useCallback(() => {
@@ -220,6 +236,7 @@ export const useVideoPlayer = ({
     setVolume: handleSetVolume,
     skipBackward,
     skipForward,
+    getCurrentTime,
     videoRef,
     hasUserInteracted,
     setHasUserInteracted,
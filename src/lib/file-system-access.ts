@@ -6,10 +6,13 @@
  * Files are also stored in IndexedDB for persistence across page refreshes
  */
 
+import type { GlossaryEntry, SpeakerInfo } from '@/types/transcription';
+
 const DB_NAME = 'cc-subtitles-fs-handles';
-const DB_VERSION = 2; // Increment version to trigger upgrade
+const DB_VERSION = 3; // Increment version to trigger upgrade
 const STORE_NAME = 'file-handles';
 const FILE_STORE_NAME = 'video-files'; // New store for actual file storage
+const DRAFT_STORE_NAME = 'drafts'; // Unsaved editor lines, for crash recovery
 
 interface FileHandleRecord {
   projectId: string;
@@ -27,6 +30,15 @@ interface FileRecord {
   savedAt: number;
 }
 
+export interface DraftRecord<T = unknown> {
+  projectId: string;
+  lines: T[];
+  // Speaker names and colours edited alongside the lines
+  speakers?: Record<string, SpeakerInfo>;
+  glossary?: GlossaryEntry[];
+  savedAt: number;
+}
+
 /**
  * Check if File System Access API is supported
  */
@@ -71,6 +83,11 @@ async function openDB(): Promise<IDBDatabase> {
         // Add index for cleanup operations
         fileStore.createIndex('savedAt', 'savedAt', { unique: false });
       }
+
+      // Create drafts store (for unsaved transcription edits)
+      if (!db.objectStoreNames.contains(DRAFT_STORE_NAME)) {
+        db.createObjectStore(DRAFT_STORE_NAME, { keyPath: 'projectId' });
+      }
     };
   });
 }
@@ -268,18 +285,18 @@ export async function saveFileWithFileSystemAccess(
 }
 
 /**
- * Retrieve a file handle from IndexedDB and create an object URL for playback
- * This now prioritizes IndexedDB file storage over File System Access API handles
+ * Retrieve the locally stored file for a project
+ * This prioritizes IndexedDB file storage over File System Access API handles
  * @param projectId The project ID
- * @returns Object URL for the file, or null if not found
+ * @returns File object or null if not found
  */
-export async function getFileUrlFromHandle(
+export async function getFileFromHandle(
   projectId: string
-): Promise<string | null> {
+): Promise<File | null> {
   // First try to get file from IndexedDB (most reliable)
-  const indexedDBUrl = await getFileUrlFromIndexedDB(projectId);
-  if (indexedDBUrl) {
-    return indexedDBUrl;
+  const indexedDBFile = await getFileFromIndexedDB(projectId);
+  if (indexedDBFile) {
+    return indexedDBFile;
   }
 
   // Fallback to File System Access API handle if available
@@ -305,14 +322,26 @@ export async function getFileUrlFromHandle(
     }
 
     // Read file from handle
-    const file = await record.handle.getFile();
-    return URL.createObjectURL(file);
+    return await record.handle.getFile();
   } catch (error) {
     console.error('Failed to retrieve file handle:', error);
     return null;
   }
 }
 
+/**
+ * Retrieve a file handle from IndexedDB and create an object URL for playback
+ * This now prioritizes IndexedDB file storage over File System Access API handles
+ * @param projectId The project ID
+ * @returns Object URL for the file, or null if not found
+ */
+export async function getFileUrlFromHandle(
+  projectId: string
+): Promise<string | null> {
+  const file = await getFileFromHandle(projectId);
+  return file ? URL.createObjectURL(file) : null;
+}
+
 /**
  * Check if a file exists in IndexedDB for a project
  * @param projectId The project ID
@@ -584,3 +613,94 @@ export async function deleteFileHandle(projectId: string): Promise<void> {
     console.error('Failed to delete file handle:', error);
   }
 }
+
+/**
+ * Save the editor's unsaved lines for a project, replacing any older draft
+ * @param projectId The project ID
+ * @param lines The current (dirty) lines
+ * @param extras Unsaved project-level edits: speakers and the glossary
+ */
+export async function saveDraftToIndexedDB<T>(
+  projectId: string,
+  lines: T[],
+  extras: Omit<DraftRecord<T>, 'projectId' | 'lines' | 'savedAt'> = {}
+): Promise<void> {
+  if (!isIndexedDBSupported()) {
+    return;
+  }
+
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([DRAFT_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(DRAFT_STORE_NAME);
+
+    const record: DraftRecord<T> = {
+      ...extras,
+      projectId,
+      lines,
+      savedAt: Date.now(),
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.put(record);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to save draft to IndexedDB:', error);
+  }
+}
+
+/**
+ * Get the unsaved draft for a project
+ * @param projectId The project ID
+ * @returns The draft, or null if there is none
+ */
+export async function getDraftFromIndexedDB<T>(
+  projectId: string
+): Promise<DraftRecord<T> | null> {
+  if (!isIndexedDBSupported()) {
+    return null;
+  }
+
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([DRAFT_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(DRAFT_STORE_NAME);
+
+    return await new Promise<DraftRecord<T> | null>((resolve, reject) => {
+      const request = store.get(projectId);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to retrieve draft from IndexedDB:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete the unsaved draft for a project (after saving or discarding it)
+ * @param projectId The project ID
+ */
+export async function deleteDraftFromIndexedDB(
+  projectId: string
+): Promise<void> {
+  if (!isIndexedDBSupported()) {
+    return;
+  }
+
+  try {
+    const db = await openDB();
+    const transaction = db.transaction([DRAFT_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(DRAFT_STORE_NAME);
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.delete(projectId);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Failed to delete draft from IndexedDB:', error);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Tests for multi-line selection batch operations
+ */
+
+import {
+  isContiguousSelection,
+  mergeSelected,
+  parseCopiedLines,
+  pasteLines,
+  selectRange,
+  serializeLines,
+} from './line-batch';
+
+const line = (id: number, start: number, text: string) => ({
+  id,
+  start,
+  end: start + 1,
+  text,
+  words: [{ word: text, start, end: start + 1 }],
+});
+
+const lines = [line(1, 0, 'one'), line(2, 2, 'two'), line(3, 4, 'three')];
+
+describe('selectRange', () => {
+  it('selects every line between the anchor and the clicked line', () => {
+    expect(selectRange(lines, 3, 1)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('mergeSelected', () => {
+  it('merges the selection into its earliest line', () => {
+    const merged = mergeSelected(lines, new Set([2, 3]));
+    expect(merged.map((l) => [l.id, l.text, l.start, l.end])).toEqual([
+      [1, 'one', 0, 1],
+      [2, 'two three', 2, 5],
+    ]);
+  });
+
+  it('leaves selections with gaps unmerged', () => {
+    expect(isContiguousSelection(lines, new Set([1, 3]))).toBe(false);
+    expect(mergeSelected(lines, new Set([1, 3]))).toBe(lines);
+  });
+});
+
+describe('copy and paste', () => {
+  it('pastes copied lines at a new time with fresh ids', () => {
+    const copied = parseCopiedLines(serializeLines(lines, new Set([2, 3])))!;
+    const pasted = pasteLines(lines, copied, 10);
+    expect(pasted.ids).toEqual([4, 5]);
+    const added = pasted.lines.slice(3);
+    expect(added.map((l) => [l.start, l.words[0].end])).toEqual([
+      [10, 11],
+      [12, 13],
+    ]);
+  });
+
+  it('ignores clipboard text from elsewhere', () => {
+    expect(parseCopiedLines('hello')).toBe(null);
+    expect(parseCopiedLines('{"lines":[]}')).toBe(null);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Batch operations on a multi-line selection in the editor. Each one returns
+ * the complete new line list so the caller can commit it as a single
+ * history step.
+ */
+
+import type { TranscriptionJsonWord } from '@/types/transcription';
+import { mergeLinePair } from './subtitles/restructure';
+
+interface BatchLine {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  words: TranscriptionJsonWord[];
+  translations?: Record<string, string>;
+  pending?: Record<string, boolean>;
+  review?: Record<string, boolean>;
+  speaker?: string;
+}
+
+export type CopiedLine = Omit<BatchLine, 'id' | 'pending'>;
+
+// Marks clipboard text written by the editor, so pasting plain text is
+// left to the browser
+const CLIPBOARD_TYPE = 'cc-subtitles/lines';
+
+/**
+ * Ids of every line between `anchorId` and `id` in list order, both included
+ */
+export function selectRange(
+  lines: BatchLine[],
+  anchorId: number,
+  id: number
+): number[] {
+  const a = lines.findIndex((l) => l.id === anchorId);
+  const b = lines.findIndex((l) => l.id === id);
+  if (a === -1 || b === -1) return [id];
+  return lines.slice(Math.min(a, b), Math.max(a, b) + 1).map((l) => l.id);
+}
+
+export const deleteSelected = <T extends BatchLine>(
+  lines: T[],
+  ids: Set<number>
+): T[] => lines.filter((l) => !ids.has(l.id));
+
+/**
+ * Whether the selected lines follow each other in time with no unselected
+ * line between them
+ */
+export function isContiguousSelection(
+  lines: BatchLine[],
+  ids: Set<number>
+): boolean {
+  const positions = [...lines]
+    .sort((a, b) => a.start - b.start)
+    .map((l, i) => (ids.has(l.id) ? i : -1))
+    .filter((i) => i !== -1);
+  return positions.every((p, i) => i === 0 || p === positions[i - 1] + 1);
+}
+
+/**
+ * Merge the selected lines into the earliest one, joining text, words and
+ * each language's translation in time order. Selections with gaps are left
+ * alone, since the merged line would cover the lines in between.
+ */
+export function mergeSelected<T extends BatchLine>(
+  lines: T[],
+  ids: Set<number>
+): T[] {
+  const selected = lines
+    .filter((l) => ids.has(l.id))
+    .sort((a, b) => a.start - b.start);
+  if (selected.length < 2 || !isContiguousSelection(lines, ids)) return lines;
+  const merged = selected.reduce((acc, l) => mergeLinePair(acc, l));
+  return lines
+    .filter((l) => !ids.has(l.id) || l.id === merged.id)
+    .map((l) => (l.id === merged.id ? merged : l))
+    .sort((a, b) => a.start - b.start);
+}
+
+export function serializeLines(lines: BatchLine[], ids: Set<number>): string {
+  const copied: CopiedLine[] = lines
+    .filter((l) => ids.has(l.id))
+    .map(({ start, end, text, words, translations, review, speaker }) => ({
+      start,
+      end,
+      text,
+      words,
+      translations,
+      review,
+      speaker,
+    }));
+  return JSON.stringify({ type: CLIPBOARD_TYPE, lines: copied });
+}
+
+/**
+ * Read lines copied by serializeLines
+ * @returns The copied lines, or null when the text is something else
+ */
+export function parseCopiedLines(text: string): CopiedLine[] | null {
+  try {
+    const data = JSON.parse(text);
+    if (data?.type !== CLIPBOARD_TYPE || !Array.isArray(data.lines)) {
+      return null;
+    }
+    const valid = data.lines.filter(
+      (l: CopiedLine) =>
+        typeof l?.start === 'number' &&
+        typeof l?.end === 'number' &&
+        typeof l?.text === 'string'
+    );
+    return valid.length > 0 ? valid : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Insert copied lines so the first one starts at `at`, keeping their
+ * relative timings (words included) and giving them fresh ids
+ * @returns The new line list and the ids of the pasted lines
+ */
+export function pasteLines<T extends BatchLine>(
+  lines: T[],
+  copied: CopiedLine[],
+  at: number
+): { lines: T[]; ids: number[] } {
+  const first = Math.min(...copied.map((l) => l.start));
+  const offset = Math.max(0, at) - first;
+  let nextId = lines.reduce((max, l) => (l.id > max ? l.id : max), 0);
+  const pasted = copied.map(
+    (l) =>
+      ({
+        ...l,
+        id: ++nextId,
+        start: l.start + offset,
+        end: l.end + offset,
+        words: (l.words || []).map((w) => ({
+          ...w,
+          start: w.start + offset,
+          end: w.end + offset,
+        })),
+      } as T)
+  );
+  return {
+    lines: [...lines, ...pasted].sort((a, b) => a.start - b.start),
+    ids: pasted.map((l) => l.id),
+  };
+}
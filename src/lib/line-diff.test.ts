@@ -0,0 +1,95 @@
+/**
+ * Tests for summarizing how a draft differs from the saved transcription
+ */
+
+import { describeLineDiff, hasLineDiff, summarizeLineDiff } from './line-diff';
+
+const line = (id: number, start: number, text: string, extra = {}) => ({
+  id,
+  start,
+  end: start + 1,
+  text,
+  ...extra,
+});
+
+const base = [
+  line(1, 0, 'one', { translations: { fr: 'un' }, speaker: 'S1' }),
+  line(2, 2, 'two'),
+  line(3, 4, 'three'),
+];
+
+describe('summarizeLineDiff', () => {
+  it('finds no changes in an identical copy', () => {
+    const summary = summarizeLineDiff(base, base.map((l) => ({ ...l })));
+    expect(hasLineDiff(summary)).toBe(false);
+    expect(describeLineDiff(summary)).toBe('No changes');
+  });
+
+  it('counts each kind of line change', () => {
+    const next = [
+      line(1, 0, 'one', { translations: { fr: 'une' }, speaker: 'S2' }),
+      line(2, 2.5, 'two!'),
+      line(4, 6, 'four'),
+    ];
+    expect(summarizeLineDiff(base, next)).toEqual({
+      added: 1,
+      removed: 1,
+      textEdited: 1,
+      retimed: 1,
+      translationsEdited: 1,
+      reassigned: 1,
+      speakersEdited: 0,
+      glossaryEdited: 0,
+    });
+  });
+
+  it('ignores surrounding whitespace and empty translations', () => {
+    const next = [
+      line(1, 0, ' one ', {
+        translations: { fr: 'un', de: '' },
+        speaker: 'S1',
+      }),
+      ...base.slice(1),
+    ];
+    expect(hasLineDiff(summarizeLineDiff(base, next))).toBe(false);
+  });
+
+  it('counts speaker and glossary edits recorded with the draft', () => {
+    const summary = summarizeLineDiff(
+      base,
+      base,
+      {
+        speakers: { S1: { name: 'Ann', color: '#fff' } },
+        glossary: [{ source: 'Acme', targets: { fr: 'Acme SA' } }],
+      },
+      {
+        speakers: {
+          S1: { name: 'Anne', color: '#fff' },
+          S2: { name: 'Bob', color: '#000' },
+        },
+        glossary: [{ source: 'acme', targets: { fr: 'Acme SA' } }],
+      }
+    );
+    expect([summary.speakersEdited, summary.glossaryEdited]).toEqual([2, 0]);
+    expect(describeLineDiff(summary)).toBe(
+      '2 speaker(s) renamed or recoloured'
+    );
+  });
+
+  it('skips speakers and glossary when the draft did not record them', () => {
+    const summary = summarizeLineDiff(base, base, {
+      glossary: [{ source: 'Acme', targets: { fr: 'Acme SA' } }],
+    });
+    expect(hasLineDiff(summary)).toBe(false);
+  });
+});
+
+describe('describeLineDiff', () => {
+  it('lists only the kinds of change that occurred', () => {
+    const summary = summarizeLineDiff(base, [
+      line(1, 0, 'uno', { translations: { fr: 'un' }, speaker: 'S1' }),
+      line(3, 4, 'three'),
+    ]);
+    expect(describeLineDiff(summary)).toBe('1 line(s) edited, 1 removed');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Summary of how one set of editor lines differs from another, matched by
+ * line id. Used to describe a recovered draft against the server copy.
+ */
+
+import type { GlossaryEntry, SpeakerInfo } from '@/types/transcription';
+
+export interface DiffLine {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  translations?: Record<string, string>;
+  speaker?: string;
+}
+
+// Project-level state compared alongside the lines; left out when a side did
+// not record it
+export interface DiffExtras {
+  speakers?: Record<string, SpeakerInfo>;
+  glossary?: GlossaryEntry[];
+}
+
+export interface LineDiffSummary {
+  added: number;
+  removed: number;
+  textEdited: number;
+  retimed: number;
+  translationsEdited: number;
+  // Lines moved to another speaker
+  reassigned: number;
+  // Speakers renamed, recoloured or added
+  speakersEdited: number;
+  // Glossary terms added, removed or given other targets
+  glossaryEdited: number;
+}
+
+const sameTranslations = (
+  a: Record<string, string> = {},
+  b: Record<string, string> = {}
+) => {
+  const codes = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(codes).every((c) => (a[c] || '') === (b[c] || ''));
+};
+
+const countSpeakerEdits = (
+  base: Record<string, SpeakerInfo> = {},
+  next: Record<string, SpeakerInfo> = {}
+) =>
+  Object.keys(next).filter(
+    (id) =>
+      base[id]?.name !== next[id].name || base[id]?.color !== next[id].color
+  ).length;
+
+// Terms are matched by source, ignoring case as the glossary itself does
+const countGlossaryEdits = (
+  base: GlossaryEntry[] = [],
+  next: GlossaryEntry[] = []
+) => {
+  const keyOf = (e: GlossaryEntry) => e.source.trim().toLowerCase();
+  const baseByKey = new Map(base.map((e) => [keyOf(e), e]));
+  const nextKeys = new Set(next.map(keyOf));
+  const changed = next.filter((e) => {
+    const prev = baseByKey.get(keyOf(e));
+    return !prev || !sameTranslations(prev.targets, e.targets);
+  }).length;
+  return changed + base.filter((e) => !nextKeys.has(keyOf(e))).length;
+};
+
+export function summarizeLineDiff(
+  base: DiffLine[],
+  next: DiffLine[],
+  baseExtras: DiffExtras = {},
+  nextExtras: DiffExtras = {}
+): LineDiffSummary {
+  const baseById = new Map(base.map((l) => [l.id, l]));
+  const nextIds = new Set(next.map((l) => l.id));
+  const summary: LineDiffSummary = {
+    added: 0,
+    removed: base.filter((l) => !nextIds.has(l.id)).length,
+    textEdited: 0,
+    retimed: 0,
+    translationsEdited: 0,
+    reassigned: 0,
+    speakersEdited: nextExtras.speakers
+      ? countSpeakerEdits(baseExtras.speakers, nextExtras.speakers)
+      : 0,
+    glossaryEdited: nextExtras.glossary
+      ? countGlossaryEdits(baseExtras.glossary, nextExtras.glossary)
+      : 0,
+  };
+  for (const line of next) {
+    const prev = baseById.get(line.id);
+    if (!prev) {
+      summary.added++;
+      continue;
+    }
+    if (prev.text.trim() !== line.text.trim()) summary.textEdited++;
+    if (prev.start !== line.start || prev.end !== line.end) summary.retimed++;
+    if (!sameTranslations(prev.translations, line.translations)) {
+      summary.translationsEdited++;
+    }
+    if ((prev.speaker || '') !== (line.speaker || '')) summary.reassigned++;
+  }
+  return summary;
+}
+
+export const hasLineDiff = (summary: LineDiffSummary) =>
+  Object.values(summary).some((n) => n > 0);
+
+/**
+ * One-line description such as "3 lines edited, 1 retimed, 2 added"
+ */
+export function describeLineDiff(summary: LineDiffSummary): string {
+  const parts = [
+    summary.textEdited && `${summary.textEdited} line(s) edited`,
+    summary.retimed && `${summary.retimed} retimed`,
+    summary.translationsEdited &&
+      `${summary.translationsEdited} with translation changes`,
+    summary.added && `${summary.added} added`,
+    summary.removed && `${summary.removed} removed`,
+    summary.reassigned && `${summary.reassigned} moved to another speaker`,
+    summary.speakersEdited &&
+      `${summary.speakersEdited} speaker(s) renamed or recoloured`,
+    summary.glossaryEdited &&
+      `${summary.glossaryEdited} glossary term(s) changed`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
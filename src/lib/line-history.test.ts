@@ -0,0 +1,76 @@
+/**
+ * Tests for the patch-based line history
+ */
+
+import {
+  createHistoryEntry,
+  emptyHistory,
+  HistoryState,
+  pushHistory,
+  redoEntry,
+  travelHistory,
+  undoEntry,
+} from './line-history';
+
+interface Line {
+  id: number;
+  text: string;
+}
+
+const a: Line = { id: 1, text: 'one' };
+const b: Line = { id: 2, text: 'two' };
+const c: Line = { id: 3, text: 'three' };
+
+describe('createHistoryEntry', () => {
+  it('returns null when nothing changed', () => {
+    expect(createHistoryEntry([a, b], [a, b], 'Noop')).toBe(null);
+  });
+
+  it('stores only the touched lines', () => {
+    const edited = { ...b, text: 'TWO' };
+    const entry = createHistoryEntry([a, b, c], [a, edited, c], 'Edit');
+    expect(entry?.before).toEqual([b]);
+    expect(entry?.after).toEqual([edited]);
+    expect(entry?.beforeOrder).toBe(null);
+  });
+
+  it('derives a label when none is given', () => {
+    expect(createHistoryEntry([a, b], [a], undefined)?.label).toBe(
+      'Delete line 2'
+    );
+    expect(createHistoryEntry([a], [a, b], undefined)?.label).toBe('Add line');
+    const label = (prev: Line[], next: Line[]) =>
+      `${prev.length}->${next.length}`;
+    expect(createHistoryEntry([a, b], [a], label)?.label).toBe('2->1');
+  });
+});
+
+describe('undo/redo', () => {
+  it('round-trips edits, deletions and reorders', () => {
+    const prev = [a, b, c];
+    const next = [c, { ...a, text: 'ONE' }];
+    const entry = createHistoryEntry(prev, next, 'Mixed')!;
+    expect(undoEntry(next, entry)).toEqual(prev);
+    expect(redoEntry(prev, entry)).toEqual(next);
+  });
+
+  it('travels across several entries', () => {
+    const v1 = [a, b];
+    const v2 = [a, { ...b, text: 'TWO' }];
+    const v3 = [...v2, c];
+    let state: HistoryState<Line> = emptyHistory();
+    state = pushHistory(state, createHistoryEntry(v1, v2, 'Edit')!);
+    state = pushHistory(state, createHistoryEntry(v2, v3, 'Add')!);
+    expect(travelHistory(v3, state, 0)).toEqual(v1);
+    expect(travelHistory(v1, { ...state, index: 0 }, 2)).toEqual(v3);
+  });
+
+  it('drops the redo branch and trims past the limit', () => {
+    const entry = createHistoryEntry([a], [b], 'Swap')!;
+    let state: HistoryState<Line> = emptyHistory();
+    for (let i = 0; i < 5; i++) state = pushHistory(state, entry, 3);
+    expect(state.entries.length).toBe(3);
+    state = pushHistory({ ...state, index: 1 }, entry, 3);
+    expect(state).toEqual({ entries: [entry, entry], index: 2 });
+  });
+});
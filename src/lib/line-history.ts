@@ -0,0 +1,181 @@
+/**
+ * Labeled, patch-based undo history for editor lines.
+ *
+ * Lines are never mutated in place, so an update replaces only the objects
+ * of the lines it touched. Each history entry keeps just those objects (and
+ * the id order when it changed) instead of cloning the whole array, which
+ * keeps hundreds of steps cheap.
+ */
+
+export const HISTORY_LIMIT = 500;
+
+export interface HistoryLine {
+  id: number;
+}
+
+export interface HistoryEntry<T extends HistoryLine> {
+  label: string;
+  timestamp: number;
+  // Line objects replaced or removed by the change
+  before: T[];
+  // Line objects added or replacing others
+  after: T[];
+  // Id order before/after, recorded only when the order changed
+  beforeOrder: number[] | null;
+  afterOrder: number[] | null;
+}
+
+// A fixed label, or one derived from the lines before and after the change
+export type HistoryLabel<T extends HistoryLine> =
+  | string
+  | ((prev: T[], next: T[]) => string);
+
+export interface HistoryState<T extends HistoryLine> {
+  entries: HistoryEntry<T>[];
+  // Number of entries currently applied; entries past it can be redone
+  index: number;
+}
+
+export const emptyHistory = <T extends HistoryLine>(): HistoryState<T> => ({
+  entries: [],
+  index: 0,
+});
+
+const sameOrder = (a: HistoryLine[], b: HistoryLine[]) =>
+  a.length === b.length && a.every((l, i) => l.id === b[i].id);
+
+/**
+ * Diff two line arrays into a history entry. Without a label, one is
+ * derived from what changed (see describeChange).
+ * @returns The entry, or null when nothing changed
+ */
+export function createHistoryEntry<T extends HistoryLine>(
+  prev: T[],
+  next: T[],
+  label?: HistoryLabel<T>
+): HistoryEntry<T> | null {
+  const prevSet = new Set(prev);
+  const nextSet = new Set(next);
+  const before = prev.filter((l) => !nextSet.has(l));
+  const after = next.filter((l) => !prevSet.has(l));
+  const reordered = !sameOrder(prev, next);
+  if (before.length === 0 && after.length === 0 && !reordered) return null;
+  const entry: HistoryEntry<T> = {
+    label: '',
+    timestamp: Date.now(),
+    before,
+    after,
+    beforeOrder: reordered ? prev.map((l) => l.id) : null,
+    afterOrder: reordered ? next.map((l) => l.id) : null,
+  };
+  entry.label =
+    typeof label === 'function'
+      ? label(prev, next)
+      : label || describeChange(entry, prev);
+  return entry;
+}
+
+const applyPatch = <T extends HistoryLine>(
+  lines: T[],
+  remove: T[],
+  add: T[],
+  order: number[] | null
+): T[] => {
+  const byId = new Map(lines.map((l) => [l.id, l]));
+  for (const l of remove) byId.delete(l.id);
+  for (const l of add) byId.set(l.id, l);
+  if (order) {
+    return order
+      .map((id) => byId.get(id))
+      .filter((l): l is T => l !== undefined);
+  }
+  return lines
+    .map((l) => byId.get(l.id))
+    .filter((l): l is T => l !== undefined);
+};
+
+export const undoEntry = <T extends HistoryLine>(
+  lines: T[],
+  entry: HistoryEntry<T>
+): T[] => applyPatch(lines, entry.after, entry.before, entry.beforeOrder);
+
+export const redoEntry = <T extends HistoryLine>(
+  lines: T[],
+  entry: HistoryEntry<T>
+): T[] => applyPatch(lines, entry.before, entry.after, entry.afterOrder);
+
+/**
+ * Record an entry at the current position, dropping any redo branch and the
+ * oldest entries past `limit`
+ */
+export function pushHistory<T extends HistoryLine>(
+  state: HistoryState<T>,
+  entry: HistoryEntry<T>,
+  limit = HISTORY_LIMIT
+): HistoryState<T> {
+  const entries = [...state.entries.slice(0, state.index), entry];
+  const trimmed = entries.length > limit ? entries.slice(-limit) : entries;
+  return { entries: trimmed, index: trimmed.length };
+}
+
+/**
+ * Move the lines from the state's position to `target` (0 = before the
+ * first entry), undoing or redoing every entry in between
+ */
+export function travelHistory<T extends HistoryLine>(
+  lines: T[],
+  state: HistoryState<T>,
+  target: number
+): T[] {
+  const to = Math.max(0, Math.min(state.entries.length, target));
+  let result = lines;
+  for (let i = state.index; i > to; i--) {
+    result = undoEntry(result, state.entries[i - 1]);
+  }
+  for (let i = state.index; i < to; i++) {
+    result = redoEntry(result, state.entries[i]);
+  }
+  return result;
+}
+
+/**
+ * Signed seconds for labels such as "Shift start +0.1s"
+ */
+export const formatShift = (delta: number) =>
+  `${delta >= 0 ? '+' : '−'}${Number(Math.abs(delta).toFixed(3))}s`;
+
+/**
+ * 1-based position of a line, for labels such as "Merge lines 12–13"
+ */
+export const linePosition = <T extends HistoryLine>(lines: T[], id: number) =>
+  lines.findIndex((l) => l.id === id) + 1;
+
+/**
+ * Fallback label for updates committed without one
+ */
+export function describeChange<T extends HistoryLine>(
+  entry: HistoryEntry<T>,
+  prev: T[]
+): string {
+  const position = (id: number) => linePosition(prev, id);
+  const beforeIds = new Set(entry.before.map((l) => l.id));
+  const afterIds = new Set(entry.after.map((l) => l.id));
+  const added = entry.after.filter((l) => !beforeIds.has(l.id));
+  const removed = entry.before.filter((l) => !afterIds.has(l.id));
+  const edited = entry.after.filter((l) => beforeIds.has(l.id));
+
+  if (added.length === 0 && removed.length === 0) {
+    if (edited.length === 1) return `Edit line ${position(edited[0].id)}`;
+    if (edited.length > 1) return `Edit ${edited.length} lines`;
+    return 'Reorder lines';
+  }
+  if (edited.length === 0 && removed.length === 0) {
+    return added.length === 1 ? 'Add line' : `Add ${added.length} lines`;
+  }
+  if (edited.length === 0 && added.length === 0) {
+    return removed.length === 1
+      ? `Delete line ${position(removed[0].id)}`
+      : `Delete ${removed.length} lines`;
+  }
+  return `Change ${entry.before.length + added.length} lines`;
+}
@@ -0,0 +1,55 @@
+/**
+ * Tests for per-line conflict detection and merging
+ */
+
+import { findLineConflicts, mergeLineVersions } from './line-merge';
+
+const line = (id: number, start: number, text: string) => ({
+  id,
+  start,
+  end: start + 1,
+  text,
+});
+
+describe('findLineConflicts', () => {
+  const base = [line(1, 0, 'one'), line(2, 2, 'two'), line(3, 4, 'three')];
+
+  it('suggests whichever side changed the line', () => {
+    const local = [line(1, 0, 'ONE'), base[1], base[2]];
+    const remote = [base[0], line(2, 2, 'TWO'), base[2]];
+    const conflicts = findLineConflicts(base, local, remote);
+    expect(conflicts.map((c) => [c.id, c.suggested])).toEqual([
+      [1, 'local'],
+      [2, 'remote'],
+    ]);
+  });
+
+  it('reports lines added or deleted on one side', () => {
+    const local = [...base, line(4, 6, 'four')];
+    const remote = [base[0], base[1]];
+    const conflicts = findLineConflicts(base, local, remote);
+    expect(conflicts.map((c) => [c.id, !!c.local, !!c.remote])).toEqual([
+      [3, true, false],
+      [4, true, false],
+    ]);
+    // Line 3 was deleted remotely and line 4 added locally
+    expect(conflicts.map((c) => c.suggested)).toEqual(['remote', 'local']);
+  });
+
+  it('reports a line moved to another speaker elsewhere', () => {
+    const remote = [{ ...base[0], speaker: 'S2' }, base[1], base[2]];
+    const conflicts = findLineConflicts(base, base, remote);
+    expect(conflicts.map((c) => [c.id, c.suggested])).toEqual([[1, 'remote']]);
+  });
+});
+
+describe('mergeLineVersions', () => {
+  it('keeps unchanged lines and the picked side of each conflict', () => {
+    const base = [line(1, 0, 'one'), line(2, 2, 'two')];
+    const local = [line(1, 0, 'ONE'), base[1], line(3, 4, 'three')];
+    const remote = [line(1, 0, 'Uno'), line(2, 2, 'TWO')];
+    const conflicts = findLineConflicts(base, local, remote);
+    const merged = mergeLineVersions(local, conflicts, { 1: 'remote' });
+    expect(merged.map((l) => l.text)).toEqual(['Uno', 'TWO', 'three']);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Per-line comparison of two versions of the same transcription, used to
+ * resolve a save conflict between this tab and a newer remote save.
+ */
+
+import type { DiffLine } from './line-diff';
+
+export type MergeSide = 'local' | 'remote';
+
+export interface LineConflict<T extends DiffLine> {
+  id: number;
+  // Missing when the line only exists on the other side
+  local?: T;
+  remote?: T;
+  // Side picked by default: whichever one changed the line since the base
+  suggested: MergeSide;
+}
+
+const sameLine = (a: DiffLine, b: DiffLine) =>
+  a.start === b.start &&
+  a.end === b.end &&
+  a.text.trim() === b.text.trim() &&
+  (a.speaker || '') === (b.speaker || '') &&
+  JSON.stringify(a.translations || {}) === JSON.stringify(b.translations || {});
+
+const sameOrMissing = (a?: DiffLine, b?: DiffLine) =>
+  a && b ? sameLine(a, b) : a === b;
+
+/**
+ * List the lines that differ between the local and remote versions, in
+ * time order. `base` is the version both sides started from.
+ */
+export function findLineConflicts<T extends DiffLine>(
+  base: DiffLine[],
+  local: T[],
+  remote: T[]
+): LineConflict<T>[] {
+  const baseById = new Map(base.map((l) => [l.id, l]));
+  const localById = new Map(local.map((l) => [l.id, l]));
+  const remoteById = new Map(remote.map((l) => [l.id, l]));
+  const ids = new Set([...localById.keys(), ...remoteById.keys()]);
+
+  const conflicts: LineConflict<T>[] = [];
+  for (const id of ids) {
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+    if (sameOrMissing(l, r)) continue;
+    const localChanged = !sameOrMissing(l, baseById.get(id));
+    conflicts.push({
+      id,
+      local: l,
+      remote: r,
+      suggested: localChanged ? 'local' : 'remote',
+    });
+  }
+  const startOf = (c: LineConflict<T>) => (c.local ?? c.remote)!.start;
+  return conflicts.sort((a, b) => startOf(a) - startOf(b));
+}
+
+/**
+ * Build the merged lines: unchanged lines as they are, and each conflicting
+ * line from the picked side (dropped when that side deleted it)
+ */
+export function mergeLineVersions<T extends DiffLine>(
+  local: T[],
+  conflicts: LineConflict<T>[],
+  choices: Record<number, MergeSide>
+): T[] {
+  const conflictIds = new Set(conflicts.map((c) => c.id));
+  const merged = local.filter((l) => !conflictIds.has(l.id));
+  for (const c of conflicts) {
+    const side = choices[c.id] ?? c.suggested;
+    const picked = side === 'local' ? c.local : c.remote;
+    if (picked) merged.push(picked);
+  }
+  return merged.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,53 @@
+import { useCallback } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { GlossaryEntry } from '@/types/transcription';
+import { useUserStore } from './user';
+
+// Signed-out edits are kept under this key
+const GUEST = 'guest';
+
+interface GlossaryState {
+  // Account glossaries by user id, reused across that user's projects
+  byUser: Record<string, GlossaryEntry[]>;
+  setAccountGlossary: (
+    userId: string | undefined,
+    entries: GlossaryEntry[]
+  ) => void;
+}
+
+export const useGlossaryStore = create<GlossaryState>()(
+  persist(
+    (set) => ({
+      byUser: {},
+      setAccountGlossary: (userId, entries) =>
+        set((state) => ({
+          byUser: { ...state.byUser, [userId || GUEST]: entries },
+        })),
+    }),
+    { name: 'account-glossary' }
+  )
+);
+
+const EMPTY: GlossaryEntry[] = [];
+
+/**
+ * The signed-in user's account glossary and a setter for it
+ */
+export function useAccountGlossary(): [
+  GlossaryEntry[],
+  (entries: GlossaryEntry[]) => void
+] {
+  const userId = useUserStore((state) => state.user?._id);
+  const entries = useGlossaryStore(
+    (state) => state.byUser[userId || GUEST] || EMPTY
+  );
+  const setAccountGlossary = useGlossaryStore(
+    (state) => state.setAccountGlossary
+  );
+  const setEntries = useCallback(
+    (next: GlossaryEntry[]) => setAccountGlossary(userId, next),
+    [userId, setAccountGlossary]
+  );
+  return [entries, setEntries];
+}
@@ -0,0 +1,215 @@
+import type { VideoSettingsState } from '@/lib/store/video-settings';
+import { formatAssTime } from './time';
+
+export type AssStyleSettings = Pick<
+  VideoSettingsState,
+  | 'fontFamily'
+  | 'subtitleScale'
+  | 'subtitlePosition'
+  | 'subtitleBackground'
+  | 'subtitleOutline'
+>;
+
+export interface AssStyleDefinition {
+  name: string;
+  // CSS hex colour (#RRGGBB) for the text
+  color: string;
+  // Show not-yet-highlighted karaoke syllables at half opacity
+  karaoke?: boolean;
+}
+
+export interface AssEvent {
+  start: number;
+  end: number;
+  style: string;
+  text: string;
+  // Optional actor name (Name field of the Dialogue line)
+  name?: string;
+  // Text already contains override tags and is written unescaped
+  raw?: boolean;
+}
+
+export interface AssDocumentOptions {
+  title?: string;
+  settings: AssStyleSettings;
+  styles: AssStyleDefinition[];
+  events: AssEvent[];
+  playResX?: number;
+  playResY?: number;
+}
+
+const DEFAULT_PLAY_RES_X = 1920;
+const DEFAULT_PLAY_RES_Y = 1080;
+
+// The player renders subtitles at 3.5% of the video height (see VideoPlayer)
+const FONT_SIZE_RATIO = 0.035;
+
+// Outline width in script pixels at 1080p for each preset
+const OUTLINE_WIDTHS: Record<string, number> = {
+  none: 0,
+  thin: 1.5,
+  medium: 2.5,
+  thick: 3.5,
+};
+
+const STYLE_FORMAT =
+  'Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding';
+
+const EVENT_FORMAT =
+  'Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text';
+
+/**
+ * Convert a CSS hex colour to ASS `&HAABBGGRR` notation.
+ * @param alpha Opacity from 0 (transparent) to 1 (opaque)
+ */
+export function toAssColor(hex: string, alpha = 1): string {
+  let value = (hex || '').trim().replace(/^#/, '');
+  if (value.length === 3) {
+    value = value
+      .split('')
+      .map((c) => c + c)
+      .join('');
+  }
+  if (!/^[0-9a-fA-F]{6}$/.test(value)) value = 'FFFFFF';
+  const [r, g, b] = [0, 2, 4].map((i) => value.slice(i, i + 2).toUpperCase());
+  // ASS alpha is inverted: 00 is opaque, FF fully transparent
+  const a = Math.round((1 - Math.min(1, Math.max(0, alpha))) * 255)
+    .toString(16)
+    .padStart(2, '0')
+    .toUpperCase();
+  return `&H${a}${b}${g}${r}`;
+}
+
+/**
+ * Escape editor text for an ASS Dialogue line.
+ * Newlines become `\N` and braces are replaced so they are not read as override blocks.
+ */
+export function escapeAssText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\{/g, '(')
+    .replace(/\}/g, ')')
+    .replace(/\n/g, '\\N');
+}
+
+const sanitizeStyleName = (name: string): string =>
+  name.replace(/,/g, ' ').trim() || 'Default';
+
+/**
+ * Build the `Style:` line for one named style from the current video settings
+ */
+export function buildAssStyleLine(
+  style: AssStyleDefinition,
+  settings: AssStyleSettings,
+  playResY = DEFAULT_PLAY_RES_Y
+): string {
+  const scale = settings.subtitleScale || 1;
+  const unit = playResY / DEFAULT_PLAY_RES_Y;
+  const fontSize = Math.round(playResY * FONT_SIZE_RATIO * scale);
+
+  // Numpad alignment, horizontally centred
+  const alignment =
+    settings.subtitlePosition === 'top'
+      ? 8
+      : settings.subtitlePosition === 'middle'
+      ? 5
+      : 2;
+  const marginV =
+    settings.subtitlePosition === 'middle'
+      ? 0
+      : Math.round(
+          playResY * (settings.subtitlePosition === 'top' ? 0.03 : 0.06)
+        );
+
+  const primary = toAssColor(style.color);
+  const secondary = style.karaoke ? toAssColor(style.color, 0.5) : primary;
+  let borderStyle = 1;
+  let outline: number;
+  let outlineColor = toAssColor('#000000');
+  let backColor = toAssColor('#000000', 0.5);
+
+  if (settings.subtitleBackground === 'none') {
+    // Custom text-shadow strings are treated like the thick preset
+    outline =
+      OUTLINE_WIDTHS[settings.subtitleOutline] ?? OUTLINE_WIDTHS.thick;
+    outline = Math.round(outline * unit * 10) / 10;
+  } else {
+    // Opaque box: libass paints the box with OutlineColour
+    const boxColor =
+      settings.subtitleBackground === 'white'
+        ? toAssColor('#FFFFFF', 0.9)
+        : toAssColor('#000000', 0.8);
+    borderStyle = 3;
+    outline = Math.round(4 * unit);
+    outlineColor = boxColor;
+    backColor = boxColor;
+  }
+
+  return `Style: ${[
+    sanitizeStyleName(style.name),
+    (settings.fontFamily || 'Arial').replace(/,/g, ' '),
+    fontSize,
+    primary,
+    secondary,
+    outlineColor,
+    backColor,
+    0,
+    0,
+    0,
+    0,
+    100,
+    100,
+    0,
+    0,
+    borderStyle,
+    outline,
+    0,
+    alignment,
+    Math.round(playResY * 0.04),
+    Math.round(playResY * 0.04),
+    marginV,
+    1,
+  ].join(',')}`;
+}
+
+/**
+ * Build a complete .ass document with one style per entry of `styles`
+ */
+export function buildAssDocument({
+  title,
+  settings,
+  styles,
+  events,
+  playResX = DEFAULT_PLAY_RES_X,
+  playResY = DEFAULT_PLAY_RES_Y,
+}: AssDocumentOptions): string {
+  const out: string[] = [
+    '[Script Info]',
+    `Title: ${title || 'Subtitles'}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    `PlayResX: ${playResX}`,
+    `PlayResY: ${playResY}`,
+    '',
+    '[V4+ Styles]',
+    `Format: ${STYLE_FORMAT}`,
+    ...styles.map((s) => buildAssStyleLine(s, settings, playResY)),
+    '',
+    '[Events]',
+    `Format: ${EVENT_FORMAT}`,
+  ];
+
+  for (const ev of events) {
+    out.push(
+      `Dialogue: 0,${formatAssTime(ev.start)},${formatAssTime(
+        ev.end
+      )},${sanitizeStyleName(ev.style)},${(ev.name || '').replace(
+        /,/g,
+        ' '
+      )},0,0,0,,${ev.raw ? ev.text : escapeAssText(ev.text)}`
+    );
+  }
+  out.push('');
+  return out.join('\n');
+}
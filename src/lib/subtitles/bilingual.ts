@@ -0,0 +1,99 @@
+import { AssDocumentOptions, buildAssDocument, escapeAssText } from './ass';
+import { formatSrtTime, formatVttTime } from './time';
+
+/**
+ * Writers for cues that stack two languages, primary above secondary,
+ * matching how the player shows several active subtitles at once
+ */
+
+export type BilingualFormat = 'srt' | 'vtt' | 'ass';
+
+export interface BilingualCue {
+  start: number;
+  end: number;
+  primary: string;
+  secondary: string;
+}
+
+const stacked = (cue: BilingualCue) =>
+  [cue.primary, cue.secondary].filter((t) => t.length > 0).join('\n');
+
+const escapeVttText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function buildBilingualSrt(cues: BilingualCue[]): string {
+  const chunks: string[] = [];
+  let idx = 1;
+  for (const cue of cues) {
+    const text = stacked(cue);
+    if (!text) continue;
+    chunks.push(String(idx++));
+    chunks.push(`${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}`);
+    chunks.push(text);
+    chunks.push('');
+  }
+  return chunks.join('\n');
+}
+
+export function buildBilingualVtt(cues: BilingualCue[]): string {
+  const chunks: string[] = ['WEBVTT', ''];
+  for (const cue of cues) {
+    const text = stacked(cue);
+    if (!text) continue;
+    chunks.push(`${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}`);
+    chunks.push(escapeVttText(text));
+    chunks.push('');
+  }
+  return chunks.join('\n');
+}
+
+/**
+ * Build an ASS document with one style per language. Both languages share a
+ * Dialogue line; `\r` switches to the secondary style after the line break.
+ */
+export function buildBilingualAss(
+  cues: BilingualCue[],
+  {
+    primaryCode,
+    secondaryCode,
+    primaryColor,
+    secondaryColor,
+    ...options
+  }: Omit<AssDocumentOptions, 'styles' | 'events'> & {
+    primaryCode: string;
+    secondaryCode: string;
+    primaryColor: string;
+    secondaryColor: string;
+  }
+): string {
+  const events = cues
+    .filter((cue) => cue.primary || cue.secondary)
+    .map((cue) => {
+      if (!cue.primary || !cue.secondary) {
+        return {
+          start: cue.start,
+          end: cue.end,
+          style: cue.primary ? primaryCode : secondaryCode,
+          text: cue.primary || cue.secondary,
+        };
+      }
+      return {
+        start: cue.start,
+        end: cue.end,
+        style: primaryCode,
+        text: `${escapeAssText(cue.primary)}\\N{\\r${secondaryCode}}${escapeAssText(
+          cue.secondary
+        )}`,
+        raw: true,
+      };
+    });
+
+  return buildAssDocument({
+    ...options,
+    styles: [
+      { name: primaryCode, color: primaryColor },
+      { name: secondaryCode, color: secondaryColor },
+    ],
+    events,
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Tests for glossary matching, merging and CSV round trips
+ */
+
+import {
+  buildGlossaryCsv,
+  containsTerm,
+  findGlossaryMisses,
+  mergeGlossaries,
+  parseGlossaryCsv,
+} from './glossary';
+
+describe('containsTerm', () => {
+  it('matches whole words only, ignoring case', () => {
+    expect(containsTerm('Welcome to Acme!', 'acme')).toBe(true);
+    expect(containsTerm('Acmeville is far', 'Acme')).toBe(false);
+    expect(containsTerm('我喜欢东京', '东京')).toBe(true);
+  });
+});
+
+describe('mergeGlossaries', () => {
+  it("prefers the project's target for the same source", () => {
+    const merged = mergeGlossaries(
+      [{ source: 'acme', targets: { fr: 'Acme SA' } }],
+      [{ source: 'Acme', targets: { fr: 'Acme', de: 'Acme GmbH' } }]
+    );
+    expect(merged).toEqual([
+      { source: 'acme', targets: { fr: 'Acme SA', de: 'Acme GmbH' } },
+    ]);
+  });
+});
+
+describe('findGlossaryMisses', () => {
+  it('flags translations missing the required term', () => {
+    const lines = [
+      { id: 1, text: 'Meet the Widget', translations: { fr: 'Voici' } },
+      { id: 2, text: 'The Widget again', translations: { fr: 'Le Gadget' } },
+    ];
+    const misses = findGlossaryMisses(
+      lines,
+      [{ source: 'widget', targets: { fr: 'gadget' } }],
+      ['fr']
+    );
+    expect(misses.map((m) => m.lineId)).toEqual([1]);
+  });
+});
+
+describe('glossary CSV', () => {
+  it('round-trips quoted fields', () => {
+    const entries = [
+      {
+        source: 'Smith, John',
+        targets: { de: 'Herr "J" Smith', fr: 'M. Smith' },
+      },
+    ];
+    expect(parseGlossaryCsv(buildGlossaryCsv(entries))).toEqual(entries);
+  });
+
+  it('rejects files without language columns', () => {
+    expect(parseGlossaryCsv('term\nAcme\n')).toBe(null);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Glossary of required translations: a source term maps to the term each
+ * target language must use. Projects keep their own glossary; the account
+ * glossary fills in terms the project does not define.
+ */
+
+import type { GlossaryEntry } from '@/types/transcription';
+
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+}
+
+export interface GlossaryMiss extends GlossaryTerm {
+  lineId: number;
+  language: string;
+}
+
+interface GlossaryLine {
+  id: number;
+  text: string;
+  translations?: Record<string, string>;
+}
+
+const keyOf = (source: string) => source.trim().toLowerCase();
+
+// Cased letters and digits continue a word; uncased scripts (CJK, Thai) are
+// written without spaces, so any neighbour counts as a boundary there
+const isWordChar = (c: string | undefined) =>
+  !!c && (c.toLowerCase() !== c.toUpperCase() || (c >= '0' && c <= '9'));
+
+/**
+ * Whether `term` occurs in `text` as a whole word, ignoring case
+ */
+export function containsTerm(text: string, term: string): boolean {
+  const haystack = text.toLowerCase();
+  const needle = term.trim().toLowerCase();
+  if (!needle) return false;
+  for (
+    let at = haystack.indexOf(needle);
+    at !== -1;
+    at = haystack.indexOf(needle, at + 1)
+  ) {
+    const before = haystack[at - 1];
+    const after = haystack[at + needle.length];
+    if (!isWordChar(before) && !isWordChar(after)) return true;
+  }
+  return false;
+}
+
+/**
+ * Combine the account glossary with the project's, matching sources without
+ * case; for the same source and language the project's target wins
+ */
+export function mergeGlossaries(
+  project: GlossaryEntry[],
+  account: GlossaryEntry[]
+): GlossaryEntry[] {
+  const merged = new Map<string, GlossaryEntry>();
+  for (const entry of [...account, ...project]) {
+    const key = keyOf(entry.source);
+    if (!key) continue;
+    const prev = merged.get(key);
+    merged.set(key, {
+      source: entry.source.trim(),
+      targets: { ...prev?.targets, ...entry.targets },
+    });
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Terms with a target in `code`, as sent to the translation backend
+ */
+export const glossaryForLanguage = (
+  entries: GlossaryEntry[],
+  code: string
+): GlossaryTerm[] =>
+  entries
+    .map((e) => ({
+      source: e.source.trim(),
+      target: (e.targets[code] || '').trim(),
+    }))
+    .filter((t) => t.source && t.target);
+
+/**
+ * Lines whose source text uses a glossary term while the translation lacks
+ * the required target term
+ */
+export function findGlossaryMisses(
+  lines: GlossaryLine[],
+  entries: GlossaryEntry[],
+  languages: string[]
+): GlossaryMiss[] {
+  const misses: GlossaryMiss[] = [];
+  for (const language of languages) {
+    const terms = glossaryForLanguage(entries, language);
+    if (terms.length === 0) continue;
+    for (const line of lines) {
+      const translation = line.translations?.[language]?.trim();
+      if (!translation) continue;
+      for (const term of terms) {
+        if (
+          containsTerm(line.text, term.source) &&
+          !translation.toLowerCase().includes(term.target.toLowerCase())
+        ) {
+          misses.push({ ...term, lineId: line.id, language });
+        }
+      }
+    }
+  }
+  return misses;
+}
+
+// RFC 4180 fields: quoted when they hold a comma, quote or line break
+const csvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+/**
+ * CSV with a `source` column followed by one column per language code
+ */
+export function buildGlossaryCsv(entries: GlossaryEntry[]): string {
+  const codes = Array.from(
+    new Set(entries.flatMap((e) => Object.keys(e.targets)))
+  ).sort();
+  const rows = [
+    ['source', ...codes],
+    ...entries.map((e) => [e.source, ...codes.map((c) => e.targets[c] || '')]),
+  ];
+  return rows.map((r) => r.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Read a CSV written by buildGlossaryCsv or a spreadsheet in the same shape
+ * @returns The entries, or null when the header has no language columns
+ */
+export function parseGlossaryCsv(text: string): GlossaryEntry[] | null {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const codes = (header || []).slice(1).map((c) => c.trim());
+  if (codes.length === 0 || codes.some((c) => !c)) return null;
+  return rows
+    .map((r) => {
+      const targets: Record<string, string> = {};
+      codes.forEach((code, i) => {
+        const target = (r[i + 1] || '').trim();
+        if (target) targets[code] = target;
+      });
+      return { source: (r[0] || '').trim(), targets };
+    })
+    .filter((e) => e.source && Object.keys(e.targets).length > 0);
+}
@@ -0,0 +1,79 @@
+import type { TranscriptionJsonWord } from '@/types/transcription';
+import { escapeAssText } from './ass';
+import { formatVttTime } from './time';
+
+/**
+ * Word-by-word ("karaoke") cue text for WebVTT and ASS
+ */
+
+export interface KaraokeCue {
+  start: number;
+  end: number;
+  words: TranscriptionJsonWord[];
+}
+
+const escapeVttText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Keep word timings inside the cue and in order
+const clampWords = (cue: KaraokeCue) => {
+  let last = cue.start;
+  return cue.words
+    .filter((w) => w.word.trim().length > 0)
+    .map((w) => {
+      const start = Math.min(cue.end, Math.max(last, w.start));
+      const end = Math.min(cue.end, Math.max(start, w.end));
+      last = start;
+      return { word: w.word.trim(), start, end };
+    });
+};
+
+/**
+ * Cue text with inline WebVTT timestamp tags (`Hello <00:00:01.200>world`)
+ */
+export function buildKaraokeVttText(cue: KaraokeCue): string {
+  return clampWords(cue)
+    .map((w) => {
+      const word = escapeVttText(w.word);
+      // Timestamps must lie strictly inside the cue
+      return w.start > cue.start && w.start < cue.end
+        ? `<${formatVttTime(w.start)}>${word}`
+        : word;
+    })
+    .join(' ');
+}
+
+/**
+ * Build a WebVTT document with one timestamp tag per word
+ */
+export function buildKaraokeVtt(cues: KaraokeCue[]): string {
+  const chunks: string[] = ['WEBVTT', ''];
+  for (const cue of cues) {
+    const text = buildKaraokeVttText(cue);
+    if (!text) continue;
+    chunks.push(`${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}`);
+    chunks.push(text);
+    chunks.push('');
+  }
+  return chunks.join('\n');
+}
+
+/**
+ * Dialogue text with `\k` karaoke tags (durations in centiseconds).
+ * Pauses between words get their own empty syllable so highlighting
+ * stays in sync with the audio.
+ */
+export function buildKaraokeAssText(cue: KaraokeCue): string {
+  const toCs = (t: number) => Math.round((t - cue.start) * 100);
+  const parts: string[] = [];
+  let cursor = 0;
+  clampWords(cue).forEach((w, i) => {
+    const start = Math.max(cursor, toCs(w.start));
+    const end = Math.max(start, toCs(w.end));
+    if (start > cursor) parts.push(`{\\k${start - cursor}}`);
+    const spacer = i > 0 ? ' ' : '';
+    parts.push(`{\\k${end - start}}${spacer}${escapeAssText(w.word)}`);
+    cursor = end;
+  });
+  return parts.join('');
+}
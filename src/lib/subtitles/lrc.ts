@@ -0,0 +1,62 @@
+import type { TranscriptionJsonWord } from '@/types/transcription';
+import { formatLrcTime } from './time';
+
+/**
+ * LRC lyrics for audio projects. Each line carries a `[mm:ss.xx]` tag and,
+ * in the enhanced variant, a `<mm:ss.xx>` tag before every word.
+ */
+
+export interface LrcCue {
+  start: number;
+  end: number;
+  text: string;
+  // Word timings for enhanced tags; plain lines are written without them
+  words?: TranscriptionJsonWord[];
+}
+
+export interface LrcOptions {
+  title?: string;
+  language?: string;
+}
+
+const enhancedText = (cue: LrcCue): string => {
+  let last = cue.start;
+  const words = (cue.words || []).filter((w) => w.word.trim().length > 0);
+  if (!words.length) return cue.text.replace(/\s+/g, ' ').trim();
+  return words
+    .map((w) => {
+      // Keep tags inside the line and in order
+      const start = Math.min(cue.end, Math.max(last, w.start));
+      last = start;
+      return `<${formatLrcTime(start)}>${w.word.trim()}`;
+    })
+    .concat(`<${formatLrcTime(cue.end)}>`)
+    .join(' ');
+};
+
+export function buildLrc(
+  cues: LrcCue[],
+  { title, language }: LrcOptions = {}
+): string {
+  const lines = cues.filter((cue) => cue.text.trim());
+  const out: string[] = [];
+  if (title) {
+    out.push(`[ti:${title.replace(/[[\]\s]+/g, ' ').trim()}]`);
+  }
+  if (language) out.push(`[la:${language}]`);
+  if (lines.length) {
+    const length = formatLrcTime(lines[lines.length - 1].end);
+    out.push(`[length:${length.slice(0, length.indexOf('.'))}]`);
+  }
+
+  lines.forEach((cue, idx) => {
+    out.push(`[${formatLrcTime(cue.start)}]${enhancedText(cue)}`);
+    // An empty timed line clears the display during pauses
+    const next = lines[idx + 1];
+    if (!next || next.start - cue.end >= 0.01) {
+      out.push(`[${formatLrcTime(cue.end)}]`);
+    }
+  });
+  out.push('');
+  return out.join('\n');
+}
@@ -0,0 +1,62 @@
+import type { ParsedCue } from './parse';
+
+export interface TimedLine {
+  id: number;
+  start: number;
+  end: number;
+}
+
+export interface CueMatchResult {
+  // Imported text keyed by line id (several cues on one line are joined)
+  textByLineId: Record<number, string>;
+  matchedCount: number;
+  unmatched: ParsedCue[];
+}
+
+// A cue must overlap at least this share of the shorter of the two spans
+const MIN_OVERLAP_RATIO = 0.3;
+
+const overlapOf = (a: TimedLine | ParsedCue, b: TimedLine | ParsedCue) =>
+  Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+
+/**
+ * Assign each imported cue to the line it overlaps the most in time.
+ * Cues without a sufficient overlap are reported as unmatched.
+ */
+export function matchCuesToLines(
+  cues: ParsedCue[],
+  lines: TimedLine[]
+): CueMatchResult {
+  const parts: Record<number, string[]> = {};
+  const unmatched: ParsedCue[] = [];
+  let matchedCount = 0;
+
+  for (const cue of cues) {
+    let best: TimedLine | null = null;
+    let bestOverlap = 0;
+    for (const line of lines) {
+      const overlap = overlapOf(cue, line);
+      if (overlap > bestOverlap) {
+        best = line;
+        bestOverlap = overlap;
+      }
+    }
+
+    const shorter = best
+      ? Math.min(cue.end - cue.start, best.end - best.start)
+      : 0;
+    if (!best || shorter <= 0 || bestOverlap / shorter < MIN_OVERLAP_RATIO) {
+      unmatched.push(cue);
+      continue;
+    }
+
+    (parts[best.id] ||= []).push(cue.text);
+    matchedCount++;
+  }
+
+  const textByLineId: Record<number, string> = {};
+  for (const [id, texts] of Object.entries(parts)) {
+    textByLineId[Number(id)] = texts.join(' ');
+  }
+  return { textByLineId, matchedCount, unmatched };
+}
@@ -0,0 +1,201 @@
+import { escapeXml } from './ttml';
+
+/**
+ * Caption exchange files for editing applications:
+ * FCPXML captions (Final Cut Pro) and DFXP caption XML (Adobe Premiere Pro).
+ * Cue boundaries are snapped to the video's frame grid.
+ */
+
+export interface NleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface NleExportOptions {
+  // BCP-47 / ISO 639-1 code of the caption language
+  language: string;
+  title?: string;
+  // Frames per second of the source video, e.g. 29.97 or 25
+  frameRate: number;
+  width?: number;
+  height?: number;
+}
+
+interface Timebase {
+  // Integer rate the timecode counts in (30 for 29.97)
+  nominal: number;
+  // NTSC rates run 1000/1001 slower than nominal
+  ntsc: boolean;
+}
+
+const toTimebase = (fps: number): Timebase => {
+  const nominal = Math.max(1, Math.round(fps));
+  const ntsc =
+    Math.abs(fps - nominal) > 0.001 &&
+    Math.abs(fps - (nominal * 1000) / 1001) < 0.01;
+  return { nominal, ntsc };
+};
+
+const realFps = ({ nominal, ntsc }: Timebase) =>
+  ntsc ? (nominal * 1000) / 1001 : nominal;
+
+interface FrameCue {
+  startFrame: number;
+  endFrame: number;
+  text: string;
+}
+
+// Snap cues to whole frames, keeping every cue at least one frame long
+const toFrameCues = (cues: NleCue[], tb: Timebase): FrameCue[] => {
+  const fps = realFps(tb);
+  return cues.map((cue) => {
+    const startFrame = Math.max(0, Math.round(cue.start * fps));
+    const endFrame = Math.max(startFrame + 1, Math.round(cue.end * fps));
+    return { startFrame, endFrame, text: cue.text };
+  });
+};
+
+// FCPXML rational time for a frame count, e.g. `3003/30000s`
+const rationalTime = (frames: number, { nominal, ntsc }: Timebase) => {
+  if (frames === 0) return '0s';
+  return ntsc
+    ? `${frames * 1001}/${nominal * 1000}s`
+    : `${frames}/${nominal}s`;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Non-drop SMPTE timecode counted at the nominal rate
+const smpteTimecode = (frames: number, { nominal }: Timebase) => {
+  const f = frames % nominal;
+  const totalSeconds = Math.floor(frames / nominal);
+  const s = totalSeconds % 60;
+  const m = Math.floor(totalSeconds / 60) % 60;
+  const h = Math.floor(totalSeconds / 3600);
+  return `${pad(h)}:${pad(m)}:${pad(s)}:${pad(f)}`;
+};
+
+const textLines = (text: string) =>
+  text.replace(/\r\n?/g, '\n').split('\n').map(escapeXml);
+
+/**
+ * Build an FCPXML 1.9 project with the cues as iTT captions on a single role
+ */
+export function buildFcpxml(
+  cues: NleCue[],
+  { language, title, frameRate, width = 1920, height = 1080 }: NleExportOptions
+): string {
+  const tb = toTimebase(frameRate);
+  const frameCues = toFrameCues(cues, tb);
+  const totalFrames = frameCues.reduce(
+    (max, c) => Math.max(max, c.endFrame),
+    1
+  );
+  const name = escapeXml(`${title || 'Captions'} (${language})`);
+  const role = `iTT?captionFormat=ITT.${escapeXml(language)}`;
+
+  const out: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    `    <format id="r1" frameDuration="${rationalTime(
+      1,
+      tb
+    )}" width="${width}" height="${height}"/>`,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${name}">`,
+    `      <project name="${name}">`,
+    `        <sequence format="r1" duration="${rationalTime(
+      totalFrames,
+      tb
+    )}" tcStart="0s" tcFormat="NDF">`,
+    '          <spine>',
+    `            <gap name="Gap" offset="0s" start="0s" duration="${rationalTime(
+      totalFrames,
+      tb
+    )}">`,
+  ];
+
+  frameCues.forEach((cue, idx) => {
+    const styleId = `ts${idx + 1}`;
+    const [firstLine, ...rest] = textLines(cue.text);
+    out.push(
+      `              <caption lane="1" offset="${rationalTime(
+        cue.startFrame,
+        tb
+      )}" duration="${rationalTime(
+        cue.endFrame - cue.startFrame,
+        tb
+      )}" role="${role}" name="${firstLine}">`,
+      `                <text placement="bottom"><text-style ref="${styleId}">${[
+        firstLine,
+        ...rest,
+      ].join('&#10;')}</text-style></text>`,
+      `                <text-style-def id="${styleId}"><text-style font=".AppleSystemUIFont" fontSize="13" fontFace="Regular" fontColor="1 1 1 1" backgroundColor="0 0 0 1"/></text-style-def>`,
+      '              </caption>'
+    );
+  });
+
+  out.push(
+    '            </gap>',
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    ''
+  );
+  return out.join('\n');
+}
+
+/**
+ * Build DFXP caption XML with SMPTE frame timecodes, as imported by
+ * Premiere Pro's captions workflow
+ */
+export function buildPremiereXml(
+  cues: NleCue[],
+  { language, title, frameRate }: NleExportOptions
+): string {
+  const tb = toTimebase(frameRate);
+  const frameRateAttrs = `ttp:frameRate="${tb.nominal}"${
+    tb.ntsc ? ' ttp:frameRateMultiplier="1000 1001"' : ''
+  } ttp:dropMode="nonDrop"`;
+
+  const out: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" xmlns:tts="http://www.w3.org/ns/ttml#styling" xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xml:lang="${escapeXml(
+      language
+    )}" ttp:timeBase="smpte" ${frameRateAttrs}>`,
+    '  <head>',
+    '    <metadata>',
+    `      <ttm:title>${escapeXml(title || 'Captions')}</ttm:title>`,
+    '    </metadata>',
+    '    <styling>',
+    '      <style xml:id="s1" tts:color="white" tts:fontSize="100%" tts:textAlign="center"/>',
+    '    </styling>',
+    '    <layout>',
+    '      <region xml:id="bottom" tts:origin="10% 75%" tts:extent="80% 20%" tts:displayAlign="after"/>',
+    '    </layout>',
+    '  </head>',
+    '  <body region="bottom" style="s1">',
+    '    <div>',
+  ];
+
+  for (const cue of toFrameCues(cues, tb)) {
+    out.push(
+      `      <p begin="${smpteTimecode(
+        cue.startFrame,
+        tb
+      )}" end="${smpteTimecode(cue.endFrame, tb)}">${textLines(
+        cue.text
+      ).join('<br/>')}</p>`
+    );
+  }
+
+  out.push('    </div>', '  </body>', '</tt>', '');
+  return out.join('\n');
+}
@@ -0,0 +1,94 @@
+/**
+ * Tests for subtitle file parsing and cue matching
+ */
+
+import { parseSubtitleFile, parseAss, parseSrt, parseVtt } from './parse';
+import { matchCuesToLines } from './match';
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+<i>Hello</i> there
+
+2
+00:00:04,000 --> 00:00:06,000
+Second line
+continues here
+`;
+
+const VTT = `WEBVTT
+
+NOTE this is a comment
+
+intro
+00:01.000 --> 00:03.500 align:center line:90%
+Hello &amp; welcome
+
+00:00:04.000 --> 00:00:06.000
+<v Anna>Second</v> cue
+`;
+
+const ASS = `[Script Info]
+Title: Test
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:01.00,0:00:03.50,Default,,0,0,0,,{\\an8}Hello, world
+Dialogue: 0,0:00:04.00,0:00:06.00,Default,,0,0,0,,First\\Nsecond
+`;
+
+describe('subtitle parsing', () => {
+  it('parses SRT cues and strips markup', () => {
+    const cues = parseSrt(SRT);
+    expect(cues).toHaveLength(2);
+    expect(cues[0]).toEqual({ start: 1, end: 3.5, text: 'Hello there' });
+    expect(cues[1].text).toBe('Second line continues here');
+  });
+
+  it('parses WebVTT cues, skipping notes and cue settings', () => {
+    const cues = parseVtt(VTT);
+    expect(cues).toHaveLength(2);
+    expect(cues[0]).toEqual({ start: 1, end: 3.5, text: 'Hello & welcome' });
+    expect(cues[1].text).toBe('Second cue');
+  });
+
+  it('parses ASS dialogue with commas and override tags', () => {
+    const cues = parseAss(ASS);
+    expect(cues).toHaveLength(2);
+    expect(cues[0]).toEqual({ start: 1, end: 3.5, text: 'Hello, world' });
+    expect(cues[1].text).toBe('First second');
+  });
+
+  it('detects the format from content when the extension is unknown', () => {
+    expect(parseSubtitleFile('subs.txt', VTT).format).toBe('vtt');
+    expect(parseSubtitleFile('subs.txt', SRT).format).toBe('srt');
+    expect(() => parseSubtitleFile('subs.txt', 'plain text')).toThrow();
+  });
+});
+
+describe('matchCuesToLines', () => {
+  const lines = [
+    { id: 1, start: 0.9, end: 3.4 },
+    { id: 2, start: 4.1, end: 6.2 },
+  ];
+
+  it('assigns cues to the line with the largest overlap', () => {
+    const result = matchCuesToLines(parseSrt(SRT), lines);
+    expect(result.matchedCount).toBe(2);
+    expect(result.textByLineId).toEqual({
+      1: 'Hello there',
+      2: 'Second line continues here',
+    });
+    expect(result.unmatched).toHaveLength(0);
+  });
+
+  it('reports cues that do not overlap any line', () => {
+    const result = matchCuesToLines(
+      [{ start: 10, end: 12, text: 'Credits' }],
+      lines
+    );
+    expect(result.matchedCount).toBe(0);
+    expect(result.unmatched).toEqual([
+      { start: 10, end: 12, text: 'Credits' },
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+import { parseTimestamp } from './time';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export interface ParsedCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const TIMING_ARROW = /\s*-->\s*/;
+
+const normalizeNewlines = (content: string): string =>
+  content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Collapse a multi-row cue into a single editor line without markup
+const cleanCueText = (rows: string[]): string =>
+  decodeEntities(
+    rows
+      .join(' ')
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Detect the subtitle format from the file name, falling back to the content
+ */
+export function detectSubtitleFormat(
+  fileName: string,
+  content: string
+): SubtitleFormat | null {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'srt' || ext === 'vtt') return ext;
+  if (ext === 'ass' || ext === 'ssa') return 'ass';
+
+  const head = normalizeNewlines(content).trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (/^\[Script Info\]/i.test(head) || /^\[Events\]/im.test(head))
+    return 'ass';
+  if (/\d+:\d{2}:\d{2},\d{1,3}\s*-->/.test(head)) return 'srt';
+  return null;
+}
+
+/**
+ * Parse SubRip (.srt) content
+ */
+export function parseSrt(content: string): ParsedCue[] {
+  const cues: ParsedCue[] = [];
+  const blocks = normalizeNewlines(content).split(/\n{2,}/);
+  for (const block of blocks) {
+    const rows = block.split('\n').filter((r) => r.trim().length > 0);
+    const timingIdx = rows.findIndex((r) => r.includes('-->'));
+    if (timingIdx === -1) continue;
+    const [rawStart, rawEnd] = rows[timingIdx].split(TIMING_ARROW);
+    const start = parseTimestamp(rawStart || '');
+    // Some tools append position hints (X1:... Y1:...) after the end time
+    const end = parseTimestamp((rawEnd || '').split(/\s+/)[0] || '');
+    if (start === null || end === null) continue;
+    const text = cleanCueText(rows.slice(timingIdx + 1));
+    cues.push({ start, end, text });
+  }
+  return cues;
+}
+
+/**
+ * Parse WebVTT (.vtt) content. NOTE, STYLE and REGION blocks are skipped.
+ */
+export function parseVtt(content: string): ParsedCue[] {
+  const cues: ParsedCue[] = [];
+  const blocks = normalizeNewlines(content).split(/\n{2,}/);
+  for (const block of blocks) {
+    const rows = block.split('\n').filter((r) => r.trim().length > 0);
+    if (rows.length === 0) continue;
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(rows[0])) continue;
+    const timingIdx = rows.findIndex((r) => r.includes('-->'));
+    if (timingIdx === -1) continue;
+    const [rawStart, rawRest] = rows[timingIdx].split(TIMING_ARROW);
+    const start = parseTimestamp(rawStart || '');
+    // Cue settings (line:, position:, align:) follow the end time
+    const end = parseTimestamp((rawRest || '').split(/\s+/)[0] || '');
+    if (start === null || end === null) continue;
+    const text = cleanCueText(rows.slice(timingIdx + 1));
+    cues.push({ start, end, text });
+  }
+  return cues;
+}
+
+/**
+ * Parse Advanced SubStation Alpha (.ass/.ssa) content from its [Events] section
+ */
+export function parseAss(content: string): ParsedCue[] {
+  const cues: ParsedCue[] = [];
+  let inEvents = false;
+  // Default field order of the V4+ Events section
+  let fields = [
+    'layer',
+    'start',
+    'end',
+    'style',
+    'name',
+    'marginl',
+    'marginr',
+    'marginv',
+    'effect',
+    'text',
+  ];
+
+  for (const row of normalizeNewlines(content).split('\n')) {
+    const line = row.trim();
+    if (line.startsWith('[')) {
+      inEvents = /^\[Events\]$/i.test(line);
+      continue;
+    }
+    if (!inEvents) continue;
+
+    if (/^Format:/i.test(line)) {
+      fields = line
+        .slice(line.indexOf(':') + 1)
+        .split(',')
+        .map((f) => f.trim().toLowerCase());
+      continue;
+    }
+    if (!/^Dialogue:/i.test(line)) continue;
+
+    // Text is always the last field and may itself contain commas
+    const parts = line.slice(line.indexOf(':') + 1).split(',');
+    const head = parts.slice(0, fields.length - 1);
+    const textValue = parts.slice(fields.length - 1).join(',');
+    const get = (name: string) => head[fields.indexOf(name)] ?? '';
+
+    const start = parseTimestamp(get('start'));
+    const end = parseTimestamp(get('end'));
+    if (start === null || end === null) continue;
+    const text = cleanCueText([
+      textValue.replace(/\\[Nn]/g, ' ').replace(/\\h/g, ' '),
+    ]);
+    cues.push({ start, end, text });
+  }
+  return cues;
+}
+
+/**
+ * Parse a subtitle file, picking the parser from its name or content
+ * @returns Cues sorted by start time, without empty ones
+ */
+export function parseSubtitleFile(
+  fileName: string,
+  content: string
+): { format: SubtitleFormat; cues: ParsedCue[] } {
+  const format = detectSubtitleFormat(fileName, content);
+  if (!format) {
+    throw new Error('Unsupported subtitle format. Use SRT, VTT or ASS.');
+  }
+  const parsed =
+    format === 'srt'
+      ? parseSrt(content)
+      : format === 'vtt'
+      ? parseVtt(content)
+      : parseAss(content);
+  const cues = parsed
+    .filter((c) => c.text.length > 0 && c.end > c.start)
+    .sort((a, b) => a.start - b.start);
+  return { format, cues };
+}
@@ -0,0 +1,111 @@
+import { DEFAULT_QC_THRESHOLDS, QcThresholds } from './qc';
+import { wrapText } from './wrap';
+
+/**
+ * Delivery profiles: a client's timed-text rules bundled with the file
+ * format they accept. Exporting with a profile re-wraps each cue to the
+ * profile's row limits and validates it against the profile's thresholds.
+ */
+
+export type DeliveryFormat = 'srt' | 'vtt' | 'ttml';
+
+export type DeliveryProfileId = 'netflix' | 'bbc' | 'youtube' | 'tiktok';
+
+export interface DeliveryProfile {
+  id: DeliveryProfileId;
+  name: string;
+  description: string;
+  format: DeliveryFormat;
+  thresholds: Omit<QcThresholds, 'frameRate'>;
+  // Refuse the export on errors; otherwise export and warn
+  strict: boolean;
+}
+
+export const DELIVERY_PROFILES: DeliveryProfile[] = [
+  {
+    id: 'netflix',
+    name: 'Netflix',
+    description: 'TTML, 42 characters × 2 rows, 20 cps, 2-frame gaps',
+    format: 'ttml',
+    thresholds: {
+      ...DEFAULT_QC_THRESHOLDS,
+      maxCps: 20,
+      maxCharsPerLine: 42,
+      maxLines: 2,
+      minDuration: 5 / 6,
+      maxDuration: 7,
+      minGapFrames: 2,
+    },
+    strict: true,
+  },
+  {
+    id: 'bbc',
+    name: 'BBC',
+    description: 'IMSC1 TTML, 37 characters × 2 rows, 16 cps',
+    format: 'ttml',
+    thresholds: {
+      ...DEFAULT_QC_THRESHOLDS,
+      maxCps: 16,
+      maxCharsPerLine: 37,
+      maxLines: 2,
+      minDuration: 1,
+      maxDuration: 8,
+      minGapFrames: 1,
+    },
+    strict: true,
+  },
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    description: 'SRT, 42 characters × 2 rows, 25 cps',
+    format: 'srt',
+    thresholds: {
+      ...DEFAULT_QC_THRESHOLDS,
+      maxCps: 25,
+      maxCharsPerLine: 42,
+      maxLines: 2,
+      minDuration: 0.5,
+      maxDuration: 10,
+      minGapFrames: 0,
+    },
+    strict: false,
+  },
+  {
+    id: 'tiktok',
+    name: 'TikTok',
+    description: 'SRT for vertical video, 32 characters × 2 rows, 20 cps',
+    format: 'srt',
+    thresholds: {
+      ...DEFAULT_QC_THRESHOLDS,
+      maxCps: 20,
+      maxCharsPerLine: 32,
+      maxLines: 2,
+      minDuration: 0.5,
+      maxDuration: 5,
+      minGapFrames: 0,
+    },
+    strict: false,
+  },
+];
+
+export const findDeliveryProfile = (id: string) =>
+  DELIVERY_PROFILES.find((p) => p.id === id);
+
+/**
+ * Re-wrap text to the profile's row length. Text whose rows already fit
+ * keeps its manual line breaks.
+ */
+export function wrapForProfile(
+  text: string,
+  { thresholds }: DeliveryProfile
+): string {
+  const { maxCharsPerLine, maxLines } = thresholds;
+  const rows = text.split(/\r?\n/);
+  if (
+    rows.length <= maxLines &&
+    rows.every((r) => r.length <= maxCharsPerLine)
+  ) {
+    return text;
+  }
+  return wrapText(text.replace(/\s*\n\s*/g, ' '), maxCharsPerLine).join('\n');
+}
@@ -0,0 +1,165 @@
+/**
+ * Tests for subtitle quality-control checks and auto-fixes
+ */
+
+import {
+  applyQcFixes,
+  DEFAULT_QC_THRESHOLDS,
+  runQcChecks,
+  QcLine,
+} from './qc';
+
+const line = (
+  id: number,
+  start: number,
+  end: number,
+  text: string,
+  extra: Partial<QcLine> = {}
+): QcLine => ({ id, start, end, text, ...extra });
+
+const types = (lines: QcLine[], languages = ['en']) =>
+  runQcChecks(lines, languages, 'en').map((i) => `${i.type}:${i.lineId}`);
+
+describe('runQcChecks', () => {
+  it('passes clean lines', () => {
+    expect(
+      types([line(1, 0, 2, 'Hello there'), line(2, 3, 5, 'General Kenobi')])
+    ).toEqual([]);
+  });
+
+  it('flags reading speed and offers to extend into the free gap', () => {
+    const issues = runQcChecks(
+      [line(1, 0, 1, 'This sentence is far too long'), line(2, 5, 6, 'Ok')],
+      ['en'],
+      'en'
+    );
+    const cps = issues.find((i) => i.type === 'cps');
+    expect(cps?.fix).toEqual({
+      label: 'Extend into gap',
+      start: 0,
+      end: 29 / 17,
+    });
+  });
+
+  it('flags short cues without a fix when there is no room', () => {
+    const issues = runQcChecks(
+      [line(1, 0, 0.5, 'Hi'), line(2, 0.5, 2, 'Next')],
+      ['en'],
+      'en'
+    );
+    const short = issues.find((i) => i.type === 'min-duration');
+    expect(short).toBeDefined();
+    expect(short?.fix).toBeUndefined();
+  });
+
+  it('flags overlaps and gaps under two frames', () => {
+    expect(
+      types([
+        line(1, 0, 2.5, 'One'),
+        line(2, 2, 4, 'Two'),
+        line(3, 4.04, 6, 'Three'),
+      ])
+    ).toEqual(['overlap:1', 'gap:2']);
+  });
+
+  it('flags long rows and re-wraps them', () => {
+    const text = 'A caption row that runs well past the forty two character limit';
+    const [issue] = runQcChecks([line(1, 0, 6, text)], ['en'], 'en');
+    expect(issue.type).toBe('cpl');
+    expect(issue.fix?.text?.split('\n').length).toBe(2);
+  });
+
+  it('flags too many rows', () => {
+    const [issue] = runQcChecks(
+      [line(1, 0, 6, 'One\nTwo\nThree')],
+      ['en'],
+      'en'
+    );
+    expect(issue.type).toBe('rows');
+    expect(issue.fix?.text).toBe('One Two Three');
+  });
+
+  it('checks translations per language', () => {
+    expect(
+      types(
+        [
+          line(1, 0, 2, 'Hello', {
+            translations: { fr: '' },
+            pending: { de: true },
+          }),
+        ],
+        ['en', 'fr', 'de']
+      )
+    ).toEqual(['empty:1', 'pending:1']);
+  });
+
+  it('flags translations that miss a glossary term', () => {
+    const issues = runQcChecks(
+      [line(1, 0, 2, 'Acme rocks', { translations: { fr: 'Ça déchire' } })],
+      ['en', 'fr'],
+      'en',
+      DEFAULT_QC_THRESHOLDS,
+      [{ source: 'Acme', targets: { fr: 'Acme SA' } }]
+    );
+    expect(issues.map((i) => [i.type, i.language])).toEqual([
+      ['glossary', 'fr'],
+    ]);
+  });
+});
+
+describe('applyQcFixes', () => {
+  it('applies timing and text fixes in one pass', () => {
+    const lines = [
+      line(1, 0, 2.5, 'One', { translations: { fr: 'Un' } }),
+      line(2, 2, 6, 'Two', {
+        translations: {
+          fr: 'Une traduction beaucoup trop longue pour une seule ligne',
+        },
+      }),
+    ];
+    const issues = runQcChecks(lines, ['en', 'fr'], 'en');
+    const fixed = applyQcFixes(lines, issues, 'en');
+    expect(fixed[0].end).toBe(2);
+    expect(fixed[1].translations?.fr).toContain('\n');
+    expect(runQcChecks(fixed, ['en', 'fr'], 'en')).toEqual([]);
+  });
+
+  it('extends neighbouring short lines without overlapping them', () => {
+    const lines = [
+      line(1, 0, 0.5, 'A'),
+      line(2, 1, 1.5, 'B'),
+      line(3, 1.6, 3, 'Next'),
+    ];
+    const fixed = applyQcFixes(lines, runQcChecks(lines, ['en'], 'en'), 'en');
+    expect(fixed[1].start).toBeGreaterThan(fixed[0].end);
+    expect(
+      runQcChecks(fixed, ['en'], 'en').filter((i) => i.type === 'overlap')
+    ).toEqual([]);
+  });
+
+  it('does not extend a line back over a closed gap', () => {
+    const lines = [
+      line(1, 0, 2, 'Before'),
+      line(2, 2.02, 2.5, 'Short'),
+      line(3, 2.6, 4, 'After'),
+    ];
+    const fixed = applyQcFixes(lines, runQcChecks(lines, ['en'], 'en'), 'en');
+    expect(fixed[0].end).toBe(2.02);
+    expect(fixed[1].start).toBe(2.02);
+  });
+
+  it('keeps word timings inside the moved line', () => {
+    const lines = [
+      line(1, 0, 3, 'One two', {
+        words: [
+          { word: 'One', start: 0, end: 1.5 },
+          { word: 'two', start: 1.5, end: 3 },
+        ],
+      }),
+      line(2, 2, 4, 'Next'),
+    ];
+    const fixed = applyQcFixes(lines, runQcChecks(lines, ['en'], 'en'), 'en');
+    expect(fixed[0].end).toBe(2);
+    expect(fixed[0].words?.[1]).toEqual({ word: 'two', start: 1, end: 2 });
+  });
+});
@@ -0,0 +1,404 @@
+import type {
+  GlossaryEntry,
+  TranscriptionJsonWord,
+} from '@/types/transcription';
+import { findGlossaryMisses } from './glossary';
+import { retimeWords } from './segments';
+import { wrapText } from './wrap';
+
+/**
+ * Subtitle quality control: reading speed, row length and count, cue
+ * duration, overlaps, tiny gaps, empty translations, pending translations
+ * and glossary terms.
+ * Timing checks run once per line; text checks run per language.
+ */
+
+export type QcIssueType =
+  | 'cps'
+  | 'cpl'
+  | 'rows'
+  | 'min-duration'
+  | 'max-duration'
+  | 'overlap'
+  | 'gap'
+  | 'empty'
+  | 'pending'
+  | 'glossary';
+
+export type QcSeverity = 'error' | 'warning';
+
+export interface QcLine {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  translations?: Record<string, string>;
+  pending?: Record<string, boolean>;
+  // Retimed along with the line when a fix moves it
+  words?: TranscriptionJsonWord[];
+}
+
+export interface QcThresholds {
+  // Maximum reading speed in characters per second
+  maxCps: number;
+  maxCharsPerLine: number;
+  // Rows a cue may be shown on
+  maxLines: number;
+  minDuration: number;
+  maxDuration: number;
+  // Gaps shorter than this many frames are flagged
+  minGapFrames: number;
+  frameRate: number;
+}
+
+export const DEFAULT_QC_THRESHOLDS: QcThresholds = {
+  maxCps: 17,
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  minDuration: 5 / 6,
+  maxDuration: 7,
+  minGapFrames: 2,
+  frameRate: 25,
+};
+
+export interface QcFix {
+  label: string;
+  start?: number;
+  end?: number;
+  text?: string;
+}
+
+export interface QcIssue {
+  id: string;
+  type: QcIssueType;
+  severity: QcSeverity;
+  lineId: number;
+  // Set for text checks; timing checks apply to every language
+  language?: string;
+  time: number;
+  message: string;
+  fix?: QcFix;
+}
+
+const EPSILON = 0.001;
+
+export const cueCharCount = (text: string) =>
+  text.replace(/\r?\n/g, '').length;
+
+/**
+ * Find a start/end that gives the line `duration` seconds without entering
+ * the neighbouring lines' minimum gap. Prefers moving the end.
+ */
+const extendInto = (
+  lines: QcLine[],
+  idx: number,
+  duration: number,
+  minGap: number
+): { start: number; end: number } | null => {
+  const line = lines[idx];
+  const prev = lines[idx - 1];
+  const next = lines[idx + 1];
+  const endLimit = next ? next.start - minGap : Infinity;
+  const startLimit = prev ? prev.end + minGap : 0;
+
+  const end = Math.min(line.start + duration, endLimit);
+  if (end < line.end) return null;
+  const start = Math.max(startLimit, Math.min(line.start, end - duration));
+  if (end - start < duration - EPSILON) return null;
+  return { start, end };
+};
+
+/**
+ * Run every check over the lines. `languages` lists the codes to check;
+ * the source language reads `text`, others read `translations[code]`.
+ */
+export function runQcChecks(
+  lines: QcLine[],
+  languages: string[],
+  sourceCode: string,
+  thresholds: QcThresholds = DEFAULT_QC_THRESHOLDS,
+  glossary: GlossaryEntry[] = []
+): QcIssue[] {
+  const {
+    maxCps,
+    maxCharsPerLine,
+    maxLines,
+    minDuration,
+    maxDuration,
+    minGapFrames,
+    frameRate,
+  } = thresholds;
+  const minGap = minGapFrames / frameRate;
+  const sorted = [...lines].sort((a, b) => a.start - b.start);
+  const issues: QcIssue[] = [];
+
+  const push = (issue: Omit<QcIssue, 'id' | 'time'>, line: QcLine) =>
+    issues.push({
+      ...issue,
+      id: `${issue.type}:${line.id}:${issue.language || ''}`,
+      time: line.start,
+    });
+
+  sorted.forEach((line, idx) => {
+    const duration = line.end - line.start;
+    const next = sorted[idx + 1];
+
+    if (duration < minDuration - EPSILON) {
+      const range = extendInto(sorted, idx, minDuration, minGap);
+      push(
+        {
+          type: 'min-duration',
+          severity: 'warning',
+          lineId: line.id,
+          message: `Shown for ${duration.toFixed(2)}s (min ${minDuration.toFixed(
+            2
+          )}s)`,
+          fix: range ? { label: 'Extend into gap', ...range } : undefined,
+        },
+        line
+      );
+    }
+    if (duration > maxDuration + EPSILON) {
+      push(
+        {
+          type: 'max-duration',
+          severity: 'warning',
+          lineId: line.id,
+          message: `Shown for ${duration.toFixed(
+            2
+          )}s (max ${maxDuration}s); consider splitting`,
+        },
+        line
+      );
+    }
+    if (next && next.start < line.end - EPSILON) {
+      const canTrim = next.start - line.start > EPSILON;
+      push(
+        {
+          type: 'overlap',
+          severity: 'error',
+          lineId: line.id,
+          message: `Overlaps the next line by ${(line.end - next.start).toFixed(
+            2
+          )}s`,
+          fix: canTrim
+            ? { label: 'Trim to next line', end: next.start }
+            : undefined,
+        },
+        line
+      );
+    } else if (next && next.start - line.end > EPSILON) {
+      const gap = next.start - line.end;
+      if (gap < minGap - EPSILON) {
+        push(
+          {
+            type: 'gap',
+            severity: 'warning',
+            lineId: line.id,
+            message: `Gap of ${Math.round(
+              gap * frameRate
+            )} frame(s) before the next line (min ${minGapFrames})`,
+            fix: { label: 'Close gap', end: next.start },
+          },
+          line
+        );
+      }
+    }
+
+    for (const code of languages) {
+      const isSource = code === sourceCode;
+      const text = (
+        isSource ? line.text : line.translations?.[code] || ''
+      ).trim();
+
+      if (!isSource && line.pending?.[code]) {
+        push(
+          {
+            type: 'pending',
+            severity: 'warning',
+            lineId: line.id,
+            language: code,
+            message: 'Translation still pending',
+          },
+          line
+        );
+        continue;
+      }
+      if (!text) {
+        if (!isSource && line.text.trim()) {
+          push(
+            {
+              type: 'empty',
+              severity: 'error',
+              lineId: line.id,
+              language: code,
+              message: 'Translation is empty',
+            },
+            line
+          );
+        }
+        continue;
+      }
+
+      const chars = cueCharCount(text);
+      const cps = chars / Math.max(duration, EPSILON);
+      if (cps > maxCps + EPSILON) {
+        const range = extendInto(sorted, idx, chars / maxCps, minGap);
+        push(
+          {
+            type: 'cps',
+            severity: 'error',
+            lineId: line.id,
+            language: code,
+            message: `Reading speed ${cps.toFixed(1)} cps (max ${maxCps})`,
+            fix:
+              range && range.end - range.start <= maxDuration
+                ? { label: 'Extend into gap', ...range }
+                : undefined,
+          },
+          line
+        );
+      }
+
+      const rows = text.split(/\r?\n/);
+      const longest = Math.max(...rows.map((r) => r.length));
+      const rewrapped = wrapText(
+        text.replace(/\s*\n\s*/g, ' '),
+        maxCharsPerLine
+      );
+      const rewrapFix =
+        rewrapped.length <= maxLines &&
+        rewrapped.every((r) => r.length <= maxCharsPerLine)
+          ? { label: 'Re-wrap', text: rewrapped.join('\n') }
+          : undefined;
+      if (longest > maxCharsPerLine) {
+        push(
+          {
+            type: 'cpl',
+            severity: 'error',
+            lineId: line.id,
+            language: code,
+            message: `${longest} characters on one row (max ${maxCharsPerLine})`,
+            fix: rewrapFix,
+          },
+          line
+        );
+      } else if (rows.length > maxLines) {
+        push(
+          {
+            type: 'rows',
+            severity: 'error',
+            lineId: line.id,
+            language: code,
+            message: `${rows.length} rows (max ${maxLines})`,
+            fix: rewrapFix,
+          },
+          line
+        );
+      }
+    }
+  });
+
+  // One issue per line and language, listing every term it misses
+  const misses = findGlossaryMisses(
+    sorted,
+    glossary,
+    languages.filter((code) => code !== sourceCode)
+  );
+  const grouped = new Map<string, typeof misses>();
+  for (const miss of misses) {
+    const key = `${miss.lineId}:${miss.language}`;
+    grouped.set(key, [...(grouped.get(key) || []), miss]);
+  }
+  grouped.forEach((group) => {
+    const line = sorted.find((l) => l.id === group[0].lineId)!;
+    push(
+      {
+        type: 'glossary',
+        severity: 'warning',
+        lineId: line.id,
+        language: group[0].language,
+        message: `Glossary: ${group
+          .map((m) => `"${m.source}" should be "${m.target}"`)
+          .join(', ')}`,
+      },
+      line
+    );
+  });
+
+  return issues;
+}
+
+/**
+ * Apply the fixes of the given issues, line by line in time order. Each
+ * extension is recomputed against the already-fixed previous line, so fixes
+ * on neighbouring lines cannot overlap each other. When several fixes move
+ * the same edge, shortening wins over extending so overlaps stay resolved.
+ */
+export function applyQcFixes<T extends QcLine>(
+  lines: T[],
+  issues: QcIssue[],
+  sourceCode: string,
+  thresholds: QcThresholds = DEFAULT_QC_THRESHOLDS
+): T[] {
+  const byLine = new Map<number, QcIssue[]>();
+  for (const issue of issues) {
+    if (!issue.fix) continue;
+    byLine.set(issue.lineId, [...(byLine.get(issue.lineId) || []), issue]);
+  }
+  if (byLine.size === 0) return lines;
+
+  const minGap = thresholds.minGapFrames / thresholds.frameRate;
+  const result = [...lines].sort((a, b) => a.start - b.start);
+  result.forEach((line, idx) => {
+    const lineIssues = byLine.get(line.id);
+    if (!lineIssues) return;
+    const fixes = lineIssues.map((i) => i.fix!);
+
+    // Trims and gap closes only set the end; extensions set both edges
+    const ends = fixes
+      .filter((f) => f.start === undefined && f.end !== undefined)
+      .map((f) => f.end!);
+    const durations = fixes
+      .filter((f) => f.start !== undefined && f.end !== undefined)
+      .map((f) => f.end! - f.start!);
+    const shorter = ends.filter((e) => e < line.end);
+
+    let start = line.start;
+    let end = line.end;
+    if (shorter.length) {
+      end = Math.min(...shorter);
+    } else {
+      const range = durations.length
+        ? extendInto(result, idx, Math.max(...durations), minGap)
+        : null;
+      if (range) {
+        start = range.start;
+        end = range.end;
+      }
+      if (ends.length) end = Math.max(end, ...ends);
+    }
+
+    let next: T = { ...line, start, end };
+    if (line.words && (start !== line.start || end !== line.end)) {
+      next = { ...next, words: retimeWords(line.words, line, next) };
+    }
+    for (const issue of lineIssues) {
+      const text = issue.fix!.text;
+      if (text === undefined || !issue.language) continue;
+      if (issue.language === sourceCode) {
+        next = { ...next, text };
+      } else {
+        next = {
+          ...next,
+          translations: {
+            ...(next.translations || {}),
+            [issue.language]: text,
+          },
+        };
+      }
+    }
+    result[idx] = next;
+  });
+  return result;
+}
@@ -0,0 +1,70 @@
+/**
+ * Tests for merging and splitting lines that carry translations
+ */
+
+import {
+  mergeLinePair,
+  splitLineAtWord,
+  splitTranslation,
+} from './restructure';
+
+const line = (id: number, start: number, text: string, fr: string) => {
+  const words = text.split(' ').map((word, i) => ({
+    word,
+    start: start + i,
+    end: start + i + 1,
+  }));
+  return {
+    id,
+    start,
+    end: start + words.length,
+    text,
+    words,
+    translations: { fr } as Record<string, string>,
+    review: undefined as Record<string, boolean> | undefined,
+  };
+};
+
+describe('splitTranslation', () => {
+  it('prefers a nearby sentence end over the exact proportion', () => {
+    expect(splitTranslation('Oui. Je viens avec toi demain', 0.3)).toEqual([
+      'Oui.',
+      'Je viens avec toi demain',
+    ]);
+  });
+
+  it('cuts between words, or between characters in unspaced scripts', () => {
+    expect(splitTranslation('un deux trois quatre', 0.5)).toEqual([
+      'un deux',
+      'trois quatre',
+    ]);
+    expect(splitTranslation('今日は雨です', 0.5)).toEqual(['今日は', '雨です']);
+  });
+});
+
+describe('mergeLinePair / splitLineAtWord', () => {
+  it('concatenates translations when merging', () => {
+    const merged = mergeLinePair(
+      line(1, 0, 'Hello there', 'Bonjour'),
+      line(2, 2, 'my friend', 'mon ami')
+    );
+    expect([merged.text, merged.translations!.fr]).toEqual([
+      'Hello there my friend',
+      'Bonjour mon ami',
+    ]);
+  });
+
+  it('divides translations and flags them for review when splitting', () => {
+    const [left, right] = splitLineAtWord(
+      line(1, 0, 'Hello there my friend', 'Bonjour, mon ami'),
+      1,
+      7
+    )!;
+    expect([left.translations.fr, right.translations.fr]).toEqual([
+      'Bonjour,',
+      'mon ami',
+    ]);
+    expect([right.id, right.start, left.end]).toEqual([7, 2, 2]);
+    expect([left.review, right.review]).toEqual([{ fr: true }, { fr: true }]);
+  });
+});
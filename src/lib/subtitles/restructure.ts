@@ -0,0 +1,163 @@
+/**
+ * Merge and split editor lines together with their translations
+ */
+
+import type { TranscriptionJsonWord } from '@/types/transcription';
+
+interface RestructureLine {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  words: TranscriptionJsonWord[];
+  translations?: Record<string, string>;
+  pending?: Record<string, boolean>;
+  // Languages whose translation was divided automatically and needs a check
+  review?: Record<string, boolean>;
+}
+
+const SENTENCE_END = /[.!?…。！？]["'»”)\]]*$/;
+const CLAUSE_END = /[,;:،、，；：\-–—]["'»”)\]]*$/;
+// Scripts written without spaces between words
+const UNSPACED_SCRIPT = /[\u3040-\u30ff\u3400-\u9fff\u0e00-\u0e7f]/;
+
+/**
+ * Divide a translation so the first part holds about `ratio` of the text.
+ * Cuts fall between words, preferring a nearby sentence end, then a clause
+ * break. Unspaced scripts (CJK, Thai) may be cut between any characters.
+ */
+export function splitTranslation(
+  text: string,
+  ratio: number
+): [string, string] {
+  const trimmed = text.trim();
+  const target = trimmed.length * ratio;
+
+  const cuts: number[] = [];
+  for (const m of trimmed.matchAll(/\s+/g)) cuts.push(m.index!);
+  if (cuts.length === 0 && UNSPACED_SCRIPT.test(trimmed)) {
+    for (let i = 1; i < trimmed.length; i++) cuts.push(i);
+  }
+  if (cuts.length === 0) return ratio >= 0.5 ? [trimmed, ''] : ['', trimmed];
+
+  let best = cuts[0];
+  let bestCost = Infinity;
+  for (const cut of cuts) {
+    const before = trimmed.slice(0, cut);
+    // Punctuation wins over an exact split when it is within a fifth
+    // (sentence) or a tenth (clause) of the text from the target
+    let bonus = 0;
+    if (SENTENCE_END.test(before)) bonus = 0.2;
+    else if (CLAUSE_END.test(before)) bonus = 0.1;
+    const cost = Math.abs(cut - target) / trimmed.length - bonus;
+    if (cost < bestCost) {
+      best = cut;
+      bestCost = cost;
+    }
+  }
+  return [trimmed.slice(0, best).trim(), trimmed.slice(best).trim()];
+}
+
+const joinText = (a = '', b = '') =>
+  [a.trim(), b.trim()].filter(Boolean).join(' ');
+
+const mergeFlags = (
+  a?: Record<string, boolean>,
+  b?: Record<string, boolean>
+) => (a || b ? { ...(a || {}), ...(b || {}) } : undefined);
+
+/**
+ * Join two lines into one spanning both, concatenating the source text and
+ * each language's translation in time order. Keeps the first line's id.
+ */
+export function mergeLinePair<T extends RestructureLine>(
+  first: T,
+  second: T
+): T {
+  const words = [...first.words, ...second.words];
+  const codes = new Set([
+    ...Object.keys(first.translations || {}),
+    ...Object.keys(second.translations || {}),
+  ]);
+  const translations: Record<string, string> = {};
+  for (const code of codes) {
+    translations[code] = joinText(
+      first.translations?.[code],
+      second.translations?.[code]
+    );
+  }
+  return {
+    ...first,
+    start: Math.min(first.start, second.start),
+    end: Math.max(first.end, second.end),
+    words,
+    text: words.map((w) => w.word).join(' '),
+    translations: codes.size > 0 ? translations : undefined,
+    review: mergeFlags(first.review, second.review),
+  };
+}
+
+/**
+ * Split a line after `wordIndex`. Translations are divided in proportion to
+ * the source text and flagged for review on both halves.
+ * @returns The two halves, or null when the index leaves a side empty
+ */
+export function splitLineAtWord<T extends RestructureLine>(
+  line: T,
+  wordIndex: number,
+  newId: number
+): [T, T] | null {
+  if (wordIndex < 0 || wordIndex >= line.words.length - 1) return null;
+  const leftWords = line.words.slice(0, wordIndex + 1);
+  const rightWords = line.words.slice(wordIndex + 1);
+  const leftText = leftWords.map((w) => w.word).join(' ');
+  const rightText = rightWords.map((w) => w.word).join(' ');
+  const ratio = leftText.length / (leftText.length + rightText.length);
+
+  const left: Record<string, string> = {};
+  const right: Record<string, string> = {};
+  const review: Record<string, boolean> = { ...(line.review || {}) };
+  for (const [code, text] of Object.entries(line.translations || {})) {
+    [left[code], right[code]] = splitTranslation(text || '', ratio);
+    if (text?.trim()) review[code] = true;
+  }
+  const hasTranslations = Object.keys(left).length > 0;
+  const hasReview = Object.keys(review).length > 0;
+
+  return [
+    {
+      ...line,
+      end: rightWords[0].start,
+      text: leftText,
+      words: leftWords,
+      translations: hasTranslations ? left : line.translations,
+      review: hasReview ? review : undefined,
+    },
+    {
+      ...line,
+      id: newId,
+      start: rightWords[0].start,
+      text: rightText,
+      words: rightWords,
+      translations: hasTranslations ? right : line.translations,
+      review: hasReview ? { ...review } : undefined,
+    },
+  ];
+}
+
+/**
+ * Drop the review flag of one language, once it was edited, retranslated or
+ * confirmed as is
+ */
+export function clearReview<T extends RestructureLine>(
+  line: T,
+  code: string
+): T {
+  if (!line.review?.[code]) return line;
+  const review = { ...line.review };
+  delete review[code];
+  return {
+    ...line,
+    review: Object.keys(review).length > 0 ? review : undefined,
+  };
+}
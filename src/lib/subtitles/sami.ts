@@ -0,0 +1,80 @@
+import { escapeXml } from './ttml';
+
+/**
+ * Microsoft SAMI (.smi) captions. Each cue opens a SYNC block and a
+ * non-breaking space clears it again when the next cue does not follow
+ * immediately.
+ */
+
+export interface SamiCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SamiOptions {
+  // ISO 639-1 code of the caption language
+  language: string;
+  languageName?: string;
+  title?: string;
+  // Hex text colour, e.g. `#ffffff`
+  color?: string;
+}
+
+// SAMI class names are plain identifiers, e.g. `ENCC` for English
+const samiClass = (language: string) =>
+  `${language.replace(/[^a-z0-9]/gi, '').toUpperCase() || 'UND'}CC`;
+
+export function buildSami(
+  cues: SamiCue[],
+  { language, languageName, title, color = '#ffffff' }: SamiOptions
+): string {
+  const className = samiClass(language);
+  const ms = (seconds: number) => Math.max(0, Math.round(seconds * 1000));
+  const body: string[] = [];
+
+  cues.forEach((cue, idx) => {
+    const text = cue.text.trim();
+    if (!text) return;
+    const lines = text
+      .replace(/\r\n?/g, '\n')
+      .split('\n')
+      .filter((line) => line.trim())
+      .map(escapeXml);
+    body.push(
+      `<SYNC Start=${ms(cue.start)}><P Class=${className}>${lines.join(
+        '<br>'
+      )}</P></SYNC>`
+    );
+    const next = cues.slice(idx + 1).find((c) => c.text.trim());
+    if (!next || ms(next.start) > ms(cue.end)) {
+      body.push(
+        `<SYNC Start=${ms(cue.end)}><P Class=${className}>&nbsp;</P></SYNC>`
+      );
+    }
+  });
+
+  return [
+    '<SAMI>',
+    '<HEAD>',
+    `<TITLE>${escapeXml(title || 'Captions')}</TITLE>`,
+    '<SAMIParam>',
+    '  Metrics {time:ms;}',
+    '  Spec {MSFT:1.0;}',
+    '</SAMIParam>',
+    '<STYLE TYPE="text/css">',
+    '<!--',
+    `P { margin-left: 8pt; margin-right: 8pt; margin-bottom: 2pt; margin-top: 2pt; text-align: center; font-family: Arial, sans-serif; font-weight: normal; color: ${color}; background-color: black; }`,
+    `.${className} { Name: "${escapeXml(
+      languageName || language
+    )}"; lang: ${escapeXml(language)}; SAMIType: CC; }`,
+    '-->',
+    '</STYLE>',
+    '</HEAD>',
+    '<BODY>',
+    ...body,
+    '</BODY>',
+    '</SAMI>',
+    '',
+  ].join('\n');
+}
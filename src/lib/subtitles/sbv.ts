@@ -0,0 +1,24 @@
+import { formatSbvTime } from './time';
+
+/**
+ * YouTube SBV captions: a `start,end` line followed by the cue text
+ */
+
+export interface SbvCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export function buildSbv(cues: SbvCue[]): string {
+  const chunks: string[] = [];
+  for (const cue of cues) {
+    const text = cue.text.replace(/\r\n?/g, '\n').trim();
+    if (!text) continue;
+    chunks.push(`${formatSbvTime(cue.start)},${formatSbvTime(cue.end)}`);
+    // A blank line ends the cue, so empty lines inside the text are dropped
+    chunks.push(text.replace(/\n\s*\n/g, '\n'));
+    chunks.push('');
+  }
+  return chunks.join('\n');
+}
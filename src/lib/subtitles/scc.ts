@@ -0,0 +1,285 @@
+import type { SubtitlePosition } from '@/lib/store/video-settings';
+import { formatDropFrameTimecode } from './time';
+import { wrapText } from './wrap';
+
+/**
+ * Scenarist (.scc) writer producing CEA-608 pop-on captions on channel 1.
+ * Each cue is loaded into non-displayed memory ahead of its start time and
+ * flipped on screen with End Of Caption, so it appears on the exact frame.
+ */
+
+export interface SccCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SccIssue {
+  // 1-based cue number within the exported language
+  cue: number;
+  message: string;
+}
+
+export const SCC_MAX_CHARS_PER_ROW = 32;
+export const SCC_MAX_ROWS = 4;
+
+const FPS = 30000 / 1001;
+
+// Channel 1 miscellaneous control codes (without parity)
+const RCL = [0x14, 0x20]; // Resume Caption Loading (pop-on)
+const EDM = [0x14, 0x2c]; // Erase Displayed Memory
+const ENM = [0x14, 0x2e]; // Erase Non-displayed Memory
+const EOC = [0x14, 0x2f]; // End Of Caption (flip memories)
+
+// Preamble address code bytes for rows 1-15
+const PAC_ROWS: Array<[number, number]> = [
+  [0x11, 0x40],
+  [0x11, 0x60],
+  [0x12, 0x40],
+  [0x12, 0x60],
+  [0x15, 0x40],
+  [0x15, 0x60],
+  [0x16, 0x40],
+  [0x16, 0x60],
+  [0x17, 0x40],
+  [0x17, 0x60],
+  [0x10, 0x40],
+  [0x13, 0x40],
+  [0x13, 0x60],
+  [0x14, 0x40],
+  [0x14, 0x60],
+];
+
+// Basic character set positions that differ from ASCII
+const BASIC_OVERRIDES: Record<string, number> = {
+  á: 0x2a,
+  é: 0x5c,
+  í: 0x5e,
+  ó: 0x5f,
+  ú: 0x60,
+  ç: 0x7b,
+  '÷': 0x7c,
+  Ñ: 0x7d,
+  ñ: 0x7e,
+  '■': 0x7f,
+};
+
+// ASCII characters whose basic-set slot holds something else
+const ASCII_REPLACED = new Set(['*', '\\', '^', '_', '`', '{', '|', '}', '~']);
+
+// Special North American characters (0x11 0x30-0x3F)
+const SPECIAL_CHARS = '®°½¿™¢£♪à èâêîôû';
+
+// Extended characters: 0x12 0x20-0x3F and 0x13 0x20-0x3F
+const EXTENDED_12 = 'ÁÉÓÚÜü‘¡*’—©℠•“”ÀÂÇÈÊËëÎÏïÔÙùÛ«»';
+const EXTENDED_13 = 'ÃãÍÌìÒòÕõ{}\\^_|~ÄäÖöß¥¤¦ÅåØø┌┐└┘';
+
+type EncodedChar =
+  | { kind: 'basic'; byte: number }
+  | { kind: 'pair'; bytes: [number, number]; fallback?: number };
+
+const encodeChar = (ch: string): EncodedChar | null => {
+  if (BASIC_OVERRIDES[ch] !== undefined) {
+    return { kind: 'basic', byte: BASIC_OVERRIDES[ch] };
+  }
+  const code = ch.charCodeAt(0);
+  if (
+    ch.length === 1 &&
+    code >= 0x20 &&
+    code < 0x7f &&
+    !ASCII_REPLACED.has(ch)
+  ) {
+    return { kind: 'basic', byte: code };
+  }
+  const special = SPECIAL_CHARS.indexOf(ch);
+  if (special !== -1 && ch !== ' ') {
+    return { kind: 'pair', bytes: [0x11, 0x30 + special] };
+  }
+  // Extended characters overwrite the preceding character, so send a
+  // basic-set approximation first for decoders without extended support
+  const fallback = ch.normalize('NFD').charCodeAt(0);
+  const basicFallback =
+    fallback >= 0x20 && fallback < 0x7f && !ASCII_REPLACED.has(ch)
+      ? fallback
+      : 0x20;
+  const ext12 = EXTENDED_12.indexOf(ch);
+  if (ext12 !== -1) {
+    return {
+      kind: 'pair',
+      bytes: [0x12, 0x20 + ext12],
+      fallback: basicFallback,
+    };
+  }
+  const ext13 = EXTENDED_13.indexOf(ch);
+  if (ext13 !== -1) {
+    return {
+      kind: 'pair',
+      bytes: [0x13, 0x20 + ext13],
+      fallback: basicFallback,
+    };
+  }
+  return null;
+};
+
+// Normalise typography that has a direct 608 equivalent
+const normalizeText = (text: string) =>
+  text.replace(/…/g, '...').replace(/–/g, '-');
+
+/**
+ * List the distinct characters in `text` that CEA-608 cannot display
+ */
+export function findUnsupportedSccChars(text: string): string[] {
+  const out = new Set<string>();
+  for (const ch of normalizeText(text)) {
+    if (ch === '\n' || ch === '\r') continue;
+    if (!encodeChar(ch)) out.add(ch);
+  }
+  return Array.from(out);
+}
+
+const rowsForCue = (cue: SccCue) =>
+  wrapText(normalizeText(cue.text), SCC_MAX_CHARS_PER_ROW);
+
+/**
+ * Check that every cue wraps into at most 4 rows of 32 characters
+ * @returns One issue per cue that cannot be displayed as a 608 caption
+ */
+export function validateSccCues(cues: SccCue[]): SccIssue[] {
+  const issues: SccIssue[] = [];
+  cues.forEach((cue, idx) => {
+    const rows = rowsForCue(cue);
+    const longest = rows.reduce((max, r) => Math.max(max, r.length), 0);
+    if (longest > SCC_MAX_CHARS_PER_ROW) {
+      issues.push({
+        cue: idx + 1,
+        message: `row of ${longest} characters exceeds the ${SCC_MAX_CHARS_PER_ROW}-character limit`,
+      });
+    } else if (rows.length > SCC_MAX_ROWS) {
+      issues.push({
+        cue: idx + 1,
+        message: `needs ${rows.length} rows (max ${SCC_MAX_ROWS})`,
+      });
+    }
+  });
+  return issues;
+}
+
+// CEA-608 bytes carry odd parity in bit 7
+const withParity = (byte: number): number => {
+  let bits = 0;
+  for (let b = byte & 0x7f; b; b >>= 1) bits += b & 1;
+  return bits % 2 === 0 ? byte | 0x80 : byte & 0x7f;
+};
+
+const toWord = (hi: number, lo: number) =>
+  (withParity(hi) << 8) | withParity(lo);
+
+// Control codes are sent twice so a single corrupted pair is not lost
+const control = (bytes: number[]) => [
+  toWord(bytes[0], bytes[1]),
+  toWord(bytes[0], bytes[1]),
+];
+
+const firstRowFor = (position: SubtitlePosition, rows: number) => {
+  if (position === 'top') return 1;
+  if (position === 'middle') return 8 - Math.floor(rows / 2);
+  return 15 - rows + 1;
+};
+
+// PAC plus tab offsets placing a row of `length` characters centred
+const rowPosition = (row: number, length: number): number[] => {
+  const [hi, base] = PAC_ROWS[row - 1];
+  const column = Math.floor((SCC_MAX_CHARS_PER_ROW - length) / 2);
+  const indent = Math.floor(column / 4);
+  const words = control([hi, base + 0x10 + indent * 2]);
+  const tabs = column % 4;
+  if (tabs > 0) words.push(...control([0x17, 0x20 + tabs]));
+  return words;
+};
+
+const encodeRow = (row: string): number[] => {
+  const words: number[] = [];
+  let pending: number | null = null;
+  const pushBasic = (byte: number) => {
+    if (pending === null) {
+      pending = byte;
+    } else {
+      words.push(toWord(pending, byte));
+      pending = null;
+    }
+  };
+  const flush = () => {
+    if (pending !== null) {
+      words.push(toWord(pending, 0x00));
+      pending = null;
+    }
+  };
+
+  for (const ch of row) {
+    const encoded = encodeChar(ch);
+    if (!encoded) continue;
+    if (encoded.kind === 'basic') {
+      pushBasic(encoded.byte);
+      continue;
+    }
+    if (encoded.fallback !== undefined) pushBasic(encoded.fallback);
+    flush();
+    words.push(...control(encoded.bytes));
+  }
+  flush();
+  return words;
+};
+
+const buildPopOn = (cue: SccCue, position: SubtitlePosition): number[] => {
+  const rows = rowsForCue(cue).slice(0, SCC_MAX_ROWS);
+  const words = [...control(RCL), ...control(ENM)];
+  const first = firstRowFor(position, rows.length);
+  rows.forEach((row, i) => {
+    words.push(...rowPosition(first + i, row.length), ...encodeRow(row));
+  });
+  words.push(...control(EOC));
+  return words;
+};
+
+const toFrames = (seconds: number) => Math.max(0, Math.round(seconds * FPS));
+
+const formatLine = (frame: number, words: number[]) =>
+  `${formatDropFrameTimecode(frame / FPS)}\t${words
+    .map((w) => w.toString(16).padStart(4, '0'))
+    .join(' ')}`;
+
+/**
+ * Build a Scenarist SCC document. Call validateSccCues first: rows beyond
+ * the 608 limits are dropped here rather than rejected.
+ */
+export function buildScc(
+  cues: SccCue[],
+  position: SubtitlePosition = 'bottom'
+): string {
+  const encoded = cues.map((cue) => buildPopOn(cue, position));
+  const out: string[] = ['Scenarist_SCC V1.0', ''];
+  // Each two-byte word occupies one frame
+  let cursor = 0;
+
+  cues.forEach((cue, idx) => {
+    const words = encoded[idx];
+    const display = toFrames(cue.start);
+    const loadAt = Math.max(cursor, display - words.length);
+    out.push(formatLine(loadAt, words), '');
+    cursor = loadAt + words.length;
+
+    // Clear the screen unless the next caption replaces this one in time
+    const end = toFrames(cue.end);
+    const next = cues[idx + 1];
+    const nextLoad = next
+      ? toFrames(next.start) - encoded[idx + 1].length
+      : Infinity;
+    if (nextLoad > end + 2) {
+      const clearAt = Math.max(end, cursor);
+      out.push(formatLine(clearAt, control(EDM)), '');
+      cursor = clearAt + 2;
+    }
+  });
+
+  return out.join('\n');
+}
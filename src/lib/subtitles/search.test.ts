@@ -0,0 +1,93 @@
+/**
+ * Tests for find and replace patterns, matching and replacement
+ */
+
+import {
+  buildSearchPattern,
+  findMatches,
+  replaceText,
+  SearchOptions,
+} from './search';
+
+const options = (query: string, extra: Partial<SearchOptions> = {}) => ({
+  query,
+  regex: false,
+  wholeWord: false,
+  caseSensitive: false,
+  ...extra,
+});
+
+const pattern = (query: string, extra: Partial<SearchOptions> = {}) =>
+  buildSearchPattern(options(query, extra)) as RegExp;
+
+describe('buildSearchPattern', () => {
+  it('returns null for an empty query and an Error for a bad regex', () => {
+    expect(buildSearchPattern(options(''))).toBe(null);
+    expect(
+      buildSearchPattern(options('(', { regex: true })) instanceof Error
+    ).toBe(true);
+  });
+
+  it('escapes literal queries and honours case sensitivity', () => {
+    expect('a.b axb'.match(pattern('a.b'))).toEqual(['a.b']);
+    expect('a.b axb'.match(pattern('a.b', { regex: true }))).toEqual([
+      'a.b',
+      'axb',
+    ]);
+    expect(
+      'Acme acme'.match(pattern('acme', { caseSensitive: true }))
+    ).toEqual(['acme']);
+  });
+
+  it('treats accented letters as word characters for whole words', () => {
+    const caf = pattern('caf', { wholeWord: true });
+    expect('café caf'.replace(caf, '_')).toBe('café _');
+    expect(
+      'Über über-cool'.match(pattern('über', { wholeWord: true }))
+    ).toEqual(['Über', 'über']);
+  });
+});
+
+describe('findMatches', () => {
+  it('lists matches per language and skips empty ones', () => {
+    const lines = [
+      { id: 1, start: 0, text: 'a cat', translations: { fr: 'un chat' } },
+      { id: 2, start: 2, text: 'no' },
+    ];
+    const matches = findMatches(lines, ['en', 'fr'], 'en', /a*/gu).map((m) => [
+      m.lineId,
+      m.language,
+      m.index,
+      m.length,
+    ]);
+    expect(matches).toEqual([
+      [1, 'en', 0, 1],
+      [1, 'en', 3, 1],
+      [1, 'fr', 5, 1],
+    ]);
+  });
+});
+
+describe('replaceText', () => {
+  it('replaces only the match starting at `at`', () => {
+    expect(
+      replaceText('cat cat cat', pattern('cat'), 'dog', { regex: false, at: 4 })
+    ).toBe('cat dog cat');
+    expect(
+      replaceText('cat cat', pattern('cat'), 'dog', { regex: false })
+    ).toBe('dog dog');
+  });
+
+  it('expands group references in regex mode', () => {
+    const date = pattern('(?<d>\\d+)/(\\d+)', { regex: true });
+    expect(
+      replaceText('3/12', date, '$2-$<d> $$1 [$&]', { regex: true })
+    ).toBe('12-3 $1 [3/12]');
+  });
+
+  it('inserts the replacement literally outside regex mode', () => {
+    expect(
+      replaceText('a.b', pattern('a.b'), '$1 $&', { regex: false })
+    ).toBe('$1 $&');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Find and replace over line text and translations
+ */
+
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  wholeWord: boolean;
+  caseSensitive: boolean;
+}
+
+export interface SearchLine {
+  id: number;
+  start: number;
+  text: string;
+  translations?: Record<string, string>;
+}
+
+export interface SearchMatch {
+  lineId: number;
+  language: string;
+  time: number;
+  // Offset and length of the match within the field's text
+  index: number;
+  length: number;
+  text: string;
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile the search options into a global RegExp
+ * @returns The pattern, null for an empty query, or an Error for an invalid
+ * regular expression
+ */
+export function buildSearchPattern({
+  query,
+  regex,
+  wholeWord,
+  caseSensitive,
+}: SearchOptions): RegExp | Error | null {
+  if (!query) return null;
+  let source = regex ? query : escapeRegExp(query);
+  // Unicode-aware word boundaries, so accented letters count as word characters
+  if (wholeWord) {
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+  try {
+    return new RegExp(source, `gu${caseSensitive ? '' : 'i'}`);
+  } catch (e) {
+    return e as Error;
+  }
+}
+
+const fieldText = (line: SearchLine, code: string, sourceCode: string) =>
+  code === sourceCode ? line.text : line.translations?.[code] ?? '';
+
+/**
+ * List every match in the given languages, in line order
+ */
+export function findMatches(
+  lines: SearchLine[],
+  languages: string[],
+  sourceCode: string,
+  pattern: RegExp
+): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  for (const line of lines) {
+    for (const code of languages) {
+      const text = fieldText(line, code, sourceCode);
+      if (!text) continue;
+      for (const m of text.matchAll(pattern)) {
+        // Skip empty matches (e.g. `a*`), which cannot be highlighted
+        if (!m[0]) continue;
+        matches.push({
+          lineId: line.id,
+          language: code,
+          time: line.start,
+          index: m.index ?? 0,
+          length: m[0].length,
+          text,
+        });
+      }
+    }
+  }
+  return matches;
+}
+
+// Expand `$&`, `$1`, `$<name>` and `$$` in a regex replacement template
+const expandTemplate = (
+  template: string,
+  match: string,
+  groups: Array<string | undefined>,
+  named?: Record<string, string | undefined>
+) =>
+  template.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, key, name) => {
+    if (key === '$') return '$';
+    if (key === '&') return match;
+    if (name !== undefined) return named?.[name] ?? '';
+    const n = Number(key);
+    return n > 0 && n <= groups.length ? groups[n - 1] ?? '' : token;
+  });
+
+/**
+ * Replace one match (the one starting at `at`) or every match of `pattern`
+ * in `text`. Regex replacements may use `$1` style group references; plain
+ * replacements are inserted literally.
+ */
+export function replaceText(
+  text: string,
+  pattern: RegExp,
+  replacement: string,
+  { regex, at }: { regex: boolean; at?: number }
+): string {
+  return text.replace(pattern, (match: string, ...rest: unknown[]) => {
+    const offsetIdx = rest.findIndex((a) => typeof a === 'number');
+    const offset = rest[offsetIdx] as number;
+    if (at !== undefined && offset !== at) return match;
+    if (!regex) return replacement;
+    const named = rest[offsetIdx + 2];
+    return expandTemplate(
+      replacement,
+      match,
+      rest.slice(0, offsetIdx) as Array<string | undefined>,
+      typeof named === 'object'
+        ? (named as Record<string, string | undefined>)
+        : undefined
+    );
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * Tests for keeping word timings across text edits and line moves
+ */
+
+import { retimeWords, updateWordTimings } from './segments';
+
+const words = [
+  { word: 'the', start: 0, end: 0.5 },
+  { word: 'quikc', start: 0.6, end: 1.2 },
+  { word: 'fox', start: 1.5, end: 2 },
+];
+
+describe('updateWordTimings', () => {
+  it('keeps unchanged words and gives a fixed word its old span', () => {
+    expect(updateWordTimings(words, 'the quick fox', 0, 2)).toEqual([
+      words[0],
+      { word: 'quick', start: 0.5, end: 1.5 },
+      words[2],
+    ]);
+  });
+
+  it('splits touching neighbours to make room for an inserted word', () => {
+    const touching = [
+      { word: 'a', start: 0, end: 1 },
+      { word: 'b', start: 1, end: 2 },
+    ];
+    expect(updateWordTimings(touching, 'a new b', 0, 2)).toEqual([
+      { word: 'a', start: 0, end: 0.5 },
+      { word: 'new', start: 0.5, end: 1.5 },
+      { word: 'b', start: 1.5, end: 2 },
+    ]);
+  });
+
+  it('drops deleted words without moving the rest', () => {
+    expect(updateWordTimings(words, 'the fox', 0, 2)).toEqual([
+      words[0],
+      words[2],
+    ]);
+  });
+});
+
+describe('retimeWords', () => {
+  it('shifts words with a moved line', () => {
+    expect(
+      retimeWords(words, { start: 0, end: 2 }, { start: 10, end: 12 })
+    ).toEqual([
+      { word: 'the', start: 10, end: 10.5 },
+      { word: 'quikc', start: 10.6, end: 11.2 },
+      { word: 'fox', start: 11.5, end: 12 },
+    ]);
+  });
+
+  it('scales words with a stretched line and keeps them inside it', () => {
+    expect(
+      retimeWords(
+        [
+          { word: 'a', start: -1, end: 1 },
+          { word: 'b', start: 1, end: 2 },
+        ],
+        { start: 0, end: 2 },
+        { start: 0, end: 4 }
+      )
+    ).toEqual([
+      { word: 'a', start: 0, end: 2 },
+      { word: 'b', start: 2, end: 4 },
+    ]);
+  });
+});
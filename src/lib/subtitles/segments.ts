@@ -0,0 +1,138 @@
+import type {
+  TranscriptionJsonSegment,
+  TranscriptionJsonWord,
+} from '@/types/transcription';
+import type { ParsedCue } from './parse';
+
+/**
+ * Spread word timings across a time span, weighting each word by its length
+ * so long words get proportionally more time than short ones
+ */
+export function estimateWordTimings(
+  text: string,
+  start: number,
+  end: number
+): TranscriptionJsonWord[] {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return [];
+  const duration = Math.max(0, end - start);
+  const totalWeight = tokens.reduce((sum, t) => sum + t.length + 1, 0);
+
+  let cursor = start;
+  return tokens.map((word, i) => {
+    const wordStart = cursor;
+    const wordEnd =
+      i === tokens.length - 1
+        ? end
+        : cursor + (duration * (word.length + 1)) / totalWeight;
+    cursor = wordEnd;
+    return { word, start: wordStart, end: wordEnd };
+  });
+}
+
+/**
+ * Build transcription segments from parsed subtitle cues
+ */
+export function buildSegmentsFromCues(
+  cues: ParsedCue[]
+): TranscriptionJsonSegment[] {
+  return cues.map((cue, id) => ({
+    id,
+    start: cue.start,
+    end: cue.end,
+    text: cue.text,
+    words: estimateWordTimings(cue.text, cue.start, cue.end),
+  }));
+}
+
+/**
+ * Map word timings from a line's old span onto its new span, so moving a
+ * line shifts its words and stretching it scales them proportionally
+ */
+export function retimeWords(
+  words: TranscriptionJsonWord[],
+  from: { start: number; end: number },
+  to: { start: number; end: number }
+): TranscriptionJsonWord[] {
+  const fromDuration = from.end - from.start;
+  const scale = fromDuration > 0 ? (to.end - to.start) / fromDuration : 1;
+  const map = (t: number) =>
+    Math.min(to.end, Math.max(to.start, to.start + (t - from.start) * scale));
+  return words.map((w) => ({ ...w, start: map(w.start), end: map(w.end) }));
+}
+
+// Pair each new token with an old word via longest common subsequence;
+// -1 marks tokens that were inserted or changed
+const matchTokens = (before: string[], after: string[]): number[] => {
+  const lcs = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const matches = new Array<number>(after.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      matches[j] = i;
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+};
+
+/**
+ * Rebuild a line's words after its text was edited. Unchanged words keep
+ * their timings; inserted or changed words are spread over the gap between
+ * the surrounding unchanged ones, so fixing a typo only touches that word.
+ */
+export function updateWordTimings(
+  words: TranscriptionJsonWord[],
+  text: string,
+  start: number,
+  end: number
+): TranscriptionJsonWord[] {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return estimateWordTimings(text, start, end);
+  const matches = matchTokens(words.map((w) => w.word), tokens);
+
+  const result: TranscriptionJsonWord[] = [];
+  // Start of the next kept word when inserted words borrowed part of it
+  let borrowedStart: number | null = null;
+  let i = 0;
+  while (i < tokens.length) {
+    if (matches[i] >= 0) {
+      const kept = { ...words[matches[i]] };
+      if (borrowedStart !== null) kept.start = borrowedStart;
+      borrowedStart = null;
+      result.push(kept);
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < tokens.length && matches[j] < 0) j++;
+    const prev = result[result.length - 1];
+    const next = j < tokens.length ? words[matches[j]] : undefined;
+    let from = prev ? prev.end : start;
+    let to = next ? next.start : end;
+    // Inserted between two touching words: take half of each neighbour
+    if (to - from < 0.01) {
+      if (prev) from = prev.end = (prev.start + prev.end) / 2;
+      if (next) to = borrowedStart = (next.start + next.end) / 2;
+    }
+    result.push(...estimateWordTimings(tokens.slice(i, j).join(' '), from, to));
+    i = j;
+  }
+  return result;
+}
@@ -0,0 +1,63 @@
+/**
+ * Tests for speaker labels and their export formats
+ */
+
+import { buildSrt } from './srt';
+import { buildVtt } from './vtt';
+import {
+  mergeSpeakers,
+  newSpeaker,
+  resolveSpeakers,
+  speakerName,
+} from './speakers';
+
+describe('resolveSpeakers', () => {
+  it('numbers unnamed speakers in order of appearance', () => {
+    const speakers = resolveSpeakers({ B: { name: 'Ana', color: '#fff' } }, [
+      { start: 5, speaker: 'B' },
+      { start: 2, speaker: 'SPEAKER_01' },
+      { start: 0 },
+    ]);
+    expect(Object.keys(speakers)).toEqual(['B', 'SPEAKER_01']);
+    expect(speakers.SPEAKER_01.name).toBe('Speaker 2');
+    expect(speakerName(speakers, 'B')).toBe('Ana');
+  });
+
+  it('picks an unused id for a new speaker', () => {
+    expect(newSpeaker({ S2: { name: 'x', color: '#000' } }).id).toBe('S3');
+  });
+});
+
+describe('mergeSpeakers', () => {
+  it("keeps this tab's edits and takes the rest from the remote table", () => {
+    const base = {
+      S1: { name: 'Speaker 1', color: '#000' },
+      S2: { name: 'Speaker 2', color: '#111' },
+    };
+    const local = { ...base, S1: { name: 'Ana', color: '#000' } };
+    const remote = {
+      S1: { name: 'Speaker 1', color: '#fff' },
+      S2: { name: 'Ben', color: '#111' },
+      S3: { name: 'Cy', color: '#222' },
+    };
+    expect(mergeSpeakers(base, local, remote)).toEqual({
+      S1: { name: 'Ana', color: '#000' },
+      S2: { name: 'Ben', color: '#111' },
+      S3: { name: 'Cy', color: '#222' },
+    });
+  });
+});
+
+describe('speaker export', () => {
+  const cues = [{ start: 0, end: 1, text: 'Hi there', speaker: 'Ana' }];
+
+  it('prefixes SRT text with the speaker name', () => {
+    expect(buildSrt(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,000\n- Ana: Hi there\n'
+    );
+  });
+
+  it('writes VTT voice tags', () => {
+    expect(buildVtt(cues)).toContain('<v Ana>Hi there');
+  });
+});
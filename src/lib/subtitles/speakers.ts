@@ -0,0 +1,82 @@
+/**
+ * Speaker labels from diarization. Segments carry a speaker id; names and
+ * colours live in one table on the transcription so renaming a speaker
+ * updates every line at once.
+ */
+
+import type { SpeakerInfo } from '@/types/transcription';
+
+export const SPEAKER_COLORS = [
+  '#FACC15',
+  '#38BDF8',
+  '#F472B6',
+  '#4ADE80',
+  '#FB923C',
+  '#A78BFA',
+  '#F87171',
+  '#2DD4BF',
+];
+
+const defaultSpeaker = (index: number): SpeakerInfo => ({
+  name: `Speaker ${index + 1}`,
+  color: SPEAKER_COLORS[index % SPEAKER_COLORS.length],
+});
+
+/**
+ * Complete speaker table: every id used on a line gets an entry, numbered in
+ * order of first appearance when the stored table has none
+ */
+export function resolveSpeakers(
+  speakers: Record<string, SpeakerInfo> | undefined,
+  lines: Array<{ start: number; speaker?: string }>
+): Record<string, SpeakerInfo> {
+  const resolved: Record<string, SpeakerInfo> = { ...speakers };
+  const used = [...lines]
+    .sort((a, b) => a.start - b.start)
+    .map((l) => l.speaker)
+    .filter((id): id is string => !!id);
+  for (const id of used) {
+    if (resolved[id]) continue;
+    resolved[id] = defaultSpeaker(Object.keys(resolved).length);
+  }
+  return resolved;
+}
+
+const sameSpeaker = (a?: SpeakerInfo, b?: SpeakerInfo) =>
+  a?.name === b?.name && a?.color === b?.color;
+
+/**
+ * Combine this tab's speaker table with one saved elsewhere since `base`:
+ * speakers renamed or recoloured here keep this tab's version, every other
+ * speaker takes the remote one
+ */
+export function mergeSpeakers(
+  base: Record<string, SpeakerInfo> = {},
+  local: Record<string, SpeakerInfo> = {},
+  remote: Record<string, SpeakerInfo> = {}
+): Record<string, SpeakerInfo> {
+  const merged: Record<string, SpeakerInfo> = { ...remote };
+  for (const [id, info] of Object.entries(local)) {
+    if (!merged[id] || !sameSpeaker(info, base[id])) merged[id] = info;
+  }
+  return merged;
+}
+
+/**
+ * Id and defaults for a speaker added by hand
+ */
+export function newSpeaker(speakers: Record<string, SpeakerInfo>): {
+  id: string;
+  info: SpeakerInfo;
+} {
+  const count = Object.keys(speakers).length;
+  let n = count + 1;
+  while (speakers[`S${n}`]) n++;
+  return { id: `S${n}`, info: defaultSpeaker(count) };
+}
+
+export const speakerName = (
+  speakers: Record<string, SpeakerInfo>,
+  id?: string
+): string | undefined =>
+  id ? speakers[id]?.name.trim() || id : undefined;
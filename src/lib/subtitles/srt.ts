@@ -0,0 +1,26 @@
+import { formatSrtTime } from './time';
+
+export interface SrtCue {
+  start: number;
+  end: number;
+  text: string;
+  // Speaker name, written as a "- Name:" prefix
+  speaker?: string;
+}
+
+/**
+ * Build an SRT file; cues without text are skipped and numbering stays
+ * continuous
+ */
+export function buildSrt(cues: SrtCue[]): string {
+  const chunks: string[] = [];
+  let idx = 1;
+  for (const cue of cues) {
+    if (!cue.text) continue;
+    chunks.push(String(idx++));
+    chunks.push(`${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}`);
+    chunks.push(cue.speaker ? `- ${cue.speaker}: ${cue.text}` : cue.text);
+    chunks.push('');
+  }
+  return chunks.join('\n');
+}
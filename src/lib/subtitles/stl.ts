@@ -0,0 +1,397 @@
+import type { SubtitlePosition } from '@/lib/store/video-settings';
+import { wrapText } from './wrap';
+
+/**
+ * EBU Tech 3264 (.stl) writer.
+ * Produces a 1024-byte GSI header followed by one 128-byte TTI block per cue,
+ * using Teletext display (DSC 1) and the Latin character code table (CCT 00).
+ */
+
+export type StlFrameRate = 25 | 30;
+
+export interface StlCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface StlOptions {
+  // Programme title written to the OPT/TPT fields
+  title?: string;
+  // ISO 639-1 code of the subtitle language
+  language: string;
+  frameRate?: StlFrameRate;
+  position?: SubtitlePosition;
+  // Seconds added to every cue and written as the programme start timecode
+  startOffset?: number;
+  maxCharsPerRow?: number;
+  maxRows?: number;
+}
+
+export interface StlIssue {
+  // 1-based cue number within the exported language
+  cue: number;
+  message: string;
+}
+
+// Teletext subtitles conventionally use 40 columns and two rows
+export const STL_MAX_CHARS_PER_ROW = 40;
+export const STL_MAX_ROWS = 2;
+
+const GSI_SIZE = 1024;
+const TTI_SIZE = 128;
+const TEXT_FIELD_SIZE = 112;
+const ROW_BREAK = 0x8a;
+const FILLER = 0x8f;
+const JUSTIFY_CENTRE = 0x02;
+
+// EBU Tech 3264 Appendix 3 language codes, keyed by ISO 639-1
+const LANGUAGE_CODES: Record<string, number> = {
+  sq: 0x01,
+  br: 0x02,
+  ca: 0x03,
+  hr: 0x04,
+  cy: 0x05,
+  cs: 0x06,
+  da: 0x07,
+  de: 0x08,
+  en: 0x09,
+  es: 0x0a,
+  eo: 0x0b,
+  et: 0x0c,
+  eu: 0x0d,
+  fo: 0x0e,
+  fr: 0x0f,
+  fy: 0x10,
+  ga: 0x11,
+  gd: 0x12,
+  gl: 0x13,
+  is: 0x14,
+  it: 0x15,
+  se: 0x16,
+  la: 0x17,
+  lv: 0x18,
+  lb: 0x19,
+  lt: 0x1a,
+  hu: 0x1b,
+  mt: 0x1c,
+  nl: 0x1d,
+  no: 0x1e,
+  nb: 0x1e,
+  nn: 0x1e,
+  oc: 0x1f,
+  pl: 0x20,
+  pt: 0x21,
+  ro: 0x22,
+  rm: 0x23,
+  sr: 0x24,
+  sk: 0x25,
+  sl: 0x26,
+  fi: 0x27,
+  sv: 0x28,
+  tr: 0x29,
+  zu: 0x45,
+  vi: 0x46,
+  uz: 0x47,
+  ur: 0x48,
+  uk: 0x49,
+  th: 0x4a,
+  te: 0x4b,
+  tt: 0x4c,
+  ta: 0x4d,
+  tg: 0x4e,
+  sw: 0x4f,
+  so: 0x51,
+  si: 0x52,
+  sn: 0x53,
+  ru: 0x56,
+  qu: 0x57,
+  ps: 0x58,
+  pa: 0x59,
+  fa: 0x5a,
+  or: 0x5c,
+  ne: 0x5d,
+  mr: 0x5f,
+  mo: 0x60,
+  ms: 0x61,
+  mg: 0x62,
+  mk: 0x63,
+  lo: 0x64,
+  ko: 0x65,
+  km: 0x66,
+  kk: 0x67,
+  kn: 0x68,
+  ja: 0x69,
+  id: 0x6a,
+  hi: 0x6b,
+  he: 0x6c,
+  ha: 0x6d,
+  gn: 0x6e,
+  gu: 0x6f,
+  el: 0x70,
+  ka: 0x71,
+  ff: 0x72,
+  zh: 0x75,
+  my: 0x76,
+  bg: 0x77,
+  bn: 0x78,
+  be: 0x79,
+  bm: 0x7a,
+  az: 0x7b,
+  as: 0x7c,
+  hy: 0x7d,
+  ar: 0x7e,
+  am: 0x7f,
+};
+
+// ISO 6937 non-spacing diacritics, written before the base letter
+const DIACRITICS: Record<string, number> = {
+  '\u0300': 0xc1,
+  '\u0301': 0xc2,
+  '\u0302': 0xc3,
+  '\u0303': 0xc4,
+  '\u0304': 0xc5,
+  '\u0306': 0xc6,
+  '\u0307': 0xc7,
+  '\u0308': 0xc8,
+  '\u030a': 0xca,
+  '\u0327': 0xcb,
+  '\u030b': 0xcd,
+  '\u0328': 0xce,
+  '\u030c': 0xcf,
+};
+
+// Characters that differ from ASCII or live in the upper half of ISO 6937
+const SPECIAL_CHARS: Record<string, number> = {
+  $: 0xa4,
+  '¡': 0xa1,
+  '£': 0xa3,
+  '¥': 0xa5,
+  '§': 0xa7,
+  '‘': 0xa9,
+  '“': 0xaa,
+  '«': 0xab,
+  '°': 0xb0,
+  '±': 0xb1,
+  '’': 0xb9,
+  '”': 0xba,
+  '»': 0xbb,
+  '¿': 0xbf,
+  '—': 0xd0,
+  '–': 0xd0,
+  Æ: 0xe1,
+  Đ: 0xe2,
+  Ø: 0xe9,
+  Œ: 0xea,
+  Þ: 0xec,
+  Ł: 0xe8,
+  æ: 0xf1,
+  đ: 0xf2,
+  ð: 0xf3,
+  ı: 0xf5,
+  ł: 0xf8,
+  ø: 0xf9,
+  œ: 0xfa,
+  ß: 0xfb,
+  þ: 0xfc,
+};
+
+const UNKNOWN_CHAR = 0x3f; // '?'
+
+/**
+ * Encode one row of text in the ISO 6937 based Latin table (CCT 00).
+ * Characters outside the table are replaced with '?'.
+ */
+export function encodeStlText(text: string): number[] {
+  const bytes: number[] = [];
+  for (const ch of text.replace(/…/g, '...')) {
+    const code = ch.charCodeAt(0);
+    if (SPECIAL_CHARS[ch] !== undefined) {
+      bytes.push(SPECIAL_CHARS[ch]);
+      continue;
+    }
+    if (code >= 0x20 && code < 0x7f) {
+      bytes.push(code);
+      continue;
+    }
+    // Accented letters: decompose into base letter + combining mark
+    const [base, mark, ...rest] = Array.from(ch.normalize('NFD'));
+    const prefix = mark ? DIACRITICS[mark] : undefined;
+    if (
+      base &&
+      prefix !== undefined &&
+      rest.length === 0 &&
+      base.charCodeAt(0) < 0x7f
+    ) {
+      bytes.push(prefix, base.charCodeAt(0));
+    } else {
+      bytes.push(UNKNOWN_CHAR);
+    }
+  }
+  return bytes;
+}
+
+const rowsForCue = (cue: StlCue, maxChars: number) =>
+  wrapText(cue.text, maxChars);
+
+/**
+ * Check cues against the STL row length, row count and text field size
+ * @returns One issue per offending cue; empty when the file can be written
+ */
+export function validateStlCues(
+  cues: StlCue[],
+  maxCharsPerRow = STL_MAX_CHARS_PER_ROW,
+  maxRows = STL_MAX_ROWS
+): StlIssue[] {
+  const issues: StlIssue[] = [];
+  cues.forEach((cue, idx) => {
+    const rows = rowsForCue(cue, maxCharsPerRow);
+    const longest = rows.reduce((max, r) => Math.max(max, r.length), 0);
+    if (longest > maxCharsPerRow) {
+      issues.push({
+        cue: idx + 1,
+        message: `row of ${longest} characters exceeds the ${maxCharsPerRow}-character row length`,
+      });
+    } else if (rows.length > maxRows) {
+      issues.push({
+        cue: idx + 1,
+        message: `needs ${rows.length} rows of ${maxCharsPerRow} characters (max ${maxRows})`,
+      });
+    } else {
+      const size = rows.reduce(
+        (sum, r, i) => sum + encodeStlText(r).length + (i > 0 ? 1 : 0),
+        0
+      );
+      if (size > TEXT_FIELD_SIZE) {
+        issues.push({
+          cue: idx + 1,
+          message: `text needs ${size} bytes (max ${TEXT_FIELD_SIZE})`,
+        });
+      }
+    }
+  });
+  return issues;
+}
+
+const writeAscii = (
+  buf: Uint8Array,
+  offset: number,
+  length: number,
+  value: string
+) => {
+  // GSI text fields use code page 850; keep to its ASCII subset
+  const ascii = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+  for (let i = 0; i < length; i++) {
+    buf[offset + i] = i < ascii.length ? ascii.charCodeAt(i) : 0x20;
+  }
+};
+
+const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+
+const toTimecodeParts = (seconds: number, fps: number) => {
+  const total = Math.max(0, Math.round(seconds * fps));
+  const f = total % fps;
+  const totalSeconds = Math.floor(total / fps);
+  return {
+    h: Math.floor(totalSeconds / 3600) % 24,
+    m: Math.floor(totalSeconds / 60) % 60,
+    s: totalSeconds % 60,
+    f,
+  };
+};
+
+const timecodeString = (seconds: number, fps: number) => {
+  const { h, m, s, f } = toTimecodeParts(seconds, fps);
+  return `${pad(h)}${pad(m)}${pad(s)}${pad(f)}`;
+};
+
+// Teletext rows run 1-23 and each row break advances one row
+const verticalPosition = (position: SubtitlePosition, rows: number) => {
+  if (position === 'top') return 1;
+  if (position === 'middle') return 12 - Math.floor((rows - 1) / 2);
+  return 23 - rows;
+};
+
+/**
+ * Build an EBU STL file. Call validateStlCues first: cues that do not fit
+ * are truncated here rather than rejected.
+ */
+export function buildStl(cues: StlCue[], options: StlOptions): Uint8Array {
+  const {
+    title = '',
+    language,
+    frameRate = 25,
+    position = 'bottom',
+    startOffset = 0,
+    maxCharsPerRow = STL_MAX_CHARS_PER_ROW,
+    maxRows = STL_MAX_ROWS,
+  } = options;
+
+  const buf = new Uint8Array(GSI_SIZE + TTI_SIZE * cues.length);
+  buf.fill(0x20, 0, GSI_SIZE);
+
+  const now = new Date();
+  const date = `${pad(now.getFullYear() % 100)}${pad(
+    now.getMonth() + 1
+  )}${pad(now.getDate())}`;
+  const langCode =
+    LANGUAGE_CODES[language.trim().toLowerCase().split(/[-_]/)[0]] ?? 0;
+
+  writeAscii(buf, 0, 3, '850');
+  writeAscii(buf, 3, 8, `STL${frameRate}.01`);
+  writeAscii(buf, 11, 1, '1');
+  writeAscii(buf, 12, 2, '00');
+  writeAscii(buf, 14, 2, langCode.toString(16).toUpperCase().padStart(2, '0'));
+  writeAscii(buf, 16, 32, title);
+  writeAscii(buf, 80, 32, title);
+  writeAscii(buf, 224, 6, date);
+  writeAscii(buf, 230, 6, date);
+  writeAscii(buf, 236, 2, '00');
+  writeAscii(buf, 238, 5, pad(cues.length, 5));
+  writeAscii(buf, 243, 5, pad(cues.length, 5));
+  writeAscii(buf, 248, 3, '001');
+  writeAscii(buf, 251, 2, pad(maxCharsPerRow));
+  writeAscii(buf, 253, 2, '23');
+  writeAscii(buf, 255, 1, '1');
+  writeAscii(buf, 256, 8, timecodeString(startOffset, frameRate));
+  writeAscii(
+    buf,
+    264,
+    8,
+    timecodeString((cues[0]?.start ?? 0) + startOffset, frameRate)
+  );
+  writeAscii(buf, 272, 1, '1');
+  writeAscii(buf, 273, 1, '1');
+
+  cues.forEach((cue, idx) => {
+    const offset = GSI_SIZE + idx * TTI_SIZE;
+    const rows = rowsForCue(cue, maxCharsPerRow).slice(0, maxRows);
+    const tcIn = toTimecodeParts(cue.start + startOffset, frameRate);
+    const tcOut = toTimecodeParts(cue.end + startOffset, frameRate);
+
+    buf[offset] = 0; // subtitle group
+    buf[offset + 1] = (idx + 1) & 0xff;
+    buf[offset + 2] = ((idx + 1) >> 8) & 0xff;
+    buf[offset + 3] = 0xff; // last (only) extension block
+    buf[offset + 4] = 0; // not part of a cumulative set
+    buf.set([tcIn.h, tcIn.m, tcIn.s, tcIn.f], offset + 5);
+    buf.set([tcOut.h, tcOut.m, tcOut.s, tcOut.f], offset + 9);
+    buf[offset + 13] = verticalPosition(position, Math.max(1, rows.length));
+    buf[offset + 14] = JUSTIFY_CENTRE;
+    buf[offset + 15] = 0; // not a comment
+
+    const text: number[] = [];
+    rows.forEach((row, i) => {
+      if (i > 0) text.push(ROW_BREAK);
+      text.push(...encodeStlText(row));
+    });
+    const field = new Uint8Array(TEXT_FIELD_SIZE).fill(FILLER);
+    field.set(text.slice(0, TEXT_FIELD_SIZE));
+    buf.set(field, offset + 16);
+  });
+
+  return buf;
+}
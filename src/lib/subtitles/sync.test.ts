@@ -0,0 +1,48 @@
+/**
+ * Tests for global offset, two-point stretch and frame-rate conversion
+ */
+
+import {
+  applySync,
+  fpsTransform,
+  offsetTransform,
+  stretchTransform,
+} from './sync';
+
+const line = (id: number, start: number, end: number) => ({
+  id,
+  start,
+  end,
+  words: [{ word: 'hi', start, end }],
+});
+
+describe('applySync', () => {
+  it('shifts lines and words, clamping at zero', () => {
+    const [a, b] = applySync(
+      [line(1, 0.5, 1), line(2, 3, 4)],
+      offsetTransform(-1)
+    );
+    expect([a.start, a.end]).toEqual([0, 0.01]);
+    expect([b.start, b.end, b.words[0].start]).toEqual([2, 3, 2]);
+  });
+
+  it('only touches lines in the given range', () => {
+    const lines = [line(1, 0, 1), line(2, 2, 3)];
+    const synced = applySync(lines, offsetTransform(1), new Set([2]));
+    expect(synced[0]).toBe(lines[0]);
+    expect(synced[1].start).toBe(3);
+  });
+
+  it('maps two anchors exactly and scales for frame-rate changes', () => {
+    const stretch = stretchTransform(
+      { from: 10, to: 11 },
+      { from: 20, to: 23 }
+    );
+    const synced = applySync([line(1, 10, 15), line(2, 20, 21)], stretch!);
+    expect(synced.map((l) => l.start)).toEqual([11, 23]);
+    expect(synced[0].end).toBe(17);
+
+    const [pal] = applySync([line(1, 25, 50)], fpsTransform(24, 25));
+    expect([pal.start, pal.end]).toEqual([24, 48]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Whole-file timing corrections: constant offset, two-point linear stretch
+ * and frame-rate conversion. Each one is a linear map t → t * scale + offset
+ * applied to cue and word timings alike.
+ */
+
+export interface SyncTransform {
+  scale: number;
+  offset: number;
+}
+
+interface SyncWord {
+  start: number;
+  end: number;
+}
+
+interface SyncLine {
+  id: number;
+  start: number;
+  end: number;
+  words?: SyncWord[];
+}
+
+export interface FpsPreset {
+  label: string;
+  from: number;
+  to: number;
+}
+
+// 23.976 and 29.97 are the NTSC rates 24000/1001 and 30000/1001
+export const FPS_PRESETS: FpsPreset[] = [
+  { label: '23.976 → 25 (PAL speed-up)', from: 24000 / 1001, to: 25 },
+  { label: '25 → 23.976 (PAL slow-down)', from: 25, to: 24000 / 1001 },
+  { label: '24 → 25', from: 24, to: 25 },
+  { label: '25 → 24', from: 25, to: 24 },
+  { label: '23.976 → 24', from: 24000 / 1001, to: 24 },
+  { label: '24 → 23.976', from: 24, to: 24000 / 1001 },
+  { label: '29.97 → 25', from: 30000 / 1001, to: 25 },
+  { label: '25 → 29.97', from: 25, to: 30000 / 1001 },
+];
+
+export const offsetTransform = (seconds: number): SyncTransform => ({
+  scale: 1,
+  offset: seconds,
+});
+
+/**
+ * Map two reference points to new times; everything else moves
+ * proportionally. Returns null when the two points coincide.
+ */
+export function stretchTransform(
+  first: { from: number; to: number },
+  second: { from: number; to: number }
+): SyncTransform | null {
+  const span = second.from - first.from;
+  if (Math.abs(span) < 1e-6) return null;
+  const scale = (second.to - first.to) / span;
+  if (!(scale > 0)) return null;
+  return { scale, offset: first.to - first.from * scale };
+}
+
+/**
+ * Playing material made at `fromFps` back at `toFps` shortens it by
+ * fromFps / toFps, so the cues are scaled by the same factor
+ */
+export const fpsTransform = (
+  fromFps: number,
+  toFps: number
+): SyncTransform => ({
+  scale: fromFps / toFps,
+  offset: 0,
+});
+
+export const applyTransform = (t: number, transform: SyncTransform) =>
+  Math.max(0, t * transform.scale + transform.offset);
+
+/**
+ * Apply a transform to every line (or only those in `ids`), including word
+ * timings. Untouched lines keep their identity so history stays compact.
+ */
+export function applySync<T extends SyncLine>(
+  lines: T[],
+  transform: SyncTransform,
+  ids?: Set<number>
+): T[] {
+  const map = (t: number) => applyTransform(t, transform);
+  return lines
+    .map((line) => {
+      if (ids && !ids.has(line.id)) return line;
+      const start = map(line.start);
+      // Keep a sliver of duration when a negative offset clamps both to 0
+      const end = Math.max(start + 0.01, map(line.end));
+      return {
+        ...line,
+        start,
+        end,
+        words: line.words?.map((w) => ({
+          ...w,
+          start: Math.min(end, map(w.start)),
+          end: Math.min(end, map(w.end)),
+        })),
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,122 @@
+/**
+ * Timestamp helpers shared by the subtitle parsers and writers
+ */
+
+/**
+ * Parse a subtitle timestamp into seconds.
+ * Accepts SRT (`00:01:02,500`), WebVTT (`01:02.500`, `00:01:02.500`)
+ * and ASS (`0:01:02.50`) notations.
+ * @returns Seconds, or null when the value is not a timestamp
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = value
+    .trim()
+    .match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h, m, s, frac] = match;
+  const hours = h ? parseInt(h, 10) : 0;
+  const minutes = parseInt(m, 10);
+  const seconds = parseInt(s, 10);
+  // ASS uses centiseconds, SRT/VTT milliseconds: scale by digit count
+  const fraction = frac ? parseInt(frac, 10) / Math.pow(10, frac.length) : 0;
+  if (minutes > 59 || seconds > 59) return null;
+  return hours * 3600 + minutes * 60 + seconds + fraction;
+}
+
+const splitTime = (seconds: number) => {
+  const msTotal = Math.max(0, Math.round(seconds * 1000));
+  const ms = msTotal % 1000;
+  const totalSeconds = Math.floor(msTotal / 1000);
+  const s = totalSeconds % 60;
+  const totalMinutes = Math.floor(totalSeconds / 60);
+  const m = totalMinutes % 60;
+  const h = Math.floor(totalMinutes / 60);
+  return { h, m, s, ms };
+};
+
+const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+
+/**
+ * Format seconds as an SRT timestamp (`00:01:02,500`)
+ */
+export function formatSrtTime(seconds: number): string {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+}
+
+/**
+ * Format seconds as a WebVTT timestamp (`00:01:02.500`)
+ */
+export function formatVttTime(seconds: number): string {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`;
+}
+
+/**
+ * Format seconds as a YouTube SBV timestamp (`0:01:02.500`)
+ */
+export function formatSbvTime(seconds: number): string {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${h}:${pad(m)}:${pad(s)}.${pad(ms, 3)}`;
+}
+
+/**
+ * Format seconds as an LRC timestamp (`01:02.50`); minutes are not wrapped
+ */
+export function formatLrcTime(seconds: number): string {
+  const csTotal = Math.max(0, Math.round(seconds * 100));
+  const cs = csTotal % 100;
+  const totalSeconds = Math.floor(csTotal / 100);
+  return `${pad(Math.floor(totalSeconds / 60))}:${pad(
+    totalSeconds % 60
+  )}.${pad(cs)}`;
+}
+
+/**
+ * Format seconds as an ASS timestamp (`0:01:02.50`, centisecond precision)
+ */
+export function formatAssTime(seconds: number): string {
+  const csTotal = Math.max(0, Math.round(seconds * 100));
+  const cs = csTotal % 100;
+  const totalSeconds = Math.floor(csTotal / 100);
+  const s = totalSeconds % 60;
+  const totalMinutes = Math.floor(totalSeconds / 60);
+  const m = totalMinutes % 60;
+  const h = Math.floor(totalMinutes / 60);
+  return `${h}:${pad(m)}:${pad(s)}.${pad(cs)}`;
+}
+
+/**
+ * Parse a start timecode into seconds.
+ * Accepts SMPTE `HH:MM:SS:FF` (frames counted at `frameRate`) as well as
+ * the millisecond notations understood by parseTimestamp.
+ * @returns Seconds, or null when the value is not a timecode
+ */
+export function parseTimecode(value: string, frameRate = 25): number | null {
+  const smpte = value.trim().match(/^(\d{1,2}):(\d{2}):(\d{2})[:;](\d{2})$/);
+  if (!smpte) return parseTimestamp(value);
+  const [, h, m, s, f] = smpte.map(Number);
+  if (m > 59 || s > 59 || f >= Math.ceil(frameRate)) return null;
+  return h * 3600 + m * 60 + s + f / frameRate;
+}
+
+/**
+ * Format seconds as a 29.97 fps drop-frame SMPTE timecode (`01:00:00;00`).
+ * Frame numbers 00 and 01 are skipped at the start of every minute except
+ * each tenth minute, so the timecode tracks wall-clock time.
+ */
+export function formatDropFrameTimecode(seconds: number): string {
+  const frames = Math.max(0, Math.round((seconds * 30000) / 1001));
+  const framesPer10Min = 17982;
+  const framesPerMin = 1798;
+  const tens = Math.floor(frames / framesPer10Min);
+  const rem = frames % framesPer10Min;
+  const dropped =
+    18 * tens + (rem < 2 ? 0 : 2 * Math.floor((rem - 2) / framesPerMin));
+  const n = frames + dropped;
+  const ff = n % 30;
+  const ss = Math.floor(n / 30) % 60;
+  const mm = Math.floor(n / 1800) % 60;
+  const hh = Math.floor(n / 108000);
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)};${pad(ff)}`;
+}
@@ -0,0 +1,38 @@
+/**
+ * Tests for playhead-driven timing edits
+ */
+
+import { setLineIn, setLineOut, splitLineAtTime } from './timing';
+
+const words = [
+  { word: 'one', start: 0, end: 1 },
+  { word: 'two', start: 1, end: 2 },
+  { word: 'three', start: 2, end: 4 },
+];
+const lines = [{ id: 1, start: 0, end: 4, text: 'one two three', words }];
+
+describe('setLineIn', () => {
+  it('moves the line when the in-point passes its end', () => {
+    const [line] = setLineIn(lines, 1, 6)!;
+    expect([line.start, line.end]).toEqual([6, 10]);
+    expect(line.words[2].end).toBe(10);
+  });
+});
+
+describe('setLineOut', () => {
+  it('rejects an out-point before the start', () => {
+    expect(setLineOut(lines, 1, 0)).toBe(null);
+    expect(setLineOut(lines, 1, 2)![0].words[2].end).toBe(2);
+  });
+});
+
+describe('splitLineAtTime', () => {
+  it('splits at the closest word boundary', () => {
+    const split = splitLineAtTime(lines, 1, 1.8)!;
+    expect(split.secondId).toBe(2);
+    expect(split.lines.map((l) => [l.text, l.start, l.end])).toEqual([
+      ['one two', 0, 2],
+      ['three', 2, 4],
+    ]);
+  });
+});
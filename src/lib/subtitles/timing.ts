@@ -0,0 +1,94 @@
+/**
+ * Line edits for keyboard timing mode, where in- and out-points and splits
+ * are taken from the playhead. Each returns the new line list, or null when
+ * the edit does not apply at that time.
+ */
+
+import type { TranscriptionJsonWord } from '@/types/transcription';
+import { retimeWords } from './segments';
+import { splitLineAtWord } from './restructure';
+
+interface TimedLine {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  words: TranscriptionJsonWord[];
+  translations?: Record<string, string>;
+  review?: Record<string, boolean>;
+}
+
+const MIN_DURATION = 0.01;
+
+const retime = <T extends TimedLine>(
+  line: T,
+  start: number,
+  end: number
+): T => ({
+  ...line,
+  start,
+  end,
+  words: retimeWords(line.words || [], line, { start, end }),
+});
+
+/**
+ * Start the line at `time`; an in-point past the out-point moves the whole
+ * line, keeping its duration
+ */
+export function setLineIn<T extends TimedLine>(
+  lines: T[],
+  id: number,
+  time: number
+): T[] | null {
+  const line = lines.find((l) => l.id === id);
+  if (!line) return null;
+  const start = Math.max(0, time);
+  const end =
+    start > line.end - MIN_DURATION
+      ? start + (line.end - line.start)
+      : line.end;
+  return lines
+    .map((l) => (l.id === id ? retime(l, start, end) : l))
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * End the line at `time`, which has to be after its start
+ */
+export function setLineOut<T extends TimedLine>(
+  lines: T[],
+  id: number,
+  time: number
+): T[] | null {
+  const line = lines.find((l) => l.id === id);
+  if (!line || time < line.start + MIN_DURATION) return null;
+  return lines.map((l) => (l.id === id ? retime(l, l.start, time) : l));
+}
+
+/**
+ * Split the line at the word boundary closest to `time`
+ * @returns The new line list and the id of the second half
+ */
+export function splitLineAtTime<T extends TimedLine>(
+  lines: T[],
+  id: number,
+  time: number
+): { lines: T[]; secondId: number } | null {
+  const line = lines.find((l) => l.id === id);
+  if (!line || !line.words || line.words.length < 2) return null;
+  // First word of the second half
+  let boundary = 1;
+  for (let i = 2; i < line.words.length; i++) {
+    const distance = Math.abs(line.words[i].start - time);
+    if (distance < Math.abs(line.words[boundary].start - time)) boundary = i;
+  }
+  const secondId = lines.reduce((max, l) => (l.id > max ? l.id : max), 0) + 1;
+  const parts = splitLineAtWord(line, boundary - 1, secondId);
+  if (!parts) return null;
+  return {
+    lines: lines
+      .flatMap((l) => (l.id === id ? parts : [l]))
+      .sort((a, b) => a.start - b.start),
+    secondId,
+  };
+}
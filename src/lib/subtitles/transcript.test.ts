@@ -0,0 +1,71 @@
+/**
+ * Tests for transcript paragraphs and the PDF writer
+ */
+
+import {
+  buildTranscriptParagraphs,
+  buildTranscriptPdf,
+  TranscriptParagraph,
+} from './transcript';
+
+const cue = (start: number, end: number, text: string) => ({
+  start,
+  end,
+  text,
+});
+
+const readPdf = async (paragraphs: TranscriptParagraph[], title?: string) =>
+  Buffer.from(
+    await (await buildTranscriptPdf(paragraphs, { title })).arrayBuffer()
+  ).toString('latin1');
+
+describe('buildTranscriptParagraphs', () => {
+  it('starts a paragraph after a long pause and stamps each interval', () => {
+    const paragraphs = buildTranscriptParagraphs(
+      [
+        cue(0, 1, 'One.'),
+        cue(1.5, 2, ' '),
+        cue(5, 6, 'Two.'),
+        cue(61, 62, 'Three.'),
+      ],
+      { paragraphGap: 2, timestampInterval: 60 }
+    );
+    expect(paragraphs).toEqual([
+      { start: 0, runs: [{ text: 'One.', timestamp: 0 }] },
+      { start: 5, runs: [{ text: 'Two.' }] },
+      { start: 61, runs: [{ text: 'Three.', timestamp: 61 }] },
+    ]);
+  });
+});
+
+describe('buildTranscriptPdf', () => {
+  it('writes WinAnsi text with a valid cross-reference table', async () => {
+    const pdf = await readPdf(
+      [{ start: 0, runs: [{ text: 'Café (opening) ’94', timestamp: 0 }] }],
+      'Hearing'
+    );
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Caf\xe9 \\(opening\\) \x9294) Tj');
+    expect(pdf).toContain('/F3 9 Tf');
+
+    const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xref, xref + 4)).toBe('xref');
+    const offsets = pdf
+      .slice(xref)
+      .split('\n')
+      .filter((l) => l.endsWith(' n '))
+      .map((l) => Number(l.slice(0, 10)));
+    offsets.forEach((offset, i) =>
+      expect(pdf.slice(offset, offset + 8)).toBe(`${i + 1} 0 obj\n`)
+    );
+  });
+
+  it('wraps long paragraphs and continues on new pages', async () => {
+    const text = Array.from({ length: 900 }, () => 'word').join(' ');
+    const pdf = await readPdf([{ start: 0, runs: [{ text }] }]);
+    expect(pdf).toContain('/Count 2');
+    const lines = pdf.match(/\(word[ a-z]*\) Tj/g)!;
+    expect(lines.length).toBeGreaterThan(40);
+    lines.forEach((l) => expect(l.length).toBeLessThan(120));
+  });
+});
@@ -0,0 +1,675 @@
+import JSZip from 'jszip';
+import { escapeXml } from './ttml';
+
+/**
+ * Formatted transcripts (PDF, HTML, DOCX) built from editor lines.
+ * Lines are grouped into paragraphs wherever the pause between them is long.
+ */
+
+export type TranscriptFormat = 'pdf' | 'html' | 'docx';
+
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TranscriptOptions {
+  title?: string;
+  description?: string;
+  languageName?: string;
+  // Start a new paragraph when the silence between lines exceeds this (seconds)
+  paragraphGap?: number;
+  // Insert a timestamp every N seconds; 0 disables timestamps
+  timestampInterval?: number;
+}
+
+export interface TranscriptRun {
+  // Set when a timestamp marker precedes this text
+  timestamp?: number;
+  text: string;
+}
+
+export interface TranscriptParagraph {
+  start: number;
+  runs: TranscriptRun[];
+}
+
+export const DEFAULT_PARAGRAPH_GAP = 2;
+
+/**
+ * Format seconds as a transcript timestamp (`01:02:03`)
+ */
+export function formatTranscriptTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(
+    Math.floor(total / 60) % 60
+  )}:${pad(total % 60)}`;
+}
+
+/**
+ * Group cues into paragraphs and place timestamp markers
+ */
+export function buildTranscriptParagraphs(
+  cues: TranscriptCue[],
+  {
+    paragraphGap = DEFAULT_PARAGRAPH_GAP,
+    timestampInterval = 0,
+  }: TranscriptOptions = {}
+): TranscriptParagraph[] {
+  const paragraphs: TranscriptParagraph[] = [];
+  let current: TranscriptParagraph | null = null;
+  let prevEnd = -Infinity;
+  let nextStamp = 0;
+
+  for (const cue of cues) {
+    const text = cue.text.trim();
+    if (!text) continue;
+    if (!current || cue.start - prevEnd > paragraphGap) {
+      current = { start: cue.start, runs: [] };
+      paragraphs.push(current);
+    }
+    const run: TranscriptRun = { text };
+    if (timestampInterval > 0 && cue.start >= nextStamp) {
+      run.timestamp = cue.start;
+      nextStamp =
+        (Math.floor(cue.start / timestampInterval) + 1) * timestampInterval;
+    }
+    current.runs.push(run);
+    prevEnd = cue.end;
+  }
+  return paragraphs;
+}
+
+const escapeHtml = escapeXml;
+
+/**
+ * Build a standalone, print-ready HTML transcript
+ */
+export function buildTranscriptHtml(
+  paragraphs: TranscriptParagraph[],
+  { title, description, languageName }: TranscriptOptions = {}
+): string {
+  const body = paragraphs
+    .map(
+      (p) =>
+        `    <p>${p.runs
+          .map(
+            (r) =>
+              (r.timestamp !== undefined
+                ? `<span class="ts">[${formatTranscriptTimestamp(
+                    r.timestamp
+                  )}]</span> `
+                : '') + escapeHtml(r.text)
+          )
+          .join(' ')}</p>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title || 'Transcript')}</title>
+    <style>
+      @page { margin: 2cm; }
+      body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111; }
+      h1 { font-family: system-ui, sans-serif; font-size: 1.6rem; margin-bottom: 0.25rem; }
+      .description { color: #444; margin-top: 0; }
+      .meta { color: #666; font-size: 0.85rem; border-bottom: 1px solid #ddd; padding-bottom: 0.75rem; margin-bottom: 1.5rem; }
+      .ts { font-family: ui-monospace, monospace; font-size: 0.8rem; color: #666; }
+      p { margin: 0 0 1rem; }
+      @media print { body { margin: 0; max-width: none; } }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(title || 'Transcript')}</h1>
+${description ? `    <p class="description">${escapeHtml(description)}</p>\n` : ''}    <p class="meta">${
+    languageName ? `${escapeHtml(languageName)} · ` : ''
+  }${new Date().toLocaleDateString()}</p>
+${body}
+  </body>
+</html>
+`;
+}
+
+const docxParagraph = (runs: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${runs}</w:p>`;
+
+const docxRun = (text: string, props = '') =>
+  `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(
+    text
+  )}</w:t></w:r>`;
+
+/**
+ * Build a .docx transcript (WordprocessingML packaged with JSZip)
+ */
+export async function buildTranscriptDocx(
+  paragraphs: TranscriptParagraph[],
+  { title, description, languageName }: TranscriptOptions = {}
+): Promise<Blob> {
+  const body: string[] = [
+    docxParagraph(docxRun(title || 'Transcript'), 'Title'),
+  ];
+  if (description) {
+    body.push(docxParagraph(docxRun(description), 'Subtitle'));
+  }
+  body.push(
+    docxParagraph(
+      docxRun(
+        `${languageName ? `${languageName} · ` : ''}${new Date().toLocaleDateString()}`,
+        '<w:color w:val="666666"/><w:sz w:val="18"/>'
+      )
+    )
+  );
+  for (const p of paragraphs) {
+    const runs = p.runs
+      .map(
+        (r, i) =>
+          (r.timestamp !== undefined
+            ? docxRun(
+                `[${formatTranscriptTimestamp(r.timestamp)}] `,
+                '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:color w:val="666666"/><w:sz w:val="18"/>'
+              )
+            : '') + docxRun(i < p.runs.length - 1 ? `${r.text} ` : r.text)
+      )
+      .join('');
+    body.push(docxParagraph(runs));
+  }
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body.join(
+    ''
+  )}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const stylesXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Arial"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="200" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style><w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style><w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:rPr><w:color w:val="444444"/></w:rPr></w:style></w:styles>`;
+
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`
+  );
+  zip.file(
+    '_rels/.rels',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`
+  );
+  zip.file(
+    'word/_rels/document.xml.rels',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+  );
+  zip.file('word/document.xml', documentXml);
+  zip.file('word/styles.xml', stylesXml);
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType:
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  });
+}
+
+// PDF pages are A4 in points, with 2cm margins
+const PDF_PAGE_WIDTH = 595.28;
+const PDF_PAGE_HEIGHT = 841.89;
+const PDF_MARGIN = 56.69;
+
+type PdfFont = 'regular' | 'bold' | 'mono';
+
+interface PdfStyle {
+  font: PdfFont;
+  size: number;
+  // 0 is black, 1 is white
+  gray: number;
+}
+
+interface PdfToken {
+  text: string;
+  style: PdfStyle;
+}
+
+interface PdfText extends PdfStyle {
+  text: string;
+  x: number;
+  // Baseline, measured from the top of the page
+  y: number;
+}
+
+type PdfMeasure = (text: string, style: PdfStyle) => number;
+
+const sameStyle = (a: PdfStyle, b: PdfStyle) =>
+  a.font === b.font && a.size === b.size && a.gray === b.gray;
+
+const PDF_STYLES: Record<
+  'title' | 'description' | 'meta' | 'body' | 'timestamp',
+  PdfStyle
+> = {
+  title: { font: 'bold', size: 20, gray: 0 },
+  description: { font: 'regular', size: 11, gray: 0.27 },
+  meta: { font: 'regular', size: 9, gray: 0.4 },
+  body: { font: 'regular', size: 11, gray: 0.07 },
+  timestamp: { font: 'mono', size: 9, gray: 0.4 },
+};
+
+/**
+ * Break tokens into lines no wider than `maxWidth`. A token too long for a
+ * whole line (unspaced scripts, long URLs) is split between characters.
+ */
+function wrapPdfTokens(
+  tokens: PdfToken[],
+  maxWidth: number,
+  measure: PdfMeasure
+): Array<Array<PdfToken & { x: number }>> {
+  const lines: Array<Array<PdfToken & { x: number }>> = [];
+  let line: Array<PdfToken & { x: number }> = [];
+  let x = 0;
+  const newLine = () => {
+    lines.push(line);
+    line = [];
+    x = 0;
+  };
+
+  for (const token of tokens) {
+    let text = token.text;
+    while (text) {
+      const gap = line.length ? measure(' ', token.style) : 0;
+      const width = measure(text, token.style);
+      if (x + gap + width <= maxWidth) {
+        line.push({ ...token, text, x: x + gap });
+        x += gap + width;
+        break;
+      }
+      if (line.length && width <= maxWidth) {
+        newLine();
+        continue;
+      }
+      const chars = Array.from(text);
+      let n = 0;
+      while (
+        n < chars.length &&
+        x + gap + measure(chars.slice(0, n + 1).join(''), token.style) <=
+          maxWidth
+      ) {
+        n++;
+      }
+      if (n === 0 && line.length) {
+        newLine();
+        continue;
+      }
+      n = Math.max(n, 1);
+      line.push({ ...token, text: chars.slice(0, n).join(''), x: x + gap });
+      text = chars.slice(n).join('');
+      newLine();
+    }
+  }
+  if (line.length) lines.push(line);
+  return lines;
+}
+
+/**
+ * Lay the header and paragraphs out on pages, merging neighbouring words of
+ * the same style into one piece of text
+ */
+function layoutTranscriptPdf(
+  paragraphs: TranscriptParagraph[],
+  { title, description, languageName }: TranscriptOptions,
+  measure: PdfMeasure
+): PdfText[][] {
+  const words = (text: string, style: PdfStyle): PdfToken[] =>
+    text
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((word) => ({ text: word, style }));
+
+  const blocks: Array<{
+    tokens: PdfToken[];
+    leading: number;
+    spaceAfter: number;
+  }> = [
+    {
+      tokens: words(title || 'Transcript', PDF_STYLES.title),
+      leading: 26,
+      spaceAfter: 4,
+    },
+  ];
+  if (description) {
+    blocks.push({
+      tokens: words(description, PDF_STYLES.description),
+      leading: 15,
+      spaceAfter: 4,
+    });
+  }
+  blocks.push({
+    tokens: words(
+      `${languageName ? `${languageName} · ` : ''}${new Date().toLocaleDateString()}`,
+      PDF_STYLES.meta
+    ),
+    leading: 13,
+    spaceAfter: 20,
+  });
+  for (const p of paragraphs) {
+    blocks.push({
+      tokens: p.runs.flatMap((r) => [
+        ...(r.timestamp !== undefined
+          ? [
+              {
+                text: `[${formatTranscriptTimestamp(r.timestamp)}]`,
+                style: PDF_STYLES.timestamp,
+              },
+            ]
+          : []),
+        ...words(r.text, PDF_STYLES.body),
+      ]),
+      leading: 16,
+      spaceAfter: 10,
+    });
+  }
+
+  const pages: PdfText[][] = [[]];
+  let y = PDF_MARGIN;
+  for (const block of blocks) {
+    const lines = wrapPdfTokens(
+      block.tokens,
+      PDF_PAGE_WIDTH - 2 * PDF_MARGIN,
+      measure
+    );
+    for (const line of lines) {
+      if (
+        y + block.leading > PDF_PAGE_HEIGHT - PDF_MARGIN &&
+        pages[pages.length - 1].length
+      ) {
+        pages.push([]);
+        y = PDF_MARGIN;
+      }
+      const page = pages[pages.length - 1];
+      const baseline = y + block.leading * 0.75;
+      let last: PdfText | undefined;
+      for (const token of line) {
+        if (last && sameStyle(last, token.style)) {
+          last.text += ` ${token.text}`;
+        } else {
+          last = {
+            ...token.style,
+            text: token.text,
+            x: PDF_MARGIN + token.x,
+            y: baseline,
+          };
+          page.push(last);
+        }
+      }
+      y += block.leading;
+    }
+    y += block.spaceAfter;
+  }
+  return pages;
+}
+
+// Advance widths (1/1000 em) of printable ASCII in Helvetica and Helvetica-Bold
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+// WinAnsi characters outside Latin-1, as [code, Helvetica width]
+const WIN_ANSI_EXTRAS: Record<string, [number, number]> = {
+  '€': [0x80, 556],
+  '‚': [0x82, 222],
+  'ƒ': [0x83, 556],
+  '„': [0x84, 333],
+  '…': [0x85, 1000],
+  '†': [0x86, 556],
+  '‡': [0x87, 556],
+  'ˆ': [0x88, 333],
+  '‰': [0x89, 1000],
+  'Š': [0x8a, 667],
+  '‹': [0x8b, 333],
+  'Œ': [0x8c, 1000],
+  'Ž': [0x8e, 611],
+  '‘': [0x91, 222],
+  '’': [0x92, 222],
+  '“': [0x93, 333],
+  '”': [0x94, 333],
+  '•': [0x95, 350],
+  '–': [0x96, 556],
+  '—': [0x97, 1000],
+  '˜': [0x98, 333],
+  '™': [0x99, 1000],
+  'š': [0x9a, 500],
+  '›': [0x9b, 333],
+  'œ': [0x9c, 944],
+  'ž': [0x9e, 500],
+  'Ÿ': [0x9f, 667],
+};
+
+const winAnsiCode = (ch: string): number | undefined => {
+  const code = ch.charCodeAt(0);
+  if (ch.length === 1 && ((code >= 32 && code < 127) || code >= 160)) {
+    return code < 256 ? code : WIN_ANSI_EXTRAS[ch]?.[0];
+  }
+  return undefined;
+};
+
+const isWinAnsi = (text: string) =>
+  Array.from(text).every((ch) => winAnsiCode(ch) !== undefined);
+
+// Accented Latin-1 letters take the width of their base letter
+const measureStandardFont: PdfMeasure = (text, { font, size }) => {
+  if (font === 'mono') return Array.from(text).length * size * 0.6;
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const ch of Array.from(text)) {
+    const code = ch.normalize('NFD').charCodeAt(0);
+    total +=
+      code >= 32 && code < 127
+        ? widths[code - 32]
+        : WIN_ANSI_EXTRAS[ch]?.[1] ?? 556;
+  }
+  return (total * size) / 1000;
+};
+
+// PDF file content is kept as strings holding one byte per character, plus
+// raw bytes for embedded images
+type PdfChunk = string | Uint8Array<ArrayBuffer>;
+
+const pdfNumber = (n: number) => String(Math.round(n * 100) / 100);
+
+const pdfString = (text: string) =>
+  `(${Array.from(text)
+    .map((ch) => String.fromCharCode(winAnsiCode(ch) ?? 63))
+    .join('')
+    .replace(/[\\()]/g, '\\$&')})`;
+
+// Text strings outside content streams may use UTF-16
+const pdfTextString = (text: string) =>
+  `<FEFF${Array.from({ length: text.length }, (_, i) =>
+    text.charCodeAt(i).toString(16).padStart(4, '0')
+  ).join('')}>`;
+
+const pdfStream = (dict: string, data: PdfChunk): PdfChunk[] => [
+  `<< ${dict ? `${dict} ` : ''}/Length ${data.length} >>\nstream\n`,
+  data,
+  '\nendstream',
+];
+
+const pdfPage = (resources: string, contentsId: number) =>
+  `<< /Type /Page /Parent 3 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources ${resources} /Contents ${contentsId} 0 R >>`;
+
+/**
+ * Number the objects from 1 and add the cross-reference table. Objects 1-3
+ * are the catalog, the document info and the page tree.
+ */
+function writePdf(objects: PdfChunk[][]): Blob {
+  const chunks: PdfChunk[] = ['%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'];
+  let offset = chunks[0].length;
+  const offsets = objects.map((parts, i) => {
+    const start = offset;
+    for (const part of [`${i + 1} 0 obj\n`, ...parts, '\nendobj\n']) {
+      chunks.push(part);
+      offset += part.length;
+    }
+    return start;
+  });
+  chunks.push(
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets
+      .map((o) => `${String(o).padStart(10, '0')} 00000 n \n`)
+      .join('')}trailer\n<< /Size ${
+      objects.length + 1
+    } /Root 1 0 R /Info 2 0 R >>\nstartxref\n${offset}\n%%EOF\n`
+  );
+  return new Blob(
+    chunks.map((c) =>
+      typeof c === 'string' ? Uint8Array.from(c, (ch) => ch.charCodeAt(0)) : c
+    ),
+    { type: 'application/pdf' }
+  );
+}
+
+const pdfHeader = (title: string, kids: number[]): PdfChunk[][] => [
+  ['<< /Type /Catalog /Pages 3 0 R >>'],
+  [`<< /Title ${pdfTextString(title)} >>`],
+  [
+    `<< /Type /Pages /Kids [${kids
+      .map((id) => `${id} 0 R`)
+      .join(' ')}] /Count ${kids.length} >>`,
+  ],
+];
+
+const PDF_FONTS: Array<[PdfFont, string, string]> = [
+  ['regular', 'F1', 'Helvetica'],
+  ['bold', 'F2', 'Helvetica-Bold'],
+  ['mono', 'F3', 'Courier'],
+];
+
+// Objects 4-6 are the fonts, followed by a page and its content stream per page
+function writeTextPdf(pages: PdfText[][], title: string): Blob {
+  const fontKey = (font: PdfFont) => PDF_FONTS.find((f) => f[0] === font)![1];
+  const resources = `<< /Font << ${PDF_FONTS.map(
+    ([, key], i) => `/${key} ${i + 4} 0 R`
+  ).join(' ')} >> >>`;
+  const pageId = (i: number) => 7 + i * 2;
+
+  return writePdf([
+    ...pdfHeader(title, pages.map((_, i) => pageId(i))),
+    ...PDF_FONTS.map(([, , name]) => [
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`,
+    ]),
+    ...pages.flatMap((page, i) => [
+      [pdfPage(resources, pageId(i) + 1)],
+      pdfStream(
+        '',
+        page
+          .map(
+            (t) =>
+              `BT /${fontKey(t.font)} ${t.size} Tf ${pdfNumber(
+                t.gray
+              )} g ${pdfNumber(t.x)} ${pdfNumber(
+                PDF_PAGE_HEIGHT - t.y
+              )} Td ${pdfString(t.text)} Tj ET`
+          )
+          .join('\n')
+      ),
+    ]),
+  ]);
+}
+
+const canvasFont = ({ font, size }: PdfStyle) =>
+  font === 'mono'
+    ? `${size}px Courier, monospace`
+    : `${font === 'bold' ? 'bold ' : ''}${size}px Helvetica, Arial, sans-serif`;
+
+// Pages are drawn at twice the PDF resolution to stay sharp when printed
+const PDF_RASTER_SCALE = 2;
+
+/**
+ * Draw each page with the browser's fonts and embed it as a JPEG. Objects
+ * from 4 on are a page, its content stream and its image, per page.
+ */
+async function writeImagePdf(
+  paragraphs: TranscriptParagraph[],
+  options: TranscriptOptions,
+  title: string
+): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(PDF_PAGE_WIDTH * PDF_RASTER_SCALE);
+  canvas.height = Math.round(PDF_PAGE_HEIGHT * PDF_RASTER_SCALE);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas rendering is not available');
+
+  const pages = layoutTranscriptPdf(paragraphs, options, (text, style) => {
+    ctx.font = canvasFont(style);
+    return ctx.measureText(text).width;
+  });
+  const images: Array<Uint8Array<ArrayBuffer>> = [];
+  for (const page of pages) {
+    ctx.setTransform(PDF_RASTER_SCALE, 0, 0, PDF_RASTER_SCALE, 0, 0);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT);
+    for (const t of page) {
+      const level = Math.round(t.gray * 255);
+      ctx.font = canvasFont(t);
+      ctx.fillStyle = `rgb(${level}, ${level}, ${level})`;
+      ctx.fillText(t.text, t.x, t.y);
+    }
+    const jpeg = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, 'image/jpeg', 0.92)
+    );
+    if (!jpeg) throw new Error('Failed to render a transcript page');
+    images.push(new Uint8Array(await jpeg.arrayBuffer()));
+  }
+
+  const pageId = (i: number) => 4 + i * 3;
+  return writePdf([
+    ...pdfHeader(title, pages.map((_, i) => pageId(i))),
+    ...images.flatMap((image, i) => [
+      [
+        pdfPage(
+          `<< /XObject << /Im1 ${pageId(i) + 2} 0 R >> >>`,
+          pageId(i) + 1
+        ),
+      ],
+      pdfStream(
+        '',
+        `q ${PDF_PAGE_WIDTH} 0 0 ${PDF_PAGE_HEIGHT} 0 0 cm /Im1 Do Q`
+      ),
+      pdfStream(
+        `/Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${
+          canvas.height
+        } /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+        image
+      ),
+    ]),
+  ]);
+}
+
+/**
+ * Build a .pdf transcript. Text in the standard PDF fonts' WinAnsi character
+ * set stays selectable; any other script is drawn with the browser's fonts
+ * and embedded as page images instead.
+ */
+export async function buildTranscriptPdf(
+  paragraphs: TranscriptParagraph[],
+  options: TranscriptOptions = {}
+): Promise<Blob> {
+  const title = options.title || 'Transcript';
+  const pages = layoutTranscriptPdf(paragraphs, options, measureStandardFont);
+  if (pages.every((page) => page.every((t) => isWinAnsi(t.text)))) {
+    return writeTextPdf(pages, title);
+  }
+  return writeImagePdf(paragraphs, options, title);
+}
@@ -0,0 +1,163 @@
+import type { VideoSettingsState } from '@/lib/store/video-settings';
+import { formatVttTime } from './time';
+
+export type TtmlStyleSettings = Pick<
+  VideoSettingsState,
+  | 'fontFamily'
+  | 'subtitleScale'
+  | 'subtitlePosition'
+  | 'subtitleBackground'
+  | 'subtitleOutline'
+>;
+
+export interface TtmlCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TtmlDocumentOptions {
+  // BCP-47 language code written to xml:lang
+  language: string;
+  title?: string;
+  settings: TtmlStyleSettings;
+  // CSS hex colour (#RRGGBB) for the text
+  color: string;
+  cues: TtmlCue[];
+  // Seconds added to every cue, e.g. 36000 for a 10:00:00:00 start timecode
+  startOffset?: number;
+}
+
+const IMSC1_TEXT_PROFILE = 'http://www.w3.org/ns/ttml/profile/imsc1/text';
+
+// 32x15 cells: one cell is 1/15 of the video height
+const CELL_ROWS = 15;
+
+// The player renders subtitles at 3.5% of the video height (see VideoPlayer)
+const FONT_SIZE_RATIO = 0.035;
+
+// Outline thickness in cells for each preset
+const OUTLINE_CELLS: Record<string, number> = {
+  thin: 0.02,
+  medium: 0.035,
+  thick: 0.05,
+};
+
+const REGIONS = {
+  top: { origin: '10% 5%', extent: '80% 20%', displayAlign: 'before' },
+  middle: { origin: '10% 40%', extent: '80% 20%', displayAlign: 'center' },
+  bottom: { origin: '10% 75%', extent: '80% 20%', displayAlign: 'after' },
+} as const;
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// TTML colours accept #RRGGBBAA; normalise the picker value and add opacity
+const toTtmlColor = (hex: string, alpha = 1): string => {
+  let value = (hex || '').trim().replace(/^#/, '');
+  if (value.length === 3) {
+    value = value
+      .split('')
+      .map((c) => c + c)
+      .join('');
+  }
+  if (!/^[0-9a-fA-F]{6}$/.test(value)) value = 'FFFFFF';
+  const a = Math.round(Math.min(1, Math.max(0, alpha)) * 255)
+    .toString(16)
+    .padStart(2, '0');
+  return `#${value}${a}`.toUpperCase();
+};
+
+const textStyleAttributes = (
+  settings: TtmlStyleSettings,
+  color: string
+): string[] => {
+  const fontSize = Math.round(
+    FONT_SIZE_RATIO * CELL_ROWS * 100 * (settings.subtitleScale || 1)
+  );
+  const attrs = [
+    `tts:color="${toTtmlColor(color)}"`,
+    `tts:fontFamily="${escapeXml(
+      settings.fontFamily ? `${settings.fontFamily}, ` : ''
+    )}proportionalSansSerif"`,
+    `tts:fontSize="${fontSize}%"`,
+    'tts:lineHeight="125%"',
+  ];
+
+  if (settings.subtitleBackground === 'black') {
+    attrs.push(`tts:backgroundColor="${toTtmlColor('#000000', 0.8)}"`);
+  } else if (settings.subtitleBackground === 'white') {
+    attrs.push(`tts:backgroundColor="${toTtmlColor('#FFFFFF', 0.9)}"`);
+  } else if (settings.subtitleOutline !== 'none') {
+    // Custom text-shadow strings are treated like the thick preset
+    const thickness =
+      OUTLINE_CELLS[settings.subtitleOutline] ?? OUTLINE_CELLS.thick;
+    attrs.push(`tts:textOutline="#000000FF ${thickness}c"`);
+  }
+  return attrs;
+};
+
+/**
+ * Build an IMSC1 (TTML text profile) document for a single language.
+ * Region and style are derived from the current video settings.
+ */
+export function buildTtmlDocument({
+  language,
+  title,
+  settings,
+  color,
+  cues,
+  startOffset = 0,
+}: TtmlDocumentOptions): string {
+  const region = REGIONS[settings.subtitlePosition] ?? REGIONS.bottom;
+  const out: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" xmlns:tts="http://www.w3.org/ns/ttml#styling" xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xml:lang="${escapeXml(
+      language
+    )}" ttp:timeBase="media" ttp:cellResolution="32 ${CELL_ROWS}" ttp:profile="${IMSC1_TEXT_PROFILE}">`,
+    '  <head>',
+  ];
+  if (title) {
+    out.push(
+      '    <metadata>',
+      `      <ttm:title>${escapeXml(title)}</ttm:title>`,
+      '    </metadata>'
+    );
+  }
+  out.push(
+    '    <styling>',
+    `      <style xml:id="s1" ${textStyleAttributes(
+      settings,
+      color
+    ).join(' ')}/>`,
+    '    </styling>',
+    '    <layout>',
+    `      <region xml:id="r1" tts:origin="${region.origin}" tts:extent="${region.extent}" tts:displayAlign="${region.displayAlign}" tts:textAlign="center"/>`,
+    '    </layout>',
+    '  </head>',
+    // tts:backgroundColor does not inherit, so the style sits on each span
+    '  <body region="r1">',
+    '    <div>'
+  );
+
+  for (const cue of cues) {
+    const text = cue.text
+      .replace(/\r\n?/g, '\n')
+      .split('\n')
+      .map(escapeXml)
+      .join('<br/>');
+    out.push(
+      `      <p begin="${formatVttTime(
+        cue.start + startOffset
+      )}" end="${formatVttTime(cue.end + startOffset)}"><span style="s1">${text}</span></p>`
+    );
+  }
+
+  out.push('    </div>', '  </body>', '</tt>', '');
+  return out.join('\n');
+}
@@ -0,0 +1,25 @@
+import { formatVttTime } from './time';
+
+export interface VttCue {
+  start: number;
+  end: number;
+  text: string;
+  // Speaker name, written as a voice tag
+  speaker?: string;
+}
+
+/**
+ * Build a WebVTT file; cues without text are skipped
+ */
+export function buildVtt(cues: VttCue[]): string {
+  const chunks: string[] = ['WEBVTT', ''];
+  for (const cue of cues) {
+    if (!cue.text) continue;
+    chunks.push(`${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}`);
+    chunks.push(
+      cue.speaker ? `<v ${cue.speaker.replace(/>/g, '')}>${cue.text}` : cue.text
+    );
+    chunks.push('');
+  }
+  return chunks.join('\n');
+}
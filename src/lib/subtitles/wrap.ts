@@ -0,0 +1,24 @@
+/**
+ * Wrap cue text into rows of at most `maxChars` characters.
+ * Explicit newlines are kept; words are never split, so a single word longer
+ * than `maxChars` produces an over-long row for the caller to report.
+ */
+export function wrapText(text: string, maxChars: number): string[] {
+  const rows: string[] = [];
+  for (const paragraph of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    let current = '';
+    for (const word of words) {
+      if (!current) {
+        current = word;
+      } else if (current.length + 1 + word.length <= maxChars) {
+        current += ` ${word}`;
+      } else {
+        rows.push(current);
+        current = word;
+      }
+    }
+    if (current) rows.push(current);
+  }
+  return rows;
+}
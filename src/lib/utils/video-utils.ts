@@ -56,3 +56,113 @@ export const getVideoScaleFormat = async (
     return undefined;
   }
 };
+
+interface Mp4Box {
+  type: string;
+  // Offsets of the box payload (after the header)
+  start: number;
+  end: number;
+}
+
+const readBoxes = (view: DataView, start: number, end: number): Mp4Box[] => {
+  const boxes: Mp4Box[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = view.getUint32(pos);
+    const type = String.fromCharCode(
+      view.getUint8(pos + 4),
+      view.getUint8(pos + 5),
+      view.getUint8(pos + 6),
+      view.getUint8(pos + 7)
+    );
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(pos + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < header) break;
+    boxes.push({ type, start: pos + header, end: Math.min(end, pos + size) });
+    pos += size;
+  }
+  return boxes;
+};
+
+const childBox = (view: DataView, parent: Mp4Box, type: string) =>
+  readBoxes(view, parent.start, parent.end).find((b) => b.type === type);
+
+// Locate the top-level moov box without reading the whole file
+const readMoovBox = async (blob: Blob): Promise<DataView | null> => {
+  let pos = 0;
+  while (pos + 8 <= blob.size) {
+    const head = new DataView(
+      await blob.slice(pos, Math.min(blob.size, pos + 16)).arrayBuffer()
+    );
+    let size = head.getUint32(0);
+    const type = String.fromCharCode(
+      head.getUint8(4),
+      head.getUint8(5),
+      head.getUint8(6),
+      head.getUint8(7)
+    );
+    if (size === 1 && head.byteLength >= 16) {
+      size = Number(head.getBigUint64(8));
+    } else if (size === 0) {
+      size = blob.size - pos;
+    }
+    if (size < 8) return null;
+    if (type === 'moov') {
+      return new DataView(await blob.slice(pos, pos + size).arrayBuffer());
+    }
+    pos += size;
+  }
+  return null;
+};
+
+/**
+ * Read the frame rate of an MP4/MOV video from its video track
+ * (media timescale divided by the most common sample duration).
+ * @returns Frames per second, or undefined for other containers
+ */
+export const getVideoFrameRate = async (
+  blob: Blob
+): Promise<number | undefined> => {
+  try {
+    const view = await readMoovBox(blob);
+    if (!view) return undefined;
+    const [moov] = readBoxes(view, 0, view.byteLength);
+
+    for (const trak of readBoxes(view, moov.start, moov.end)) {
+      if (trak.type !== 'trak') continue;
+      const mdia = childBox(view, trak, 'mdia');
+      const hdlr = mdia && childBox(view, mdia, 'hdlr');
+      const mdhd = mdia && childBox(view, mdia, 'mdhd');
+      if (!mdia || !hdlr || !mdhd) continue;
+      if (view.getUint32(hdlr.start + 8) !== 0x76696465) continue; // 'vide'
+
+      const version = view.getUint8(mdhd.start);
+      const timescale = view.getUint32(mdhd.start + (version === 1 ? 20 : 12));
+      const minf = childBox(view, mdia, 'minf');
+      const stbl = minf && childBox(view, minf, 'stbl');
+      const stts = stbl && childBox(view, stbl, 'stts');
+      if (!stts || !timescale) return undefined;
+
+      let bestCount = 0;
+      let bestDelta = 0;
+      const entries = view.getUint32(stts.start + 4);
+      for (let i = 0; i < entries; i++) {
+        const count = view.getUint32(stts.start + 8 + i * 8);
+        const delta = view.getUint32(stts.start + 12 + i * 8);
+        if (count > bestCount) {
+          bestCount = count;
+          bestDelta = delta;
+        }
+      }
+      return bestDelta ? timescale / bestDelta : undefined;
+    }
+    return undefined;
+  } catch {
+    return undefined;
+  }
+};
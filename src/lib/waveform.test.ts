@@ -0,0 +1,18 @@
+/**
+ * Tests for reducing decoded audio to waveform peaks
+ */
+
+import { computePeaks } from './waveform';
+
+describe('computePeaks', () => {
+  it('keeps the loudest sample of each bucket across channels', () => {
+    const left = new Float32Array([0.25, -0.5, 0.25, 0.25]);
+    const right = new Float32Array([0.5, 0.25, -0.75, 0]);
+    expect(Array.from(computePeaks([left, right], 4, 2))).toEqual([0.5, 0.75]);
+  });
+
+  it('adds a short bucket for trailing samples and clamps to 1', () => {
+    const data = new Float32Array([0, 0, 1.5]);
+    expect(Array.from(computePeaks([data], 2, 1))).toEqual([0, 1]);
+  });
+});
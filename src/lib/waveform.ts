@@ -0,0 +1,85 @@
+'use client';
+
+/**
+ * Audio waveform peaks for the editor timeline, decoded with Web Audio from
+ * the project's local video or its audio URL
+ */
+
+export interface WaveformData {
+  // Peak amplitude (0–1) of each bucket
+  peaks: Float32Array;
+  peaksPerSecond: number;
+  duration: number;
+}
+
+export const DEFAULT_PEAKS_PER_SECOND = 100;
+
+// decodeAudioData holds the whole file in memory while decoding
+const MAX_DECODE_BYTES = 512 * 1024 * 1024;
+
+// Decoding resamples to this rate, the lowest Web Audio allows, which keeps
+// an hour of stereo PCM under 90 MB while leaving enough samples per peak
+const DECODE_SAMPLE_RATE = 3000;
+
+type LegacyWindow = Window & {
+  webkitOfflineAudioContext?: typeof OfflineAudioContext;
+};
+
+/**
+ * Reduce decoded channels to one peak per bucket, taking the loudest channel
+ */
+export function computePeaks(
+  channels: Float32Array[],
+  sampleRate: number,
+  peaksPerSecond = DEFAULT_PEAKS_PER_SECOND
+): Float32Array {
+  const length = channels[0]?.length ?? 0;
+  const samplesPerPeak = Math.max(1, Math.floor(sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(length / samplesPerPeak));
+  for (let p = 0; p < peaks.length; p++) {
+    const from = p * samplesPerPeak;
+    const to = Math.min(length, from + samplesPerPeak);
+    let max = 0;
+    for (const data of channels) {
+      for (let i = from; i < to; i++) {
+        const v = Math.abs(data[i]);
+        if (v > max) max = v;
+      }
+    }
+    peaks[p] = Math.min(1, max);
+  }
+  return peaks;
+}
+
+/**
+ * Fetch and decode a media URL (a signed audio URL or a blob: URL from
+ * IndexedDB) into waveform peaks
+ */
+export async function decodeWaveform(
+  url: string,
+  peaksPerSecond = DEFAULT_PEAKS_PER_SECOND
+): Promise<WaveformData> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to load media (${res.status})`);
+  const size = Number(res.headers.get('Content-Length') || 0);
+  if (size > MAX_DECODE_BYTES) {
+    throw new Error('Media is too large to draw a waveform');
+  }
+  const buffer = await res.arrayBuffer();
+
+  const OfflineContextClass =
+    window.OfflineAudioContext ||
+    (window as LegacyWindow).webkitOfflineAudioContext;
+  if (!OfflineContextClass) throw new Error('Web Audio is not supported');
+  // Never rendered; only used to decode at its sample rate
+  const ctx = new OfflineContextClass(1, 1, DECODE_SAMPLE_RATE);
+  const audio = await ctx.decodeAudioData(buffer);
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, i) =>
+    audio.getChannelData(i)
+  );
+  return {
+    peaks: computePeaks(channels, audio.sampleRate, peaksPerSecond),
+    peaksPerSecond,
+    duration: audio.duration,
+  };
+}
@@ -23,6 +23,7 @@ export interface Project {
   subtitleCount: number;
   language?: string;
   translateToEnglish: boolean;
+  diarize?: boolean;
   originalLanguage?: string;
   transcriptionId?: string;
   transcriptionJsonUrl?: string;
@@ -50,6 +51,8 @@ export interface CreateProjectData {
   mimeType: string;
   language: string;
   translateToEnglish?: boolean;
+  // Ask the transcription backend to label segments by speaker
+  diarize?: boolean;
   deviceId?: string;
   thumbnailDataUrl?: string;
   durationSeconds?: number;
@@ -57,6 +60,8 @@ export interface CreateProjectData {
   scaleFormat?: string;
   fileSystemHandleId?: string;
   audioS3Url?: string;
+  // Set to READY when the transcription is supplied by the client
+  status?: ProjectStatus;
 }
 
 export interface ProjectWithUpload extends Project {
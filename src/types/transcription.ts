@@ -0,0 +1,38 @@
+// Transcription JSON Types (as stored at Project.transcriptionJsonUrl)
+export interface TranscriptionJsonWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptionJsonSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  words: TranscriptionJsonWord[];
+  translations?: Record<string, string>;
+  pending?: Record<string, boolean>;
+  // Translations divided by a split that still need a human check
+  review?: Record<string, boolean>;
+  // Key into TranscriptionJson.speakers, set by diarization or by hand
+  speaker?: string;
+}
+
+export interface SpeakerInfo {
+  name: string;
+  color: string;
+}
+
+// Source term and the term each target language must use for it
+export interface GlossaryEntry {
+  source: string;
+  targets: Record<string, string>;
+}
+
+export interface TranscriptionJson {
+  segments: TranscriptionJsonSegment[];
+  language?: string;
+  speakers?: Record<string, SpeakerInfo>;
+  glossary?: GlossaryEntry[];
+}